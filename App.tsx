@@ -1,115 +1,865 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { generateImageFromText, editExistingImage } from './services/geminiService';
-import { GeneratedImage, AspectRatio, Page } from './types';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { generateImageFromText, editExistingImage, extendImage } from './services/geminiService';
+import { listProviders, hasProvider, getProvider, DEFAULT_PROVIDER_ID } from './services/providers/registry';
+import { jobQueue, DEFAULT_CONCURRENCY } from './services/jobQueue';
+import { toErrorNotice, ErrorNotice, BudgetExceededError } from './services/errors';
+import { AppSettings, GeneratedImage, GenerationParams, GenerationProgress, AspectRatio, CanvasExtension, EditSession, Page, ProviderId, GenerationJob, ReferenceImage, ReferenceRole, PromptPreset, GalleryQuery, Collection, Route } from './types';
 import { ThemeToggle } from './components/ThemeToggle';
 import { ImageCard } from './components/ImageCard';
+import { StorageMeter } from './components/StorageMeter';
+import { JobCard } from './components/JobCard';
+import { ReferenceTray } from './components/ReferenceTray';
+import { PresetBar } from './components/PresetBar';
+import { PresetManager } from './components/PresetManager';
+import { GalleryToolbar } from './components/GalleryToolbar';
+import { BulkActionBar } from './components/BulkActionBar';
+import { ImportDialog } from './components/ImportDialog';
+import { ImageDetail } from './components/ImageDetail';
+import { UsageDashboard } from './components/UsageDashboard';
+import { SettingsPage } from './components/SettingsPage';
+import { ContactForm } from './components/ContactForm';
+import { PromptEnhancer } from './components/PromptEnhancer';
+import { EditSessionPanel } from './components/EditSessionPanel';
+import { PromptInput } from './components/PromptInput';
+import { Lightbox } from './components/Lightbox';
+import { NewsletterForm } from './components/NewsletterForm';
+import { BUILT_IN_PRESETS, loadUserPresets, saveUserPresets, applyStyle, combineAvoid } from './services/presetService';
+import { prepareImageFile, fileBaseName, MAX_REFERENCE_SIDE } from './services/uploadService';
+import { DEFAULT_GALLERY_QUERY, isFilteredQuery, nearestAspectRatio } from './services/galleryQuery';
+import { downloadImages, downloadBlob } from './services/downloadService';
+import { loadImage } from './services/imageProcessing';
+import { readImageMetadata, RestoredImage } from './services/pngMetadata';
+import { currentRoute, navigate, restoreScroll, subscribeToRoute } from './services/router';
+import { BudgetStatus, checkBudget, subscribeToUsage } from './services/usageService';
+import { CANDIDATE_COUNTS, loadSettings, restoreApiKey, subscribeToSettings } from './services/settingsService';
+import { GENERATION_PARAMS_VERSION } from './services/generationParams';
+import { loadPromptHistory, savePromptHistory, addToHistory } from './services/promptHistory';
+import { exportArchive, readArchive, applyImport, ArchiveScope, ConflictResolution, ImportPlan } from './services/archiveService';
+import {
+  saveImage,
+  updateImageMetadata,
+  updateImagesMetadata,
+  hasImage,
+  loadImages,
+  deleteImages,
+  deleteLineages,
+  loadImagePage,
+  countImages,
+  clearImages,
+  evictOldest,
+  getStorageUsage,
+  migrateFromLocalStorage,
+  listCollections,
+  saveCollection,
+  deleteCollection,
+  StorageUsage,
+} from './services/storageService';
 
 // Using the user-provided image as the site logo
 const SITE_LOGO = "https://lh3.googleusercontent.com/d/1C4Yl5C0W9_59S_6z9e_T_3Z9jX8V1S6A";
 
+const createId = () => Math.random().toString(36).substr(2, 9);
+
+// The default provider and model from the Settings page, falling back when either is gone
+function defaultProviderChoice(settings: AppSettings): { provider: ProviderId; model: string } {
+  const provider = settings.provider && hasProvider(settings.provider) ? settings.provider : DEFAULT_PROVIDER_ID;
+  const { models, defaultModel } = getProvider(provider);
+  return { provider, model: settings.model && models.includes(settings.model) ? settings.model : defaultModel };
+}
+
+// The supported ratio closest to an image's pixel size
+async function imageAspectRatio(url: string): Promise<AspectRatio> {
+  const img = await loadImage(url);
+  return nearestAspectRatio(img.naturalWidth, img.naturalHeight);
+}
+
 const App: React.FC = () => {
   const [images, setImages] = useState<GeneratedImage[]>([]);
+  const [totalImages, setTotalImages] = useState(0);
+  const [hasMoreImages, setHasMoreImages] = useState(false);
+  const [isLoadingImages, setIsLoadingImages] = useState(false);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  // Every filter except the collection, which comes from the /collection/:id route
+  const [galleryFilters, setGalleryFilters] = useState<GalleryQuery>(DEFAULT_GALLERY_QUERY);
+  const [matchingImages, setMatchingImages] = useState(0);
+  const [galleryTags, setGalleryTags] = useState<string[]>([]);
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [collectionsLoaded, setCollectionsLoaded] = useState(false);
+  const [selectMode, setSelectMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [importPlan, setImportPlan] = useState<ImportPlan | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
   const [prompt, setPrompt] = useState('');
-  const [aspectRatio, setAspectRatio] = useState<AspectRatio>('1:1');
-  const [isGenerating, setIsGenerating] = useState(false);
-  const [isEditingId, setIsEditingId] = useState<string | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [promptHistory, setPromptHistory] = useState<string[]>(loadPromptHistory);
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>(() => loadSettings().aspectRatio);
+  const [providerId, setProviderId] = useState<ProviderId>(() => defaultProviderChoice(loadSettings()).provider);
+  const [model, setModel] = useState(() => defaultProviderChoice(loadSettings()).model);
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  const [variations, setVariations] = useState(() => loadSettings().candidateCount);
+  const [batchMode, setBatchMode] = useState(false);
+  const [references, setReferences] = useState<ReferenceImage[]>([]);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [userPresets, setUserPresets] = useState<PromptPreset[]>(loadUserPresets);
+  const [styleId, setStyleId] = useState<string | null>(null);
+  const [avoid, setAvoid] = useState('');
+  const [showPresetManager, setShowPresetManager] = useState(false);
+  // The prompt as it was when Enhance was clicked; typing meanwhile does not re-run it
+  const [enhanceDraft, setEnhanceDraft] = useState<string | null>(null);
+  const [conversationSource, setConversationSource] = useState<GeneratedImage | null>(null);
+  const [lightbox, setLightbox] = useState<{ rootId: string; versionId: string } | null>(null);
+  const uploadInputRef = useRef<HTMLInputElement>(null);
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY);
+  const [error, setError] = useState<ErrorNotice | null>(null);
   const [theme, setTheme] = useState<'dark' | 'light'>('dark');
-  const [activePage, setActivePage] = useState<Page>('home');
+  const [route, setRoute] = useState<Route>(currentRoute);
+  const [budget, setBudget] = useState<BudgetStatus | null>(null);
+
+  const routeCollectionId = route.page === 'collection' ? route.id : null;
+  const galleryQuery = useMemo(
+    () => ({ ...galleryFilters, collectionId: routeCollectionId }),
+    [galleryFilters, routeCollectionId]
+  );
+
+  const presets = useMemo(() => [...BUILT_IN_PRESETS, ...userPresets], [userPresets]);
+
+  const activeJobs = jobs.filter(job => job.status === 'queued' || job.status === 'running');
+  const editingRootIds = new Set(activeJobs.filter(job => job.kind === 'edit').map(job => job.rootId));
+
+  // Gallery cards are root images; edit versions hang off them by rootId
+  const galleryRoots = useMemo(() => images.filter(img => !img.parentId), [images]);
+  const versionsByRoot = useMemo(() => {
+    const map: Record<string, GeneratedImage[]> = {};
+    for (const img of images) {
+      const rootId = img.rootId ?? img.id;
+      (map[rootId] ??= []).push(img);
+    }
+    for (const versions of Object.values(map)) {
+      versions.sort((a, b) => (a.parentId ? 1 : 0) - (b.parentId ? 1 : 0) || a.timestamp - b.timestamp);
+    }
+    return map;
+  }, [images]);
+
+  const refreshStorageInfo = useCallback(async () => {
+    setTotalImages(await countImages());
+    setStorageUsage(await getStorageUsage());
+  }, []);
 
-  // Contact Form State
-  const [contactForm, setContactForm] = useState({ name: '', email: '', subject: '', message: '' });
-  const [isSubmittingContact, setIsSubmittingContact] = useState(false);
-  const [contactSuccess, setContactSuccess] = useState(false);
+  const reloadGallery = useCallback(async () => {
+    setIsLoadingImages(true);
+    try {
+      const page = await loadImagePage(galleryQuery);
+      setImages(page.images);
+      setHasMoreImages(page.hasMore);
+      setMatchingImages(page.total);
+      setGalleryTags(page.tags);
+      await refreshStorageInfo();
+    } catch (e) {
+      console.error("Failed to load saved images", e);
+    } finally {
+      setIsLoadingImages(false);
+    }
+  }, [galleryQuery, refreshStorageInfo]);
 
-  // Load state from local storage
+  // Load the gallery whenever the query changes, importing any legacy localStorage history first
+  const migration = useRef<Promise<unknown> | null>(null);
   useEffect(() => {
-    const saved = localStorage.getItem('text2image-images');
-    if (saved) {
-      try {
-        setImages(JSON.parse(saved));
-      } catch (e) {
-        console.error("Failed to parse saved images");
-      }
+    migration.current ??= migrateFromLocalStorage();
+    migration.current.finally(reloadGallery);
+  }, [reloadGallery]);
+
+  // A selection only makes sense for the cards it was made on
+  useEffect(() => {
+    setSelectedIds(new Set());
+  }, [galleryQuery]);
+
+  useEffect(() => {
+    listCollections()
+      .then(setCollections)
+      .catch(e => console.error("Failed to load collections", e))
+      .finally(() => setCollectionsLoaded(true));
+  }, []);
+
+  const loadMoreImages = useCallback(async () => {
+    if (isLoadingImages || !hasMoreImages || images.length === 0) return;
+    setIsLoadingImages(true);
+    try {
+      const page = await loadImagePage(galleryQuery, galleryRoots.length);
+      // Images generated since the last page shift the offset, so skip any already shown
+      setImages(prev => {
+        const shown = new Set(prev.map(img => img.id));
+        return [...prev, ...page.images.filter(img => !shown.has(img.id))];
+      });
+      setHasMoreImages(page.hasMore);
+    } catch (e) {
+      console.error("Failed to load more images", e);
+    } finally {
+      setIsLoadingImages(false);
     }
+  }, [galleryQuery, galleryRoots, hasMoreImages, isLoadingImages]);
+
+  // Fetch the next page when the end of the gallery scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMoreImages) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) loadMoreImages();
+    }, { rootMargin: '400px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMoreImages, loadMoreImages]);
+
+  useEffect(() => jobQueue.subscribe(setJobs), []);
+
+  useEffect(() => {
+    saveUserPresets(userPresets);
+  }, [userPresets]);
+
+  useEffect(() => {
+    savePromptHistory(promptHistory);
+  }, [promptHistory]);
+
+  useEffect(() => {
+    const saved = Number(localStorage.getItem('text2image-concurrency'));
+    if (saved > 0) setConcurrency(saved);
   }, []);
 
-  // Save state to local storage
   useEffect(() => {
-    localStorage.setItem('text2image-images', JSON.stringify(images));
-  }, [images]);
+    jobQueue.setConcurrency(concurrency);
+    localStorage.setItem('text2image-concurrency', String(concurrency));
+  }, [concurrency]);
 
-  // Scroll to top on page change
+  // New defaults from the Settings page replace the form's choices; other changes leave them alone
   useEffect(() => {
-    window.scrollTo(0, 0);
-  }, [activePage]);
+    restoreApiKey();
+    let previous = loadSettings();
+    return subscribeToSettings(() => {
+      const next = loadSettings();
+      if (next.provider !== previous.provider || next.model !== previous.model) {
+        const choice = defaultProviderChoice(next);
+        setProviderId(choice.provider);
+        setModel(choice.model);
+      }
+      if (next.aspectRatio !== previous.aspectRatio) setAspectRatio(next.aspectRatio);
+      if (next.candidateCount !== previous.candidateCount) setVariations(next.candidateCount);
+      previous = next;
+    });
+  }, []);
+
+  useEffect(() => subscribeToRoute(setRoute), []);
+
+  // Back/forward returns to where the page was left; new navigation starts at the top
+  useEffect(() => {
+    restoreScroll();
+  }, [route]);
+
+  // Budget status drives the warning banner and blocks new jobs at a hard limit
+  useEffect(() => {
+    const refresh = () => {
+      checkBudget().then(setBudget).catch(e => console.error("Failed to check budget", e));
+    };
+    refresh();
+    return subscribeToUsage(refresh);
+  }, []);
+
+  const goTo = (page: Page) => navigate({ page });
+
+  // Returns false, with the reason in the error banner, when a hard limit has been reached
+  const ensureBudget = () => {
+    if (budget?.level !== 'blocked') return true;
+    setError(toErrorNotice(new BudgetExceededError(budget.message!), 'Spending limit reached'));
+    return false;
+  };
 
   const toggleTheme = useCallback(() => {
     setTheme(prev => prev === 'dark' ? 'light' : 'dark');
   }, []);
 
-  const handleGenerate = async (e: React.FormEvent) => {
+  const handleProviderChange = (id: ProviderId) => {
+    setProviderId(id);
+    setModel(getProvider(id).defaultModel);
+  };
+
+  const handleGenerate = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!prompt.trim() || isGenerating) return;
+    if (!prompt.trim()) return;
+
+    // Batch mode treats each non-empty line as its own prompt
+    const prompts = batchMode
+      ? prompt.split('\n').map(line => line.trim()).filter(Boolean)
+      : [prompt.trim()];
 
-    setIsGenerating(true);
+    if (!ensureBudget()) return;
     setError(null);
+    setPromptHistory(prev => addToHistory(prev, prompts));
+    for (const text of prompts) {
+      for (let i = 0; i < variations; i++) {
+        enqueueGeneration(text);
+      }
+    }
+    setPrompt('');
+  };
 
-    try {
-      const url = await generateImageFromText(prompt, aspectRatio);
-      const newImage: GeneratedImage = {
-        id: Math.random().toString(36).substr(2, 9),
-        url,
-        prompt,
-        timestamp: Date.now(),
-      };
-      setImages(prev => [newImage, ...prev]);
-      setPrompt('');
-    } catch (err: any) {
-      setError(err.message || 'Failed to generate image. Please check your API key and try again.');
-    } finally {
-      setIsGenerating(false);
+  const enqueueGeneration = (text: string) => {
+    const spec = { kind: 'generate' as const, prompt: text, aspectRatio, provider: providerId, model };
+    const maxReferences = getProvider(providerId).maxReferenceImages;
+    const jobReferences = references.slice(0, maxReferences);
+    const style = presets.find(preset => preset.id === styleId && preset.kind === 'style');
+    const negativePrompt = combineAvoid(style?.avoid, avoid) || undefined;
+    const styledPrompt = applyStyle(spec.prompt, style);
+    // Captured now so the record matches the request even if the settings change while it waits
+    const { temperature, seed } = loadSettings();
+    const params: GenerationParams = {
+      version: GENERATION_PARAMS_VERSION,
+      kind: 'generate',
+      prompt: spec.prompt,
+      provider: spec.provider,
+      model: spec.model,
+      aspectRatio: spec.aspectRatio,
+      stylePresetId: style?.id,
+      avoid: avoid.trim() || undefined,
+      references: jobReferences.map(({ imageId, role, name }) => ({ imageId, role, name })),
+      config: {
+        prompt: styledPrompt,
+        aspectRatio: spec.aspectRatio,
+        negativePrompt,
+        referenceCount: jobReferences.length,
+        temperature: temperature ?? undefined,
+        seed: seed ?? undefined,
+      },
+    };
+    jobQueue.enqueue(spec, async (signal, report) => {
+      try {
+        const url = await generateImageFromText(styledPrompt, spec.aspectRatio, {
+          provider: spec.provider,
+          model: spec.model,
+          references: jobReferences,
+          negativePrompt,
+          temperature: temperature ?? undefined,
+          seed: seed ?? undefined,
+          signal,
+          onProgress: report,
+        });
+        signal.throwIfAborted();
+        const id = createId();
+        const saved = await saveImage({
+          id,
+          url,
+          prompt: spec.prompt,
+          timestamp: Date.now(),
+          origin: 'generated',
+          provider: spec.provider,
+          model: spec.model,
+          stylePresetId: style?.id,
+          negativePrompt,
+          aspectRatio: spec.aspectRatio,
+          rootId: id,
+          params,
+        });
+        setImages(prev => [saved, ...prev]);
+        refreshStorageInfo();
+      } catch (err) {
+        if (!signal.aborted) {
+          setError(toErrorNotice(err, 'Failed to generate image'));
+        }
+        throw err;
+      }
+    });
+  };
+
+  // Queues an edit job on `sourceId` and saves its result as a new version.
+  // Without `jobAspectRatio` the edit keeps the source's shape, read from its pixels.
+  const runEditJob = (
+    sourceId: string,
+    editPrompt: string,
+    jobAspectRatio: AspectRatio | undefined,
+    masked: boolean,
+    run: (source: GeneratedImage, signal: AbortSignal, onProgress: (progress: GenerationProgress) => void) => Promise<string>,
+    config: Record<string, unknown> = {}
+  ) => {
+    const source = images.find(img => img.id === sourceId);
+    if (!source) return;
+    const rootId = source.rootId ?? source.id;
+    const root = images.find(img => img.id === rootId);
+    if (!root || !ensureBudget()) return;
+
+    setError(null);
+    const spec = { kind: 'edit' as const, prompt: editPrompt, aspectRatio: jobAspectRatio, provider: providerId, model, sourceId, rootId };
+    jobQueue.enqueue(spec, async (signal, report) => {
+      try {
+        const newUrl = await run(source, signal, report);
+        signal.throwIfAborted();
+        const params: GenerationParams = {
+          version: GENERATION_PARAMS_VERSION,
+          kind: 'edit',
+          prompt: editPrompt,
+          provider: spec.provider,
+          model: spec.model,
+          aspectRatio: jobAspectRatio ?? await imageAspectRatio(source.url),
+          references: [],
+          config: { instruction: editPrompt, masked, sourceId, aspectRatio: jobAspectRatio, ...config },
+        };
+        const version = await saveImage({
+          id: createId(),
+          url: newUrl,
+          prompt: root.prompt,
+          editPrompt,
+          masked,
+          parentId: source.id,
+          rootId,
+          timestamp: Date.now(),
+          provider: spec.provider,
+          model: spec.model,
+          params,
+        });
+        await updateImageMetadata(rootId, { rootId, activeVersionId: version.id });
+        setImages(prev => [
+          ...prev.map(img => img.id === rootId ? { ...img, rootId, activeVersionId: version.id } : img),
+          version,
+        ]);
+        refreshStorageInfo();
+      } catch (err) {
+        if (!signal.aborted) {
+          setError(toErrorNotice(err, 'Editing failed'));
+        }
+        throw err;
+      }
+    });
+  };
+
+  const handleEdit = (sourceId: string, editPrompt: string, mask?: string) =>
+    runEditJob(sourceId, editPrompt, undefined, !!mask, (source, signal, onProgress) =>
+      editExistingImage(editPrompt, source.url, { provider: providerId, model, mask, signal, onProgress })
+    );
+
+  const handleExtend = (sourceId: string, extension: CanvasExtension) => {
+    const editPrompt = `Extend canvas to ${extension.aspectRatio}${extension.prompt ? `: ${extension.prompt}` : ''}`;
+    runEditJob(sourceId, editPrompt, extension.aspectRatio, false, (source, signal, onProgress) =>
+      extendImage(source.url, extension, { provider: providerId, model, signal, onProgress }),
+      { extension }
+    );
+  };
+
+  const closeLightbox = useCallback(() => setLightbox(null), []);
+
+  // Conversations need a provider that takes multi-turn requests; fall back to Gemini otherwise
+  const conversationProvider = getProvider(providerId).converse ? providerId : DEFAULT_PROVIDER_ID;
+  const conversationModel = conversationProvider === providerId ? model : getProvider(DEFAULT_PROVIDER_ID).defaultModel;
+
+  // Saves one conversation result as a new version, branching from the latest result already saved
+  const handleSaveConversationTurn = async (session: EditSession, turnId: string): Promise<string> => {
+    const index = session.turns.findIndex(turn => turn.id === turnId);
+    const turn = session.turns[index];
+    const root = images.find(img => img.id === session.rootId);
+    if (!turn?.image || !root) {
+      throw new Error('The original image is no longer in the gallery.');
+    }
+
+    let parentId = session.sourceId;
+    for (const earlier of session.turns.slice(0, index).reverse()) {
+      if (earlier.savedImageId && await hasImage(earlier.savedImageId)) {
+        parentId = earlier.savedImageId;
+        break;
+      }
     }
+    if (!(await hasImage(parentId))) parentId = root.id;
+    const instruction = session.turns.slice(0, index).reverse().find(t => t.role === 'user');
+
+    const version = await saveImage({
+      id: createId(),
+      url: turn.image,
+      prompt: root.prompt,
+      editPrompt: instruction?.text,
+      parentId,
+      rootId: root.id,
+      timestamp: Date.now(),
+      provider: session.provider,
+      model: session.model,
+      sessionId: session.id,
+      params: {
+        version: GENERATION_PARAMS_VERSION,
+        kind: 'edit',
+        prompt: instruction?.text ?? '',
+        provider: session.provider,
+        model: session.model,
+        references: [],
+        config: { sessionId: session.id, turnCount: index + 1 },
+      },
+    });
+    await updateImageMetadata(root.id, { rootId: root.id, activeVersionId: version.id });
+    setImages(prev => [
+      ...prev.map(img => img.id === root.id ? { ...img, rootId: root.id, activeVersionId: version.id } : img),
+      version,
+    ]);
+    refreshStorageInfo();
+    return version.id;
+  };
+
+  const handleSavePreset = (preset: PromptPreset) => {
+    setUserPresets(prev => prev.some(p => p.id === preset.id)
+      ? prev.map(p => p.id === preset.id ? preset : p)
+      : [...prev, preset]);
   };
 
-  const handleEdit = async (id: string, editPrompt: string) => {
-    const targetImage = images.find(img => img.id === id);
-    if (!targetImage) return;
+  const handleDeletePreset = (id: string) => {
+    setUserPresets(prev => prev.filter(p => p.id !== id));
+    if (styleId === id) setStyleId(null);
+  };
 
-    setIsEditingId(id);
+  // Imported presets replace saved ones with the same id; built-in ids are never overwritten
+  const handleImportPresets = (imported: PromptPreset[]) => {
+    const builtInIds = new Set(BUILT_IN_PRESETS.map(p => p.id));
+    imported
+      .map(preset => builtInIds.has(preset.id) ? { ...preset, id: createId() } : preset)
+      .forEach(handleSavePreset);
+  };
+
+  const isArchive = (file: File) => file.type === 'application/zip' || file.name.toLowerCase().endsWith('.zip');
+
+  const handleUpload = async (files: File[]) => {
     setError(null);
+    const archive = files.find(isArchive);
+    if (archive) {
+      await handleOpenArchive(archive);
+      files = files.filter(file => !isArchive(file));
+    }
+    for (const file of files) {
+      try {
+        const restored = await readImageMetadata(file);
+        if (restored && await hasImage(restored.id)) {
+          setError({ title: 'Already in the gallery', message: `${file.name} is an image from this gallery that is still stored here.` });
+          continue;
+        }
+        const prepared = await prepareImageFile(file);
+        const id = createId();
+        const saved = await saveImage(restored ? await fromMetadata(restored, prepared.dataUrl) : {
+          id,
+          url: prepared.dataUrl,
+          prompt: fileBaseName(file),
+          timestamp: Date.now(),
+          origin: 'upload',
+          aspectRatio: nearestAspectRatio(prepared.width, prepared.height),
+          rootId: id,
+        });
+        setImages(prev => [saved, ...prev]);
+      } catch (err) {
+        setError(toErrorNotice(err, `Could not upload ${file.name}`));
+      }
+    }
+    refreshStorageInfo();
+  };
+
+  // Downloads from this app carry their record; a version rejoins its tree when its parent is still stored
+  const fromMetadata = async (restored: RestoredImage, url: string): Promise<GeneratedImage> => {
+    if (restored.parentId && await hasImage(restored.parentId)) {
+      return { ...restored, url };
+    }
+    return { ...restored, url, parentId: undefined, rootId: restored.id, editPrompt: undefined, masked: undefined };
+  };
+
+  const handleAddReferenceFiles = async (files: File[]) => {
+    setError(null);
+    const room = getProvider(providerId).maxReferenceImages - references.length;
+    for (const file of files.slice(0, Math.max(0, room))) {
+      try {
+        const prepared = await prepareImageFile(file, MAX_REFERENCE_SIDE);
+        const reference: ReferenceImage = { id: createId(), url: prepared.dataUrl, role: 'reference', name: fileBaseName(file) };
+        setReferences(prev => [...prev, reference]);
+      } catch (err) {
+        setError(toErrorNotice(err, `Could not attach ${file.name}`));
+      }
+    }
+  };
+
+  const handleUseAsReference = (image: GeneratedImage) => {
+    if (references.length >= getProvider(providerId).maxReferenceImages) {
+      setError({ title: 'Reference limit reached', message: `${getProvider(providerId).label} accepts at most ${getProvider(providerId).maxReferenceImages} reference images.` });
+      return;
+    }
+    setReferences(prev => [...prev, { id: createId(), url: image.url, role: 'reference', name: image.prompt, imageId: image.id }]);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // Loads everything a generation was made with back into the prompt form
+  const handleRemix = async (params: GenerationParams) => {
+    const provider = hasProvider(params.provider) ? params.provider : DEFAULT_PROVIDER_ID;
+    const { models, defaultModel, maxReferenceImages } = getProvider(provider);
+    setProviderId(provider);
+    setModel(models.includes(params.model) ? params.model : defaultModel);
+    setBatchMode(false);
+    setPrompt(params.prompt);
+    if (params.aspectRatio) setAspectRatio(params.aspectRatio);
+    setStyleId(presets.some(preset => preset.id === params.stylePresetId) ? params.stylePresetId! : null);
+    setAvoid(params.avoid ?? '');
+    setError(null);
+
+    const imageIds = params.references.flatMap(reference => reference.imageId ?? []);
+    const stored = imageIds.length ? await loadImages(imageIds) : [];
+    const restored = params.references.flatMap(reference => {
+      const image = stored.find(img => img.id === reference.imageId);
+      return image ? [{ id: createId(), url: image.url, role: reference.role, name: reference.name, imageId: image.id }] : [];
+    }).slice(0, maxReferenceImages);
+    setReferences(restored);
+    const missing = params.references.length - restored.length;
+    if (missing > 0) {
+      setError({
+        title: 'Some references were left out',
+        message: `${missing} of ${params.references.length} reference images could not be restored. Files added from disk are not kept, and gallery images may have been deleted.`,
+      });
+    }
+
+    navigate({ page: 'home' });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleReferenceRole = (id: string, role: ReferenceRole) => {
+    setReferences(prev => prev.map(reference => reference.id === id ? { ...reference, role } : reference));
+  };
+
+  const imageFilesOf = (e: React.DragEvent) =>
+    Array.from<File>(e.dataTransfer.files).filter(file => file.type.startsWith('image/') || file.type === '' || isArchive(file));
+
+  const handleRestoreVersion = async (versionId: string) => {
+    const version = images.find(img => img.id === versionId);
+    if (!version) return;
+    const rootId = version.rootId ?? version.id;
 
     try {
-      const newUrl = await editExistingImage(editPrompt, targetImage.url);
-      const updatedImage: GeneratedImage = {
-        ...targetImage,
-        url: newUrl,
-        prompt: `${targetImage.prompt} (Edit: ${editPrompt})`,
-        timestamp: Date.now(),
-      };
-      setImages(prev => prev.map(img => img.id === id ? updatedImage : img));
-    } catch (err: any) {
-      setError(`Editing failed: ${err.message}`);
+      await updateImageMetadata(rootId, { activeVersionId: versionId });
+      setImages(prev => prev.map(img => img.id === rootId ? { ...img, activeVersionId: versionId } : img));
+    } catch (err) {
+      console.error("Failed to restore version", err);
+      setError(toErrorNotice(err, 'Could not restore the version'));
+    }
+  };
+
+  // Removing a version keeps its descendants by re-attaching them to its parent
+  const handleDeleteVersion = async (versionId: string) => {
+    const version = images.find(img => img.id === versionId);
+    if (!version?.parentId) return;
+    if (!window.confirm('Delete this version? Later edits made from it are kept.')) return;
+
+    const updates = images
+      .filter(img => img.parentId === versionId || (img.id === version.rootId && img.activeVersionId === versionId))
+      .map(img => img.parentId === versionId
+        ? { ...img, parentId: version.parentId }
+        : { ...img, activeVersionId: version.parentId });
+
+    try {
+      await deleteImages([versionId]);
+      await Promise.all(updates.map(({ id, url, ...changes }) => updateImageMetadata(id, changes)));
+      setImages(prev => prev
+        .filter(img => img.id !== versionId)
+        .map(img => updates.find(update => update.id === img.id) ?? img));
+    } catch (err) {
+      console.error("Failed to delete version", err);
+      setError(toErrorNotice(err, 'Could not delete the version'));
+      // Some of the writes may have landed
+      reloadGallery();
+    }
+    refreshStorageInfo();
+  };
+
+  const applyMetadata = (ids: string[], update: (image: GeneratedImage) => Partial<GeneratedImage>) => {
+    const targets = new Set(ids);
+    setImages(prev => prev.map(img => targets.has(img.id) ? { ...img, ...update(img) } : img));
+  };
+
+  const handleToggleFavorite = async (id: string) => {
+    const update = (image: Pick<GeneratedImage, 'favorite'>) => ({ favorite: !image.favorite });
+    try {
+      await updateImagesMetadata([id], update);
+      applyMetadata([id], update);
+    } catch (err) {
+      console.error("Failed to update favorite", err);
+      setError(toErrorNotice(err, 'Could not update the favorite'));
+    }
+  };
+
+  const handleChangeTags = async (id: string, tags: string[]) => {
+    try {
+      await updateImageMetadata(id, { tags });
+      applyMetadata([id], () => ({ tags }));
+      setGalleryTags(prev => [...prev, ...tags.filter(tag => !prev.includes(tag))]);
+    } catch (err) {
+      console.error("Failed to save tags", err);
+      setError(toErrorNotice(err, 'Could not save the tags'));
+    }
+  };
+
+  const handleChangeMetadata = async (id: string, changes: Partial<GeneratedImage>) => {
+    try {
+      await updateImageMetadata(id, changes);
+      applyMetadata([id], () => changes);
+    } catch (err) {
+      console.error("Failed to save image details", err);
+      setError(toErrorNotice(err, 'Could not save the image details'));
+    }
+  };
+
+  const handleUsePrompt = (text: string) => {
+    setPrompt(text);
+    navigate({ page: 'home' });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+  };
+
+  const exitSelectMode = () => {
+    setSelectMode(false);
+    setSelectedIds(new Set());
+  };
+
+  const handleBulkDelete = async () => {
+    const ids = Array.from<string>(selectedIds);
+    if (!window.confirm(`Delete ${ids.length} image${ids.length === 1 ? '' : 's'} and all of their edit versions?`)) return;
+    try {
+      await deleteLineages(ids);
+      setImages(prev => prev.filter(img => !selectedIds.has(img.rootId ?? img.id)));
+      setSelectedIds(new Set());
+    } catch (err) {
+      console.error("Failed to delete images", err);
+      setError(toErrorNotice(err, 'Could not delete the images'));
+      reloadGallery();
+    }
+    refreshStorageInfo();
+  };
+
+  const handleBulkTag = async (tag: string) => {
+    const ids = Array.from<string>(selectedIds);
+    const update = (image: Pick<GeneratedImage, 'tags'>) => ({
+      tags: image.tags?.includes(tag) ? image.tags : [...(image.tags ?? []), tag],
+    });
+    try {
+      await updateImagesMetadata(ids, update);
+      applyMetadata(ids, update);
+      setGalleryTags(prev => prev.includes(tag) ? prev : [...prev, tag]);
+    } catch (err) {
+      console.error("Failed to tag images", err);
+      setError(toErrorNotice(err, 'Could not tag the images'));
+    }
+  };
+
+  const handleAddToCollection = async (collectionId: string) => {
+    const ids = Array.from<string>(selectedIds);
+    const update = (image: Pick<GeneratedImage, 'collectionIds'>) => ({
+      collectionIds: image.collectionIds?.includes(collectionId)
+        ? image.collectionIds
+        : [...(image.collectionIds ?? []), collectionId],
+    });
+    try {
+      await updateImagesMetadata(ids, update);
+      applyMetadata(ids, update);
+    } catch (err) {
+      console.error("Failed to add images to collection", err);
+      setError(toErrorNotice(err, 'Could not add the images to the collection'));
+    }
+  };
+
+  // Downloads the version each selected card is currently showing
+  const handleBulkDownload = () => {
+    const items = galleryRoots
+      .filter(root => selectedIds.has(root.id))
+      .map(root => ({
+        image: images.find(img => img.id === root.activeVersionId) ?? root,
+        versions: versionsByRoot[root.id] ?? [root],
+      }));
+    downloadImages(items).catch(e => console.error("Failed to download images", e));
+  };
+
+  const handleExport = async (scope: ArchiveScope) => {
+    try {
+      const { blob, filename } = await exportArchive(scope);
+      downloadBlob(blob, filename);
+    } catch (err) {
+      console.error("Failed to export gallery", err);
+      setError(toErrorNotice(err, 'Export failed'));
+    }
+  };
+
+  const handleOpenArchive = async (file: File) => {
+    try {
+      setImportPlan(await readArchive(file));
+    } catch (err) {
+      setError(toErrorNotice(err, `Could not read ${file.name}`));
+    }
+  };
+
+  const handleConfirmImport = async (resolution: ConflictResolution) => {
+    if (!importPlan) return;
+    setIsImporting(true);
+    try {
+      await applyImport(importPlan, resolution);
+      setImportPlan(null);
+      setCollections(await listCollections());
+      await reloadGallery();
+    } catch (err) {
+      console.error("Failed to import archive", err);
+      setError(toErrorNotice(err, 'Import failed'));
     } finally {
-      setIsEditingId(null);
+      setIsImporting(false);
     }
   };
 
-  const handleContactSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setIsSubmittingContact(true);
-    await new Promise(resolve => setTimeout(resolve, 1500));
-    setIsSubmittingContact(false);
-    setContactSuccess(true);
-    setContactForm({ name: '', email: '', subject: '', message: '' });
-    setTimeout(() => setContactSuccess(false), 5000);
+  // Opening a collection is a navigation so it can be linked and gone back from
+  const handleQueryChange = useCallback((query: GalleryQuery) => {
+    if (query.collectionId !== routeCollectionId) {
+      navigate(query.collectionId ? { page: 'collection', id: query.collectionId } : { page: 'home' });
+    }
+    setGalleryFilters({ ...query, collectionId: null });
+  }, [routeCollectionId]);
+
+  const handleCreateCollection = async (name: string) => {
+    const collection: Collection = { id: createId(), name, createdAt: Date.now() };
+    try {
+      await saveCollection(collection);
+      setCollections(prev => [...prev, collection].sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (err) {
+      console.error("Failed to create collection", err);
+      setError(toErrorNotice(err, 'Could not create the collection'));
+    }
+  };
+
+  const handleDeleteCollection = async (id: string) => {
+    try {
+      await deleteCollection(id);
+      setCollections(prev => prev.filter(collection => collection.id !== id));
+      navigate({ page: 'home' });
+    } catch (err) {
+      console.error("Failed to delete collection", err);
+      setError(toErrorNotice(err, 'Could not delete the collection'));
+    }
   };
 
-  const clearHistory = () => {
-    if (window.confirm('Are you sure you want to clear your generation history?')) {
+  const clearHistory = async () => {
+    if (!window.confirm('Are you sure you want to clear your generation history?')) return;
+    try {
+      await clearImages();
       setImages([]);
+      setHasMoreImages(false);
+    } catch (err) {
+      console.error("Failed to clear history", err);
+      setError(toErrorNotice(err, 'Could not clear the history'));
+    }
+    refreshStorageInfo();
+  };
+
+  const handleEvict = async (count: number) => {
+    if (!window.confirm(`Delete the ${count} oldest images from this browser?`)) return;
+    try {
+      await evictOldest(count);
+    } catch (err) {
+      console.error("Failed to free up space", err);
+      setError(toErrorNotice(err, 'Could not delete the oldest images'));
     }
+    reloadGallery();
   };
 
   const renderHome = () => (
@@ -123,17 +873,113 @@ const App: React.FC = () => {
         </p>
 
         <div className={`glass p-4 rounded-3xl border ${theme === 'dark' ? 'border-white/10' : 'border-black/5'} shadow-2xl max-w-3xl mx-auto`}>
-          <form onSubmit={handleGenerate} className="flex flex-col gap-4">
+          <form
+            onSubmit={handleGenerate}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleAddReferenceFiles(imageFilesOf(e));
+            }}
+            className="flex flex-col gap-4"
+          >
             <div className="relative group">
-              <textarea
+              <PromptInput
                 value={prompt}
-                onChange={(e) => setPrompt(e.target.value)}
-                placeholder="Describe the image you want... (e.g., 'A cyberpunk street at night with neon signs and rain')"
-                className={`w-full bg-transparent rounded-2xl p-6 text-lg min-h-[120px] resize-none focus:outline-none border ${theme === 'dark' ? 'border-white/10 focus:border-neon-blue/50 text-white' : 'border-black/10 focus:border-blue-500 text-black'} transition-all`}
+                onChange={setPrompt}
+                history={promptHistory}
+                suggest={!batchMode}
+                placeholder={batchMode
+                  ? "One prompt per line. Every line is queued as its own job."
+                  : "Describe the image you want... (e.g., 'A cyberpunk street at night with neon signs and rain')"}
+                className={`w-full bg-transparent rounded-2xl p-6 pb-14 text-lg min-h-[120px] resize-none focus:outline-none border ${theme === 'dark' ? 'border-white/10 focus:border-neon-blue/50 text-white' : 'border-black/10 focus:border-blue-500 text-black'} transition-all`}
               />
               <div className="absolute top-4 right-4 text-xs font-mono text-gray-500 uppercase tracking-widest pointer-events-none">Prompt</div>
+              {!batchMode && (
+                <button
+                  type="button"
+                  onClick={() => ensureBudget() && setEnhanceDraft(prompt.trim())}
+                  disabled={!prompt.trim()}
+                  title="Rewrite the prompt with more detail"
+                  className="absolute bottom-4 right-4 flex items-center gap-1.5 px-3 py-1.5 rounded-full border border-white/10 text-[10px] font-bold uppercase tracking-widest text-gray-400 hover:text-neon-blue hover:border-neon-blue/50 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 3v4M3 5h4M6 17v4m-2-2h4m5-16l2.286 6.857L21 12l-5.714 2.143L13 21l-2.286-6.857L5 12l5.714-2.143L13 3z" />
+                  </svg>
+                  Enhance
+                </button>
+              )}
             </div>
 
+            <div className="flex flex-wrap items-center gap-3 px-2">
+              <select
+                value={providerId}
+                onChange={(e) => handleProviderChange(e.target.value)}
+                title="Image provider"
+                className={`rounded-full px-4 py-2 text-xs font-bold border focus:outline-none focus:border-neon-blue ${theme === 'dark' ? 'bg-gray-900 border-white/10 text-gray-300' : 'bg-white border-black/10 text-gray-700'}`}
+              >
+                {listProviders().map((provider) => (
+                  <option key={provider.id} value={provider.id}>{provider.label}</option>
+                ))}
+              </select>
+              <select
+                value={model}
+                onChange={(e) => setModel(e.target.value)}
+                title="Model"
+                className={`rounded-full px-4 py-2 text-xs font-mono border focus:outline-none focus:border-neon-blue ${theme === 'dark' ? 'bg-gray-900 border-white/10 text-gray-300' : 'bg-white border-black/10 text-gray-700'}`}
+              >
+                {getProvider(providerId).models.map((name) => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+              <select
+                value={variations}
+                onChange={(e) => setVariations(Number(e.target.value))}
+                title="Variations per prompt"
+                className={`rounded-full px-4 py-2 text-xs font-bold border focus:outline-none focus:border-neon-blue ${theme === 'dark' ? 'bg-gray-900 border-white/10 text-gray-300' : 'bg-white border-black/10 text-gray-700'}`}
+              >
+                {CANDIDATE_COUNTS.map((count) => (
+                  <option key={count} value={count}>{count} {count === 1 ? 'image' : 'variations'}</option>
+                ))}
+              </select>
+              <select
+                value={concurrency}
+                onChange={(e) => setConcurrency(Number(e.target.value))}
+                title="Jobs running at once"
+                className={`rounded-full px-4 py-2 text-xs font-bold border focus:outline-none focus:border-neon-blue ${theme === 'dark' ? 'bg-gray-900 border-white/10 text-gray-300' : 'bg-white border-black/10 text-gray-700'}`}
+              >
+                {[1, 2, 3, 4].map((count) => (
+                  <option key={count} value={count}>{count} at a time</option>
+                ))}
+              </select>
+              <label className="flex items-center gap-2 text-xs font-bold text-gray-500 uppercase tracking-widest cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={batchMode}
+                  onChange={(e) => setBatchMode(e.target.checked)}
+                  className="accent-neon-blue"
+                />
+                Prompt list
+              </label>
+            </div>
+
+            <PresetBar
+              presets={presets}
+              styleId={styleId}
+              onStyleChange={setStyleId}
+              avoid={avoid}
+              onAvoidChange={setAvoid}
+              onInsertTemplate={(text) => setPrompt(prev => prev.trim() ? `${prev.trim()}\n${text}` : text)}
+              onManage={() => setShowPresetManager(true)}
+            />
+
+            <ReferenceTray
+              references={references}
+              maxReferences={getProvider(providerId).maxReferenceImages}
+              onAddFiles={handleAddReferenceFiles}
+              onChangeRole={handleReferenceRole}
+              onRemove={(id) => setReferences(prev => prev.filter(reference => reference.id !== id))}
+            />
+
             <div className="flex flex-wrap items-center justify-between gap-4 px-2">
               <div className="flex items-center gap-2 overflow-x-auto py-1">
                 {(['1:1', '16:9', '9:16', '4:3', '3:4'] as AspectRatio[]).map((ratio) => (
@@ -154,83 +1000,263 @@ const App: React.FC = () => {
 
               <button
                 type="submit"
-                disabled={isGenerating || !prompt.trim()}
+                disabled={!prompt.trim()}
                 className={`relative overflow-hidden group px-8 py-3 rounded-2xl font-orbitron font-bold text-sm tracking-widest transition-all ${
-                  isGenerating || !prompt.trim() 
+                  !prompt.trim() 
                     ? 'bg-gray-800 text-gray-500 cursor-not-allowed' 
                     : 'bg-gradient-to-r from-neon-blue to-neon-purple text-white shadow-[0_0_20px_rgba(0,242,255,0.2)] hover:shadow-[0_0_30px_rgba(0,242,255,0.4)] hover:scale-105'
                 }`}
               >
                 <span className="relative z-10 flex items-center gap-2">
-                  {isGenerating ? (
-                    <>
-                      <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                      GENERATING...
-                    </>
-                  ) : (
-                    <>
-                      GENERATE
-                      <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
-                      </svg>
-                    </>
+                  {activeJobs.length > 0 && (
+                    <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                  )}
+                  {activeJobs.length > 0 ? `QUEUE (${activeJobs.length} ACTIVE)` : 'GENERATE'}
+                  {activeJobs.length === 0 && (
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                    </svg>
                   )}
                 </span>
-                {!isGenerating && <div className="absolute inset-0 bg-white/20 translate-y-full group-hover:translate-y-0 transition-transform duration-300" />}
+                <div className="absolute inset-0 bg-white/20 translate-y-full group-hover:translate-y-0 transition-transform duration-300" />
               </button>
             </div>
           </form>
         </div>
 
+        {budget?.message && (
+          <div className={`mt-6 p-3 rounded-2xl border text-sm max-w-xl mx-auto text-left flex items-center justify-between gap-4 ${
+            budget.level === 'blocked' ? 'bg-red-500/10 border-red-500/50 text-red-400' : 'bg-amber-500/10 border-amber-500/50 text-amber-400'
+          }`}>
+            <span>{budget.level === 'blocked' ? 'New jobs are blocked. ' : ''}{budget.message}</span>
+            <button onClick={() => goTo('usage')} className="shrink-0 text-xs uppercase tracking-widest font-bold hover:text-white">
+              Usage
+            </button>
+          </div>
+        )}
+
         {error && (
-          <div className="mt-6 p-4 bg-red-500/10 border border-red-500/50 rounded-2xl text-red-400 text-sm animate-fade-in flex items-center justify-center gap-2 max-w-xl mx-auto">
-            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+          <div className="mt-6 p-4 bg-red-500/10 border border-red-500/50 rounded-2xl text-red-400 text-sm animate-fade-in flex items-start gap-3 max-w-xl mx-auto text-left">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 shrink-0 mt-0.5" viewBox="0 0 20 20" fill="currentColor">
               <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
             </svg>
-            {error}
+            <div className="flex-grow space-y-1">
+              <p className="font-bold">{error.title}</p>
+              <p className="text-red-400/80">{error.message}</p>
+              {error.modelText && (
+                <p className="text-gray-400 italic border-l-2 border-red-500/30 pl-3 mt-2">Model said: "{error.modelText}"</p>
+              )}
+              {error.hint && <p className="text-gray-500 text-xs mt-2">{error.hint}</p>}
+            </div>
+            <button onClick={() => setError(null)} className="shrink-0 text-red-400/60 hover:text-red-400" title="Dismiss">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
           </div>
         )}
       </section>
 
-      <section className="mt-20">
+      <section
+        className={`mt-20 rounded-3xl transition-all ${isDraggingFiles ? 'ring-2 ring-neon-blue/60 ring-offset-8 ring-offset-transparent' : ''}`}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDraggingFiles(true);
+        }}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFiles(false);
+        }}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDraggingFiles(false);
+          handleUpload(imageFilesOf(e));
+        }}
+      >
         <div className="flex items-center justify-between mb-8">
           <h3 className="text-xl font-orbitron font-bold tracking-wider flex items-center gap-3">
             <span className="w-1 h-6 bg-neon-blue rounded-full" />
             GALLERY
-            <span className="text-xs font-normal text-gray-500 ml-2 font-sans">({images.length} creations)</span>
+            <span className="text-xs font-normal text-gray-500 ml-2 font-sans">
+              ({isFilteredQuery(galleryQuery) ? `${matchingImages} of ${totalImages}` : totalImages} creations)
+            </span>
           </h3>
-          {images.length > 0 && (
+          <div className="flex items-center gap-6">
             <button
-              onClick={clearHistory}
-              className="text-xs text-gray-500 hover:text-red-400 transition-colors uppercase tracking-widest font-bold"
+              onClick={() => uploadInputRef.current?.click()}
+              className="text-xs text-gray-500 hover:text-neon-blue transition-colors uppercase tracking-widest font-bold"
+              title="Upload images or a gallery archive, or drop them anywhere on the gallery"
             >
-              Clear History
+              Upload
             </button>
-          )}
+            <input
+              ref={uploadInputRef}
+              type="file"
+              accept="image/*,.zip,application/zip"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                handleUpload(Array.from(e.target.files ?? []));
+                e.target.value = '';
+              }}
+            />
+            {images.length > 0 && (
+              <button
+                onClick={clearHistory}
+                className="text-xs text-gray-500 hover:text-red-400 transition-colors uppercase tracking-widest font-bold"
+              >
+                Clear History
+              </button>
+            )}
+          </div>
         </div>
 
-        {images.length === 0 ? (
+        {storageUsage && storageUsage.imageCount > 0 && (
+          <StorageMeter usage={storageUsage} onEvict={handleEvict} />
+        )}
+
+        {totalImages > 0 && (
+          <GalleryToolbar
+            query={galleryQuery}
+            onChange={handleQueryChange}
+            tags={galleryTags}
+            collections={collections}
+            onCreateCollection={handleCreateCollection}
+            onDeleteCollection={handleDeleteCollection}
+            selectMode={selectMode}
+            onToggleSelectMode={() => selectMode ? exitSelectMode() : setSelectMode(true)}
+            onExport={() => {
+              const collection = collections.find(c => c.id === galleryQuery.collectionId);
+              handleExport(collection ? { kind: 'collection', collection } : { kind: 'gallery' });
+            }}
+          />
+        )}
+
+        {selectMode && (
+          <BulkActionBar
+            count={selectedIds.size}
+            collections={collections}
+            onSelectAll={() => setSelectedIds(new Set(galleryRoots.map(root => root.id)))}
+            onClear={() => setSelectedIds(new Set())}
+            onDelete={handleBulkDelete}
+            onTag={handleBulkTag}
+            onAddToCollection={handleAddToCollection}
+            onDownload={handleBulkDownload}
+            onExport={() => handleExport({ kind: 'selection', rootIds: Array.from<string>(selectedIds) })}
+          />
+        )}
+
+        {galleryRoots.length === 0 && jobs.length === 0 ? (
           <div className="py-20 text-center glass rounded-3xl border border-white/5">
             <div className="mb-6 opacity-20 flex justify-center">
               <svg xmlns="http://www.w3.org/2000/svg" className="h-20 w-20" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
               </svg>
             </div>
-            <p className="text-gray-500 italic">No creations yet. Start by describing your vision above.</p>
+            <p className="text-gray-500 italic">
+              {isFilteredQuery(galleryQuery)
+                ? 'Nothing in the gallery matches these filters.'
+                : 'No creations yet. Start by describing your vision above, or drop your own images here.'}
+            </p>
           </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-            {images.map((image) => (
+            {jobs.map((job) => (
+              <JobCard
+                key={job.id}
+                job={job}
+                onCancel={jobQueue.cancel}
+                onDismiss={jobQueue.dismiss}
+              />
+            ))}
+            {galleryRoots.map((image) => (
               <ImageCard
                 key={image.id}
                 image={image}
+                versions={versionsByRoot[image.id] ?? [image]}
                 onEdit={handleEdit}
-                isEditing={isEditingId === image.id}
+                onExtend={handleExtend}
+                onRestoreVersion={handleRestoreVersion}
+                onDeleteVersion={handleDeleteVersion}
+                onUseAsReference={getProvider(providerId).maxReferenceImages > 0 ? handleUseAsReference : undefined}
+                onOpen={(versionId) => setLightbox({ rootId: image.id, versionId })}
+                onOpenConversation={setConversationSource}
+                onRemix={handleRemix}
+                onToggleFavorite={handleToggleFavorite}
+                onChangeTags={handleChangeTags}
+                isEditing={editingRootIds.has(image.id)}
+                selectable={selectMode}
+                selected={selectedIds.has(image.id)}
+                onToggleSelect={toggleSelected}
               />
             ))}
           </div>
         )}
+
+        {hasMoreImages && (
+          <div ref={loadMoreRef} className="mt-10 flex justify-center">
+            <button
+              onClick={loadMoreImages}
+              disabled={isLoadingImages}
+              className="text-xs text-gray-500 hover:text-neon-blue transition-colors uppercase tracking-widest font-bold"
+            >
+              {isLoadingImages ? 'Loading...' : 'Load More'}
+            </button>
+          </div>
+        )}
       </section>
+
+      {importPlan && (
+        <ImportDialog
+          plan={importPlan}
+          isImporting={isImporting}
+          onConfirm={handleConfirmImport}
+          onClose={() => setImportPlan(null)}
+        />
+      )}
+
+      {showPresetManager && (
+        <PresetManager
+          presets={presets}
+          onSave={handleSavePreset}
+          onDelete={handleDeletePreset}
+          onImport={handleImportPresets}
+          onClose={() => setShowPresetManager(false)}
+        />
+      )}
+
+      {lightbox && (
+        <Lightbox
+          roots={galleryRoots}
+          versionsByRoot={versionsByRoot}
+          rootId={lightbox.rootId}
+          versionId={lightbox.versionId}
+          onReachEnd={loadMoreImages}
+          onClose={closeLightbox}
+        />
+      )}
+
+      {conversationSource && (
+        <EditSessionPanel
+          source={conversationSource}
+          provider={conversationProvider}
+          model={conversationModel}
+          onSaveTurn={handleSaveConversationTurn}
+          onClose={() => setConversationSource(null)}
+        />
+      )}
+
+      {enhanceDraft !== null && (
+        <PromptEnhancer
+          draft={enhanceDraft}
+          aspectRatio={aspectRatio}
+          style={presets.find(preset => preset.id === styleId && preset.kind === 'style')}
+          onAccept={(text) => {
+            setPrompt(text);
+            setEnhanceDraft(null);
+          }}
+          onClose={() => setEnhanceDraft(null)}
+        />
+      )}
     </div>
   );
 
@@ -292,87 +1318,7 @@ const App: React.FC = () => {
 
         <div className="lg:col-span-3">
           <div className="glass p-8 rounded-3xl border border-white/10 shadow-xl relative overflow-hidden">
-            {contactSuccess ? (
-              <div className="py-12 text-center animate-fade-in">
-                <div className="w-16 h-16 bg-green-500/20 rounded-full flex items-center justify-center mx-auto mb-6 text-green-400">
-                  <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                  </svg>
-                </div>
-                <h3 className="text-2xl font-orbitron font-bold text-white mb-2">Message Received!</h3>
-                <p className="text-gray-400">Thank you for reaching out. Our team will get back to you shortly.</p>
-                <button 
-                  onClick={() => setContactSuccess(false)}
-                  className="mt-8 text-sm font-bold text-neon-blue uppercase tracking-widest hover:underline"
-                >
-                  Send another message
-                </button>
-              </div>
-            ) : (
-              <form onSubmit={handleContactSubmit} className="space-y-6">
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                  <div className="space-y-2">
-                    <label className="text-xs font-orbitron font-bold text-gray-500 uppercase tracking-widest">Name</label>
-                    <input
-                      required
-                      type="text"
-                      value={contactForm.name}
-                      onChange={(e) => setContactForm({ ...contactForm, name: e.target.value })}
-                      placeholder="John Doe"
-                      className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-neon-blue transition-all"
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <label className="text-xs font-orbitron font-bold text-gray-500 uppercase tracking-widest">Email</label>
-                    <input
-                      required
-                      type="email"
-                      value={contactForm.email}
-                      onChange={(e) => setContactForm({ ...contactForm, email: e.target.value })}
-                      placeholder="john@example.com"
-                      className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-neon-blue transition-all"
-                    />
-                  </div>
-                </div>
-                <div className="space-y-2">
-                  <label className="text-xs font-orbitron font-bold text-gray-500 uppercase tracking-widest">Subject</label>
-                  <input
-                    required
-                    type="text"
-                    value={contactForm.subject}
-                    onChange={(e) => setContactForm({ ...contactForm, subject: e.target.value })}
-                    placeholder="Feedback regarding generation quality"
-                    className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-neon-blue transition-all"
-                  />
-                </div>
-                <div className="space-y-2">
-                  <label className="text-xs font-orbitron font-bold text-gray-500 uppercase tracking-widest">Message</label>
-                  <textarea
-                    required
-                    rows={4}
-                    value={contactForm.message}
-                    onChange={(e) => setContactForm({ ...contactForm, message: e.target.value })}
-                    placeholder="Tell us what's on your mind..."
-                    className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-neon-blue transition-all resize-none"
-                  />
-                </div>
-                <button
-                  type="submit"
-                  disabled={isSubmittingContact}
-                  className={`w-full py-4 rounded-xl font-orbitron font-bold text-sm tracking-widest transition-all flex items-center justify-center gap-3 ${
-                    isSubmittingContact
-                      ? 'bg-gray-800 text-gray-500'
-                      : 'bg-gradient-to-r from-neon-purple to-neon-blue text-white shadow-lg hover:shadow-neon-purple/20'
-                  }`}
-                >
-                  {isSubmittingContact ? (
-                    <><div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />SENDING...</>
-                  ) : (
-                    <>SEND MESSAGE<svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14 5l7 7m0 0l-7 7m7-7H3" /></svg></>
-                  )}
-                </button>
-              </form>
-            )}
+            <ContactForm />
           </div>
         </div>
       </div>
@@ -393,11 +1339,11 @@ const App: React.FC = () => {
       <p>Last Updated: October 2023</p>
       <p>At Text 2 Image Studio, we value your privacy. This policy outlines how we handle data.</p>
       <h3 className="text-white font-bold text-xl mt-8">1. Information We Collect</h3>
-      <p>We do not store your images on our servers. All generation history is saved locally in your browser's local storage. We use industry-standard APIs like Google Gemini to process your prompts.</p>
+      <p>We do not store your images on our servers. All generation history is saved locally in your browser's storage (IndexedDB). We use industry-standard APIs like Google Gemini to process your prompts.</p>
       <h3 className="text-white font-bold text-xl mt-8">2. Use of Data</h3>
       <p>Your text prompts are sent to our AI partners for image generation. We do not sell or share your prompt history with third-party advertisers.</p>
       <h3 className="text-white font-bold text-xl mt-8">3. Local Storage</h3>
-      <p>To provide a persistent experience without account creation, we use your browser's local storage. You can clear this at any time using the "Clear History" button.</p>
+      <p>To provide a persistent experience without account creation, we use your browser's local storage and IndexedDB. You can clear this at any time using the "Clear History" button.</p>
     </>
   ));
 
@@ -424,6 +1370,64 @@ const App: React.FC = () => {
     </>
   ));
 
+  const renderNotFound = () => (
+    <div className="animate-fade-in py-20 px-6 glass rounded-3xl border border-white/10 max-w-xl mx-auto text-center">
+      <p className="text-6xl font-orbitron font-bold text-neon-blue mb-4">404</p>
+      <h2 className="text-2xl font-orbitron font-bold mb-4">Nothing here</h2>
+      <p className="text-gray-400 mb-8">
+        This link points to a page, image or collection that does not exist in this browser.
+      </p>
+      <button
+        onClick={() => goTo('home')}
+        className="px-6 py-3 bg-neon-blue text-black font-bold text-xs uppercase tracking-wider rounded-lg hover:bg-white transition-colors"
+      >
+        Back to the generator
+      </button>
+    </div>
+  );
+
+  const renderRoute = () => {
+    switch (route.page) {
+      case 'home':
+        return renderHome();
+      case 'collection':
+        return collectionsLoaded && !collections.some(c => c.id === route.id) ? renderNotFound() : renderHome();
+      case 'image':
+        return (
+          <ImageDetail
+            key={route.id}
+            id={route.id}
+            collections={collections}
+            presets={presets}
+            onNotFound={renderNotFound}
+            onChangeMetadata={handleChangeMetadata}
+            onChangeTags={handleChangeTags}
+            onUsePrompt={handleUsePrompt}
+            onRemix={handleRemix}
+          />
+        );
+      case 'about':
+        return renderAbout();
+      case 'contact':
+        return renderContact();
+      case 'usage':
+        return <UsageDashboard />;
+      case 'settings':
+        return <SettingsPage />;
+      case 'privacy':
+        return renderPrivacy();
+      case 'terms':
+        return renderTerms();
+      case 'disclaimer':
+        return renderDisclaimer();
+      default:
+        return renderNotFound();
+    }
+  };
+
+  // Collections belong to the gallery, so they keep the Home tab highlighted
+  const activePage = route.page === 'collection' ? 'home' : route.page;
+
   return (
     <div className={`min-h-screen flex flex-col transition-colors duration-500 font-sans ${theme === 'dark' ? 'bg-gray-950 text-white' : 'bg-slate-50 text-slate-900'}`}>
       <div className="fixed inset-0 pointer-events-none overflow-hidden">
@@ -432,7 +1436,7 @@ const App: React.FC = () => {
       </div>
 
       <header className="relative z-20 py-6 px-4 md:px-8 flex flex-col md:flex-row gap-6 justify-between items-center max-w-7xl mx-auto border-b border-white/5 w-full bg-black/20 backdrop-blur-md md:bg-transparent">
-        <div className="flex items-center gap-3 cursor-pointer" onClick={() => setActivePage('home')}>
+        <div className="flex items-center gap-3 cursor-pointer" onClick={() => goTo('home')}>
           <div className="w-10 h-10 rounded-full bg-gradient-to-tr from-neon-blue to-neon-purple p-[1.5px] shadow-[0_0_15px_rgba(0,242,255,0.4)]">
             <img 
               src={SITE_LOGO} 
@@ -447,10 +1451,10 @@ const App: React.FC = () => {
         </div>
 
         <nav className="flex items-center gap-6 md:gap-8 text-sm font-orbitron font-bold tracking-widest">
-          {(['home', 'about', 'contact'] as Page[]).map((page) => (
+          {(['home', 'about', 'contact', 'usage', 'settings'] as Page[]).map((page) => (
             <button
               key={page}
-              onClick={() => setActivePage(page)}
+              onClick={() => goTo(page)}
               className={`transition-all uppercase hover:text-neon-blue ${activePage === page ? 'text-neon-blue scale-110' : 'text-gray-500'}`}
             >
               {page}
@@ -462,12 +1466,7 @@ const App: React.FC = () => {
       </header>
 
       <main className="relative z-10 flex-grow max-w-7xl mx-auto px-4 py-12 w-full min-h-[calc(100vh-400px)]">
-        {activePage === 'home' && renderHome()}
-        {activePage === 'about' && renderAbout()}
-        {activePage === 'contact' && renderContact()}
-        {activePage === 'privacy' && renderPrivacy()}
-        {activePage === 'terms' && renderTerms()}
-        {activePage === 'disclaimer' && renderDisclaimer()}
+        {renderRoute()}
       </main>
 
       {/* Modern Enhanced Footer */}
@@ -475,7 +1474,7 @@ const App: React.FC = () => {
         <div className="max-w-7xl mx-auto px-6 py-16 grid grid-cols-1 md:grid-cols-4 gap-12">
           {/* Brand Column */}
           <div className="space-y-6">
-            <div className="flex items-center gap-3 cursor-pointer" onClick={() => setActivePage('home')}>
+            <div className="flex items-center gap-3 cursor-pointer" onClick={() => goTo('home')}>
               <div className="w-8 h-8 rounded-full bg-gradient-to-tr from-neon-blue to-neon-purple p-[1px]">
                 <img 
                   src={SITE_LOGO} 
@@ -503,9 +1502,9 @@ const App: React.FC = () => {
           <div className="space-y-6">
             <h4 className="text-white font-orbitron text-xs font-bold tracking-widest uppercase">Explore</h4>
             <ul className="space-y-3 text-sm">
-              <li><button onClick={() => setActivePage('home')} className="text-gray-500 hover:text-neon-blue transition-colors">Generator</button></li>
-              <li><button onClick={() => setActivePage('about')} className="text-gray-500 hover:text-neon-blue transition-colors">Our Mission</button></li>
-              <li><button onClick={() => setActivePage('contact')} className="text-gray-500 hover:text-neon-blue transition-colors">Get Support</button></li>
+              <li><button onClick={() => goTo('home')} className="text-gray-500 hover:text-neon-blue transition-colors">Generator</button></li>
+              <li><button onClick={() => goTo('about')} className="text-gray-500 hover:text-neon-blue transition-colors">Our Mission</button></li>
+              <li><button onClick={() => goTo('contact')} className="text-gray-500 hover:text-neon-blue transition-colors">Get Support</button></li>
               <li><a href="#" className="text-gray-500 hover:text-neon-blue transition-colors">API Docs</a></li>
             </ul>
           </div>
@@ -514,9 +1513,9 @@ const App: React.FC = () => {
           <div className="space-y-6">
             <h4 className="text-white font-orbitron text-xs font-bold tracking-widest uppercase">Legal</h4>
             <ul className="space-y-3 text-sm">
-              <li><button onClick={() => setActivePage('privacy')} className={`transition-colors ${activePage === 'privacy' ? 'text-neon-blue' : 'text-gray-500 hover:text-neon-blue'}`}>Privacy Policy</button></li>
-              <li><button onClick={() => setActivePage('terms')} className={`transition-colors ${activePage === 'terms' ? 'text-neon-blue' : 'text-gray-500 hover:text-neon-blue'}`}>Terms & Service</button></li>
-              <li><button onClick={() => setActivePage('disclaimer')} className={`transition-colors ${activePage === 'disclaimer' ? 'text-neon-blue' : 'text-gray-500 hover:text-neon-blue'}`}>Disclaimer</button></li>
+              <li><button onClick={() => goTo('privacy')} className={`transition-colors ${activePage === 'privacy' ? 'text-neon-blue' : 'text-gray-500 hover:text-neon-blue'}`}>Privacy Policy</button></li>
+              <li><button onClick={() => goTo('terms')} className={`transition-colors ${activePage === 'terms' ? 'text-neon-blue' : 'text-gray-500 hover:text-neon-blue'}`}>Terms & Service</button></li>
+              <li><button onClick={() => goTo('disclaimer')} className={`transition-colors ${activePage === 'disclaimer' ? 'text-neon-blue' : 'text-gray-500 hover:text-neon-blue'}`}>Disclaimer</button></li>
               <li><a href="#" className="text-gray-500 hover:text-neon-blue transition-colors">Cookie Settings</a></li>
             </ul>
           </div>
@@ -525,14 +1524,7 @@ const App: React.FC = () => {
           <div className="space-y-6">
             <h4 className="text-white font-orbitron text-xs font-bold tracking-widest uppercase">Stay Updated</h4>
             <p className="text-gray-500 text-sm italic">Join our newsletter for AI tips and new features.</p>
-            <form className="flex gap-2" onSubmit={(e) => { e.preventDefault(); alert('Subscribed!'); }}>
-              <input 
-                type="email" 
-                placeholder="Email address" 
-                className="bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-xs w-full focus:outline-none focus:border-neon-purple transition-colors"
-              />
-              <button className="bg-neon-purple px-3 py-2 rounded-lg text-xs font-bold text-white hover:bg-neon-purple/80 transition-all uppercase tracking-tighter">Join</button>
-            </form>
+            <NewsletterForm />
           </div>
         </div>
 
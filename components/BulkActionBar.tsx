@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { Collection } from '../types';
+import { normalizeTag } from '../services/galleryQuery';
+
+interface BulkActionBarProps {
+  count: number;
+  collections: Collection[];
+  onSelectAll: () => void;
+  onClear: () => void;
+  onDelete: () => void;
+  onTag: (tag: string) => void;
+  onAddToCollection: (collectionId: string) => void;
+  onDownload: () => void;
+  onExport: () => void;
+}
+
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  count,
+  collections,
+  onSelectAll,
+  onClear,
+  onDelete,
+  onTag,
+  onAddToCollection,
+  onDownload,
+  onExport,
+}) => {
+  const [tag, setTag] = useState('');
+
+  const handleTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    const normalized = normalizeTag(tag);
+    if (!normalized || count === 0) return;
+    onTag(normalized);
+    setTag('');
+  };
+
+  const actionClass = 'text-xs uppercase tracking-widest font-bold transition-colors disabled:opacity-30';
+
+  return (
+    <div className="sticky top-4 z-30 mb-8 flex flex-wrap items-center gap-4 px-5 py-3 rounded-2xl glass-dark border border-neon-blue/40 animate-fade-in">
+      <span className="text-sm font-bold text-neon-blue">{count} selected</span>
+      <button onClick={onSelectAll} className={`${actionClass} text-gray-400 hover:text-white`}>Select all</button>
+      <button onClick={onClear} disabled={count === 0} className={`${actionClass} text-gray-400 hover:text-white`}>Clear</button>
+      <span className="w-px h-5 bg-white/10" />
+      <form onSubmit={handleTag} className="flex items-center gap-2">
+        <input
+          type="text"
+          value={tag}
+          onChange={(e) => setTag(e.target.value)}
+          placeholder="Tag..."
+          className="w-28 bg-white/5 border border-white/10 rounded-full px-3 py-1 text-xs text-white focus:outline-none focus:border-neon-blue"
+        />
+        <button type="submit" disabled={count === 0 || !tag.trim()} className={`${actionClass} text-gray-400 hover:text-neon-blue`}>
+          Tag
+        </button>
+      </form>
+      {collections.length > 0 && (
+        <select
+          value=""
+          disabled={count === 0}
+          onChange={(e) => e.target.value && onAddToCollection(e.target.value)}
+          className="bg-gray-900 border border-white/10 rounded-full px-3 py-1 text-xs text-gray-300 focus:outline-none focus:border-neon-blue disabled:opacity-30"
+        >
+          <option value="">Add to collection...</option>
+          {collections.map((collection) => (
+            <option key={collection.id} value={collection.id}>{collection.name}</option>
+          ))}
+        </select>
+      )}
+      <button onClick={onDownload} disabled={count === 0} className={`${actionClass} text-gray-400 hover:text-neon-purple`}>Download</button>
+      <button onClick={onExport} disabled={count === 0} className={`${actionClass} text-gray-400 hover:text-neon-blue`}>Export ZIP</button>
+      <button onClick={onDelete} disabled={count === 0} className={`${actionClass} text-gray-400 hover:text-red-400 ml-auto`}>Delete</button>
+    </div>
+  );
+};
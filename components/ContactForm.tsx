@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { FIELD_LIMITS } from '../server/formRules.js';
+import { ContactMessage, FieldErrors, SubmissionError, checkContactMessage, submitContactMessage } from '../services/contactService';
+
+const EMPTY_FORM: ContactMessage = { name: '', email: '', subject: '', message: '' };
+
+const inputClass = (invalid: boolean) => `w-full bg-white/5 border rounded-xl px-4 py-3 text-white focus:outline-none transition-all ${
+  invalid ? 'border-red-500/60 focus:border-red-400' : 'border-white/10 focus:border-neon-blue'
+}`;
+
+const FieldError: React.FC<{ message?: string }> = ({ message }) =>
+  message ? <p className="text-xs text-red-400">{message}</p> : null;
+
+export const ContactForm: React.FC = () => {
+  const [form, setForm] = useState<ContactMessage>(EMPTY_FORM);
+  const [honeypot, setHoneypot] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [success, setSuccess] = useState(false);
+
+  const update = (field: keyof ContactMessage, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+    // Clear a field's message as soon as it is fixed
+    if (fieldErrors[field]) {
+      setFieldErrors(prev => ({ ...prev, [field]: checkContactMessage({ ...form, [field]: value })[field] }));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      await submitContactMessage(form, honeypot);
+      setForm(EMPTY_FORM);
+      setFieldErrors({});
+      setSuccess(true);
+    } catch (err) {
+      if (err instanceof SubmissionError) {
+        setFieldErrors(err.fields);
+        setError(err.message);
+      } else {
+        console.error("Failed to send contact message", err);
+        setError('Your message could not be sent. Please try again.');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (success) {
+    return (
+      <div className="py-12 text-center animate-fade-in">
+        <div className="w-16 h-16 bg-green-500/20 rounded-full flex items-center justify-center mx-auto mb-6 text-green-400">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+          </svg>
+        </div>
+        <h3 className="text-2xl font-orbitron font-bold text-white mb-2">Message Received!</h3>
+        <p className="text-gray-400">Thank you for reaching out. Our team will get back to you shortly.</p>
+        <button
+          onClick={() => setSuccess(false)}
+          className="mt-8 text-sm font-bold text-neon-blue uppercase tracking-widest hover:underline"
+        >
+          Send another message
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          <label htmlFor="contact-name" className="text-xs font-orbitron font-bold text-gray-500 uppercase tracking-widest">Name</label>
+          <input
+            id="contact-name"
+            type="text"
+            autoComplete="name"
+            maxLength={FIELD_LIMITS.name}
+            value={form.name}
+            onChange={(e) => update('name', e.target.value)}
+            placeholder="John Doe"
+            className={inputClass(!!fieldErrors.name)}
+          />
+          <FieldError message={fieldErrors.name} />
+        </div>
+        <div className="space-y-2">
+          <label htmlFor="contact-email" className="text-xs font-orbitron font-bold text-gray-500 uppercase tracking-widest">Email</label>
+          <input
+            id="contact-email"
+            type="email"
+            autoComplete="email"
+            maxLength={FIELD_LIMITS.email}
+            value={form.email}
+            onChange={(e) => update('email', e.target.value)}
+            placeholder="john@example.com"
+            className={inputClass(!!fieldErrors.email)}
+          />
+          <FieldError message={fieldErrors.email} />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <label htmlFor="contact-subject" className="text-xs font-orbitron font-bold text-gray-500 uppercase tracking-widest">Subject</label>
+        <input
+          id="contact-subject"
+          type="text"
+          maxLength={FIELD_LIMITS.subject}
+          value={form.subject}
+          onChange={(e) => update('subject', e.target.value)}
+          placeholder="Feedback regarding generation quality"
+          className={inputClass(!!fieldErrors.subject)}
+        />
+        <FieldError message={fieldErrors.subject} />
+      </div>
+      <div className="space-y-2">
+        <label htmlFor="contact-message" className="text-xs font-orbitron font-bold text-gray-500 uppercase tracking-widest">Message</label>
+        <textarea
+          id="contact-message"
+          rows={4}
+          maxLength={FIELD_LIMITS.message}
+          value={form.message}
+          onChange={(e) => update('message', e.target.value)}
+          placeholder="Tell us what's on your mind..."
+          className={`${inputClass(!!fieldErrors.message)} resize-none`}
+        />
+        <FieldError message={fieldErrors.message} />
+      </div>
+
+      {/* Honeypot: off-screen and skipped by keyboard users, so only bots fill it */}
+      <div className="absolute -left-[10000px] w-px h-px overflow-hidden" aria-hidden="true">
+        <label>
+          Website
+          <input type="text" tabIndex={-1} autoComplete="off" value={honeypot} onChange={(e) => setHoneypot(e.target.value)} />
+        </label>
+      </div>
+
+      {error && (
+        <p role="alert" className="p-3 bg-red-500/10 border border-red-500/50 rounded-xl text-sm text-red-400">{error}</p>
+      )}
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className={`w-full py-4 rounded-xl font-orbitron font-bold text-sm tracking-widest transition-all flex items-center justify-center gap-3 ${
+          isSubmitting
+            ? 'bg-gray-800 text-gray-500'
+            : 'bg-gradient-to-r from-neon-purple to-neon-blue text-white shadow-lg hover:shadow-neon-purple/20'
+        }`}
+      >
+        {isSubmitting ? (
+          <><div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />SENDING...</>
+        ) : (
+          <>SEND MESSAGE<svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14 5l7 7m0 0l-7 7m7-7H3" /></svg></>
+        )}
+      </button>
+    </form>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GeneratedImage } from '../types';
+import { describeImage } from '../services/geminiService';
+import { ErrorNotice, isAbortError, toErrorNotice } from '../services/errors';
+
+type DescriptionChanges = Pick<GeneratedImage, 'altText' | 'describedPrompt' | 'suggestedTags'>;
+
+interface DescriptionPanelProps {
+  // The version being described; tags live on its root
+  image: GeneratedImage;
+  root: GeneratedImage;
+  onChange: (id: string, changes: DescriptionChanges) => Promise<void>;
+  onChangeTags: (rootId: string, tags: string[]) => Promise<void>;
+  onUsePrompt: (prompt: string) => void;
+}
+
+const fieldClass = 'w-full bg-white/5 border border-white/10 rounded-xl p-3 text-sm text-white resize-none focus:outline-none focus:border-neon-blue';
+
+export const DescriptionPanel: React.FC<DescriptionPanelProps> = ({ image, root, onChange, onChangeTags, onUsePrompt }) => {
+  const [altText, setAltText] = useState(image.altText ?? '');
+  const [prompt, setPrompt] = useState(image.describedPrompt ?? '');
+  const [isDescribing, setIsDescribing] = useState(false);
+  const [error, setError] = useState<ErrorNotice | null>(null);
+  const controller = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    setAltText(image.altText ?? '');
+    setPrompt(image.describedPrompt ?? '');
+  }, [image.id, image.altText, image.describedPrompt]);
+
+  useEffect(() => () => controller.current?.abort(), []);
+
+  const handleDescribe = async () => {
+    controller.current?.abort();
+    const current = new AbortController();
+    controller.current = current;
+    setIsDescribing(true);
+    setError(null);
+    try {
+      const description = await describeImage(image.url, { signal: current.signal });
+      await onChange(image.id, {
+        altText: description.altText,
+        describedPrompt: description.prompt,
+        suggestedTags: description.tags,
+      });
+    } catch (err) {
+      if (!current.signal.aborted && !isAbortError(err)) {
+        setError(toErrorNotice(err, 'Description failed'));
+      }
+    } finally {
+      if (!current.signal.aborted) setIsDescribing(false);
+    }
+  };
+
+  // Edits are saved when the field loses focus, and only when something changed
+  const saveField = (field: 'altText' | 'describedPrompt', value: string) => {
+    const trimmed = value.trim() || undefined;
+    if (trimmed !== image[field]) onChange(image.id, { [field]: trimmed });
+  };
+
+  const tags = root.tags ?? [];
+  const suggestions = (image.suggestedTags ?? []).filter(tag => !tags.includes(tag));
+  const isDescribed = !!(image.altText || image.describedPrompt);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-[10px] uppercase tracking-widest font-bold text-gray-500">Description</h4>
+        <button
+          onClick={handleDescribe}
+          disabled={isDescribing}
+          className="px-4 py-1.5 border border-white/10 text-gray-300 font-bold text-[10px] uppercase tracking-widest rounded-lg hover:border-neon-blue hover:text-neon-blue transition-colors disabled:opacity-40"
+        >
+          {isDescribing ? 'Describing...' : isDescribed ? 'Describe again' : 'Describe'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/50 rounded-xl text-sm text-red-400 space-y-1">
+          <p className="font-bold">{error.title}</p>
+          <p className="text-red-400/80">{error.message}</p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <label htmlFor="alt-text" className="text-[10px] uppercase tracking-widest font-bold text-gray-600">Alt text</label>
+        <textarea
+          id="alt-text"
+          rows={2}
+          value={altText}
+          onChange={(e) => setAltText(e.target.value)}
+          onBlur={() => saveField('altText', altText)}
+          placeholder="What a screen reader should say about this image"
+          className={fieldClass}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <label htmlFor="described-prompt" className="text-[10px] uppercase tracking-widest font-bold text-gray-600">Reusable prompt</label>
+          <button
+            onClick={() => onUsePrompt(prompt.trim())}
+            disabled={!prompt.trim()}
+            className="text-[10px] uppercase tracking-widest font-bold text-neon-blue hover:text-white disabled:text-gray-600"
+          >
+            Use as prompt
+          </button>
+        </div>
+        <textarea
+          id="described-prompt"
+          rows={4}
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          onBlur={() => saveField('describedPrompt', prompt)}
+          placeholder="Describe the image to get a prompt that reproduces it"
+          className={fieldClass}
+        />
+      </div>
+
+      {suggestions.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-[10px] uppercase tracking-widest font-bold text-gray-600">Suggested tags</p>
+          <div className="flex flex-wrap gap-2">
+            {suggestions.map((tag) => (
+              <button
+                key={tag}
+                onClick={() => onChangeTags(root.id, [...tags, tag])}
+                className="px-2 py-0.5 rounded-full bg-white/5 border border-dashed border-white/20 text-[10px] font-mono text-gray-400 hover:border-neon-blue hover:text-neon-blue"
+                title={`Add tag ${tag}`}
+              >
+                + #{tag}
+              </button>
+            ))}
+            {suggestions.length > 1 && (
+              <button
+                onClick={() => onChangeTags(root.id, [...tags, ...suggestions])}
+                className="text-[10px] uppercase tracking-widest font-bold text-gray-500 hover:text-neon-blue"
+              >
+                Add all
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
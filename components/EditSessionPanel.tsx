@@ -0,0 +1,292 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { ConversationTurn, EditSession, GeneratedImage, ProviderId } from '../types';
+import { continueConversation } from '../services/geminiService';
+import { ErrorNotice, isAbortError, toErrorNotice } from '../services/errors';
+import { deleteEditSession, listEditSessions, saveEditSession } from '../services/storageService';
+import { altTextOf } from '../services/galleryQuery';
+
+interface EditSessionPanelProps {
+  // The version the conversation starts from
+  source: GeneratedImage;
+  provider: ProviderId;
+  model: string;
+  // Saves a model turn's image as a new version and returns its gallery id
+  onSaveTurn: (session: EditSession, turnId: string) => Promise<string>;
+  onClose: () => void;
+}
+
+const createId = () => Math.random().toString(36).substr(2, 9);
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+export const EditSessionPanel: React.FC<EditSessionPanelProps> = ({ source, provider, model, onSaveTurn, onClose }) => {
+  const rootId = source.rootId ?? source.id;
+  const [sessions, setSessions] = useState<EditSession[]>([]);
+  const [session, setSession] = useState<EditSession | null>(null);
+  const [draft, setDraft] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [savingTurnId, setSavingTurnId] = useState<string | null>(null);
+  const [error, setError] = useState<ErrorNotice | null>(null);
+  const controller = useRef<AbortController | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const refreshSessions = useCallback(async () => {
+    try {
+      setSessions(await listEditSessions(rootId));
+    } catch (e) {
+      console.error("Failed to load editing sessions", e);
+    }
+  }, [rootId]);
+
+  useEffect(() => {
+    refreshSessions();
+    return () => controller.current?.abort();
+  }, [refreshSessions]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [session?.turns.length, isSending]);
+
+  const persist = async (next: EditSession) => {
+    setSession(next);
+    try {
+      await saveEditSession(next);
+    } catch (e) {
+      console.error("Failed to save editing session", e);
+    }
+  };
+
+  const startSession = () => {
+    const now = Date.now();
+    setError(null);
+    setSession({ id: createId(), sourceId: source.id, rootId, provider, model, turns: [], createdAt: now, updatedAt: now });
+  };
+
+  const backToList = () => {
+    controller.current?.abort();
+    controller.current = null;
+    setIsSending(false);
+    setSession(null);
+    setError(null);
+    refreshSessions();
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm('Delete this conversation? Images already saved to the gallery are kept.')) return;
+    await deleteEditSession(id);
+    refreshSessions();
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = draft.trim();
+    if (!session || !text || isSending) return;
+
+    // The first instruction carries the image the conversation is about
+    const userTurn: ConversationTurn = {
+      id: createId(),
+      role: 'user',
+      text,
+      timestamp: Date.now(),
+      ...(session.turns.length === 0 && { image: source.url }),
+    };
+    const pending = { ...session, turns: [...session.turns, userTurn] };
+    const current = new AbortController();
+    controller.current = current;
+    setSession(pending);
+    setDraft('');
+    setError(null);
+    setIsSending(true);
+
+    try {
+      const reply = await continueConversation(pending.turns, { provider: session.provider, model: session.model, signal: current.signal });
+      current.signal.throwIfAborted();
+      const modelTurn: ConversationTurn = { id: createId(), role: 'model', ...reply, timestamp: Date.now() };
+      await persist({ ...pending, turns: [...pending.turns, modelTurn], updatedAt: modelTurn.timestamp });
+    } catch (err) {
+      // Take the instruction back so it can be changed and resent
+      if (controller.current === current) {
+        setSession(session);
+        setDraft(text);
+      }
+      if (!current.signal.aborted && !isAbortError(err)) {
+        setError(toErrorNotice(err, 'Editing failed'));
+      }
+    } finally {
+      if (controller.current === current) setIsSending(false);
+    }
+  };
+
+  const handleSaveTurn = async (turnId: string) => {
+    if (!session) return;
+    setSavingTurnId(turnId);
+    try {
+      const savedImageId = await onSaveTurn(session, turnId);
+      await persist({
+        ...session,
+        turns: session.turns.map(turn => turn.id === turnId ? { ...turn, savedImageId } : turn),
+      });
+    } catch (err) {
+      console.error("Failed to save conversation image", err);
+      setError(toErrorNotice(err, 'Saving failed'));
+    } finally {
+      setSavingTurnId(null);
+    }
+  };
+
+  const renderTurn = (turn: ConversationTurn) => (
+    <div key={turn.id} className={`flex ${turn.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+      <div className={`max-w-[85%] rounded-2xl p-3 space-y-2 ${
+        turn.role === 'user' ? 'bg-neon-blue/15 border border-neon-blue/30' : 'bg-white/5 border border-white/10'
+      }`}>
+        {turn.image && (
+          <img src={turn.image} alt={turn.role === 'user' ? 'Image being edited' : turn.text || 'Edited image'} className="rounded-xl max-h-64 w-full object-contain bg-black/20" />
+        )}
+        {turn.text && <p className="text-sm text-gray-200 whitespace-pre-wrap">{turn.text}</p>}
+        {turn.role === 'model' && turn.image && (
+          <div className="flex justify-end text-[10px] uppercase tracking-widest font-bold">
+            {turn.savedImageId ? (
+              <span className="text-green-400">Saved to gallery</span>
+            ) : (
+              <button
+                onClick={() => handleSaveTurn(turn.id)}
+                disabled={savingTurnId !== null}
+                className="text-neon-blue hover:text-white disabled:text-gray-600"
+              >
+                {savingTurnId === turn.id ? 'Saving...' : 'Save to gallery'}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  const renderSessionList = () => (
+    <div className="flex-grow overflow-y-auto p-6 space-y-4">
+      <div className="flex items-center gap-4">
+        <img src={source.url} alt={altTextOf(source)} className="w-16 h-16 rounded-xl object-cover border border-white/10" />
+        <p className="text-sm text-gray-400 line-clamp-3">{source.editPrompt ?? source.prompt}</p>
+      </div>
+      <button
+        onClick={startSession}
+        className="w-full py-3 bg-neon-blue text-black font-bold text-xs uppercase tracking-wider rounded-lg hover:bg-white transition-colors"
+      >
+        New conversation
+      </button>
+      {sessions.length > 0 && (
+        <p className="text-[10px] uppercase tracking-widest font-bold text-gray-500 pt-2">Saved conversations</p>
+      )}
+      {sessions.map((saved) => {
+        const lastImage = [...saved.turns].reverse().find(turn => turn.image)?.image;
+        const instructions = saved.turns.filter(turn => turn.role === 'user');
+        return (
+          <div key={saved.id} className="flex items-center gap-3 p-3 rounded-2xl border border-white/10 bg-white/5">
+            {lastImage && <img src={lastImage} alt="" className="w-12 h-12 rounded-lg object-cover shrink-0" />}
+            <div className="flex-grow min-w-0">
+              <p className="text-sm text-gray-300 truncate">{instructions[instructions.length - 1]?.text ?? 'Empty conversation'}</p>
+              <p className="text-[10px] text-gray-600 font-mono">
+                {instructions.length} {instructions.length === 1 ? 'instruction' : 'instructions'} · {formatTime(saved.updatedAt)}
+              </p>
+            </div>
+            <div className="flex gap-3 text-[10px] uppercase tracking-widest font-bold shrink-0">
+              <button onClick={() => setSession(saved)} className="text-neon-blue hover:text-white">Resume</button>
+              <button onClick={() => handleDelete(saved.id)} className="text-gray-500 hover:text-red-400">Delete</button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  return createPortal(
+    <aside className="fixed inset-y-0 right-0 z-50 w-full max-w-lg glass-dark border-l border-white/10 shadow-2xl flex flex-col animate-fade-in">
+      <div className="p-6 border-b border-white/10 flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3 min-w-0">
+          {session && (
+            <button onClick={backToList} className="text-gray-500 hover:text-white" title="All conversations">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+            </button>
+          )}
+          <h3 className="font-orbitron font-bold text-lg tracking-widest text-neon-blue">CONVERSATION</h3>
+          {session && <span className="text-[10px] text-gray-600 font-mono truncate">{session.provider} · {session.model}</span>}
+        </div>
+        <button onClick={onClose} className="text-gray-500 hover:text-white" title="Close">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {!session ? renderSessionList() : (
+        <>
+          <div className="flex-grow overflow-y-auto p-6 space-y-4">
+            {session.turns.length === 0 && (
+              <div className="space-y-3">
+                <img src={source.url} alt={altTextOf(source)} className="rounded-xl max-h-64 w-full object-contain bg-black/20" />
+                <p className="text-sm text-gray-500 text-center">
+                  Describe a change. Each instruction builds on the previous results, so you can refine step by step.
+                </p>
+              </div>
+            )}
+            {session.turns.map(renderTurn)}
+            {isSending && (
+              <div className="flex justify-start">
+                <div className="w-48 h-32 rounded-2xl bg-white/5 animate-pulse" />
+              </div>
+            )}
+            {error && (
+              <div className="p-4 bg-red-500/10 border border-red-500/50 rounded-2xl text-sm text-red-400 space-y-1">
+                <p className="font-bold">{error.title}</p>
+                <p className="text-red-400/80">{error.message}</p>
+                {error.hint && <p className="text-gray-500 text-xs">{error.hint}</p>}
+              </div>
+            )}
+            <div ref={bottomRef} />
+          </div>
+
+          <form onSubmit={handleSend} className="p-6 border-t border-white/10 flex gap-2">
+            <input
+              type="text"
+              autoFocus
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder={session.turns.length === 0 ? "E.g., 'Make it sunset style'" : "E.g., 'Warmer, and remove the lamp'"}
+              className="flex-grow bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-neon-blue transition-colors"
+            />
+            {isSending ? (
+              <button
+                type="button"
+                onClick={() => controller.current?.abort()}
+                className="px-4 py-2 border border-red-500/50 text-red-400 font-bold text-xs uppercase tracking-wider rounded-lg hover:bg-red-500/10 transition-colors"
+              >
+                Stop
+              </button>
+            ) : (
+              <button
+                type="submit"
+                disabled={!draft.trim()}
+                className="px-4 py-2 bg-neon-blue text-black font-bold text-xs uppercase tracking-wider rounded-lg hover:bg-white transition-colors disabled:opacity-40"
+              >
+                Send
+              </button>
+            )}
+          </form>
+        </>
+      )}
+    </aside>,
+    document.body
+  );
+};
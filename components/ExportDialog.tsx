@@ -0,0 +1,232 @@
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { AspectRatio, GeneratedImage } from '../types';
+import { DEFAULT_EXPORT_OPTIONS, ExportFormat, ExportOptions, renderExport } from '../services/exportService';
+import { downloadBlob } from '../services/downloadService';
+import { altTextOf } from '../services/galleryQuery';
+import { formatBytes } from './StorageMeter';
+
+interface ExportDialogProps {
+  image: GeneratedImage;
+  // The image's edit tree, so PNG exports can embed the edit chain
+  versions: GeneratedImage[];
+  onClose: () => void;
+}
+
+const FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: 'original', label: 'Original' },
+  { id: 'png', label: 'PNG' },
+  { id: 'jpeg', label: 'JPEG' },
+  { id: 'webp', label: 'WebP' },
+];
+
+const LONG_SIDES = [2048, 1024, 512, 256];
+const RATIOS: AspectRatio[] = ['1:1', '16:9', '9:16', '4:3', '3:4'];
+const BACKGROUNDS = [
+  { id: 'transparent', label: 'Transparent' },
+  { id: '#ffffff', label: 'White' },
+  { id: '#000000', label: 'Black' },
+];
+
+const ESTIMATE_DEBOUNCE_MS = 300;
+
+const chipClass = (active: boolean) => `px-3 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest transition-all border ${
+  active ? 'bg-neon-blue text-black border-neon-blue' : 'bg-white/5 border-white/10 text-gray-400 hover:border-white/20'
+}`;
+
+const numberInputClass = 'w-24 bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-neon-blue';
+
+type SizeChoice = 'original' | number | 'custom';
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ image, versions, onClose }) => {
+  const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [custom, setCustom] = useState({ width: 1200, height: 630 });
+  const [result, setResult] = useState<{ blob: Blob; width: number; height: number; filename: string } | null>(null);
+  const [isRendering, setIsRendering] = useState(true);
+  const [renderError, setRenderError] = useState<string | null>(null);
+
+  const sizeChoice: SizeChoice = options.size.kind === 'long-side' ? options.size.pixels : options.size.kind;
+  const usesQuality = options.format === 'jpeg' || options.format === 'webp';
+  const update = (changes: Partial<ExportOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+
+  const chooseSize = (choice: SizeChoice) => update({
+    size: choice === 'original' ? { kind: 'original' }
+      : choice === 'custom' ? { kind: 'custom', ...custom }
+      : { kind: 'long-side', pixels: choice },
+  });
+
+  useEffect(() => {
+    if (options.size.kind === 'custom') update({ size: { kind: 'custom', ...custom } });
+  }, [custom]);
+
+  // Renders the real file in the background; its size is the estimate
+  useEffect(() => {
+    let cancelled = false;
+    setIsRendering(true);
+    const timer = setTimeout(async () => {
+      try {
+        const rendered = await renderExport(image, versions, options);
+        if (!cancelled) {
+          setResult(rendered);
+          setRenderError(null);
+        }
+      } catch (err: any) {
+        if (!cancelled) setRenderError(err.message);
+      } finally {
+        if (!cancelled) setIsRendering(false);
+      }
+    }, ESTIMATE_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [image, versions, options]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const handleDownload = () => {
+    if (!result) return;
+    downloadBlob(result.blob, result.filename);
+    onClose();
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-md flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div
+        className="glass-dark w-full max-w-3xl max-h-[90vh] overflow-y-auto rounded-3xl border border-white/10 p-8 grid md:grid-cols-2 gap-8"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="space-y-4">
+          <h3 className="font-orbitron font-bold text-lg tracking-widest text-neon-blue">EXPORT</h3>
+          <div className="rounded-2xl overflow-hidden bg-[repeating-conic-gradient(#222_0%_25%,#333_0%_50%)] bg-[length:20px_20px] flex items-center justify-center aspect-square">
+            <img src={image.url} alt={altTextOf(image, versions[0])} className="max-w-full max-h-full object-contain" />
+          </div>
+          <p className="text-sm text-gray-400">
+            {result ? `${result.width} × ${result.height}` : '—'}
+            <span className="mx-2 text-gray-600">·</span>
+            {isRendering ? 'Estimating...' : result ? formatBytes(result.blob.size) : '—'}
+            {result && <span className="ml-2 text-gray-600 uppercase text-xs">{result.blob.type.replace('image/', '')}</span>}
+          </p>
+          {result?.blob.type === 'image/png' && (
+            <p className="text-xs text-gray-500">The prompt and edit chain are embedded in the PNG.</p>
+          )}
+          {renderError && <p className="text-xs text-red-400">{renderError}</p>}
+        </div>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <p className="text-[10px] uppercase tracking-widest font-bold text-gray-500">Format</p>
+            <div className="flex flex-wrap gap-2">
+              {FORMATS.map(({ id, label }) => (
+                <button key={id} type="button" onClick={() => update({ format: id })} className={chipClass(options.format === id)}>
+                  {label}
+                </button>
+              ))}
+            </div>
+            {usesQuality && (
+              <label className="flex items-center gap-3 text-xs text-gray-400">
+                Quality
+                <input
+                  type="range"
+                  min={10}
+                  max={100}
+                  value={Math.round(options.quality * 100)}
+                  onChange={(e) => update({ quality: Number(e.target.value) / 100 })}
+                  className="flex-grow accent-neon-blue"
+                />
+                <span className="w-8 text-right font-mono">{Math.round(options.quality * 100)}</span>
+              </label>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-[10px] uppercase tracking-widest font-bold text-gray-500">Size</p>
+            <div className="flex flex-wrap gap-2">
+              <button type="button" onClick={() => chooseSize('original')} className={chipClass(sizeChoice === 'original')}>Original</button>
+              {LONG_SIDES.map((pixels) => (
+                <button key={pixels} type="button" onClick={() => chooseSize(pixels)} className={chipClass(sizeChoice === pixels)}>
+                  {pixels}px
+                </button>
+              ))}
+              <button type="button" onClick={() => chooseSize('custom')} className={chipClass(sizeChoice === 'custom')}>Custom</button>
+            </div>
+            {sizeChoice === 'custom' && (
+              <div className="flex items-center gap-2 text-gray-500">
+                <input
+                  type="number"
+                  min={1}
+                  max={8192}
+                  value={custom.width}
+                  onChange={(e) => setCustom(prev => ({ ...prev, width: Number(e.target.value) || 1 }))}
+                  className={numberInputClass}
+                />
+                ×
+                <input
+                  type="number"
+                  min={1}
+                  max={8192}
+                  value={custom.height}
+                  onChange={(e) => setCustom(prev => ({ ...prev, height: Number(e.target.value) || 1 }))}
+                  className={numberInputClass}
+                />
+              </div>
+            )}
+          </div>
+
+          {sizeChoice !== 'custom' && (
+            <div className="space-y-2">
+              <p className="text-[10px] uppercase tracking-widest font-bold text-gray-500">Aspect ratio</p>
+              <div className="flex flex-wrap gap-2">
+                <button type="button" onClick={() => update({ aspectRatio: null })} className={chipClass(options.aspectRatio === null)}>Keep</button>
+                {RATIOS.map((ratio) => (
+                  <button key={ratio} type="button" onClick={() => update({ aspectRatio: ratio })} className={chipClass(options.aspectRatio === ratio)}>
+                    {ratio}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {(options.aspectRatio !== null || sizeChoice === 'custom') && (
+            <div className="space-y-2">
+              <p className="text-[10px] uppercase tracking-widest font-bold text-gray-500">Fit</p>
+              <div className="flex flex-wrap gap-2">
+                <button type="button" onClick={() => update({ fit: 'crop' })} className={chipClass(options.fit === 'crop')}>Crop</button>
+                <button type="button" onClick={() => update({ fit: 'pad' })} className={chipClass(options.fit === 'pad')}>Pad</button>
+              </div>
+              {options.fit === 'pad' && (
+                <div className="flex flex-wrap gap-2">
+                  {BACKGROUNDS.map(({ id, label }) => (
+                    <button key={id} type="button" onClick={() => update({ background: id })} className={chipClass(options.background === id)}>
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-4 pt-2">
+            <button onClick={onClose} className="text-xs text-gray-500 hover:text-white uppercase tracking-widest font-bold">
+              Cancel
+            </button>
+            <button
+              onClick={handleDownload}
+              disabled={!result || isRendering}
+              className="px-6 py-3 bg-neon-blue text-black font-bold text-xs uppercase tracking-wider rounded-lg hover:bg-white transition-colors disabled:bg-gray-800 disabled:text-gray-500"
+            >
+              Download
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
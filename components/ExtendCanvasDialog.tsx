@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { AspectRatio, CanvasAnchor, CanvasExtension } from '../types';
+import { anchorOffsets } from '../services/imageProcessing';
+
+interface ExtendCanvasDialogProps {
+  imageUrl: string;
+  onApply: (extension: CanvasExtension) => void;
+  onClose: () => void;
+}
+
+const RATIOS: AspectRatio[] = ['16:9', '4:3', '1:1', '3:4', '9:16'];
+
+const ANCHORS: CanvasAnchor[] = [
+  'top-left', 'top', 'top-right',
+  'left', 'center', 'right',
+  'bottom-left', 'bottom', 'bottom-right',
+];
+
+const chipClass = (active: boolean) => `px-3 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest transition-all border disabled:opacity-30 ${
+  active ? 'bg-neon-blue text-black border-neon-blue' : 'bg-white/5 border-white/10 text-gray-400 hover:border-white/20'
+}`;
+
+const ratioValue = (ratio: AspectRatio) => {
+  const [w, h] = ratio.split(':').map(Number);
+  return w / h;
+};
+
+export const ExtendCanvasDialog: React.FC<ExtendCanvasDialogProps> = ({ imageUrl, onApply, onClose }) => {
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio | null>(null);
+  const [anchor, setAnchor] = useState<CanvasAnchor>('center');
+  const [prompt, setPrompt] = useState('');
+  const [preserveOriginal, setPreserveOriginal] = useState(true);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const sourceRatio = size ? size.width / size.height : 1;
+  // A ratio within 1% of the source has nothing to extend
+  const isSameShape = (ratio: AspectRatio) => Math.abs(ratioValue(ratio) / sourceRatio - 1) < 0.01;
+
+  // Pick the first ratio that actually changes the shape once the size is known
+  useEffect(() => {
+    if (size && !aspectRatio) setAspectRatio(RATIOS.find(ratio => !isSameShape(ratio)) ?? null);
+  }, [size]);
+
+  const target = aspectRatio ? ratioValue(aspectRatio) : sourceRatio;
+  const widens = target > sourceRatio;
+  // The original's share of the new canvas along the grown side
+  const share = widens ? sourceRatio / target : target / sourceRatio;
+  const [anchorX, anchorY] = anchorOffsets(anchor);
+  const previewStyle: React.CSSProperties = widens
+    ? { width: `${share * 100}%`, height: '100%', left: `${(1 - share) * anchorX * 100}%`, top: 0 }
+    : { width: '100%', height: `${share * 100}%`, top: `${(1 - share) * anchorY * 100}%`, left: 0 };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!aspectRatio) return;
+    onApply({ aspectRatio, anchor, prompt: prompt.trim() || undefined, preserveOriginal });
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="glass-dark border border-white/10 rounded-3xl w-full max-w-xl max-h-full overflow-y-auto p-6 space-y-6"
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="font-orbitron font-bold text-lg tracking-widest text-neon-blue">EXTEND CANVAS</h3>
+          <button type="button" onClick={onClose} className="text-gray-500 hover:text-white" title="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex justify-center">
+          <div
+            className="relative max-w-full max-h-72 bg-[repeating-linear-gradient(45deg,rgba(255,255,255,0.06)_0_10px,transparent_10px_20px)] border border-dashed border-white/20 rounded-lg overflow-hidden"
+            style={{ aspectRatio: `${target}`, width: target >= 1 ? '100%' : `${target * 18}rem` }}
+          >
+            <img
+              src={imageUrl}
+              alt="Original placement"
+              onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+              className="absolute object-cover"
+              style={previewStyle}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-[10px] uppercase tracking-widest font-bold text-gray-500">Target ratio</p>
+          <div className="flex flex-wrap gap-2">
+            {RATIOS.map((ratio) => (
+              <button
+                key={ratio}
+                type="button"
+                onClick={() => setAspectRatio(ratio)}
+                disabled={!size || isSameShape(ratio)}
+                className={chipClass(ratio === aspectRatio)}
+              >
+                {ratio}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex gap-8">
+          <div className="space-y-2">
+            <p className="text-[10px] uppercase tracking-widest font-bold text-gray-500">Keep original at</p>
+            <div className="grid grid-cols-3 gap-1 w-24">
+              {ANCHORS.map((position) => (
+                <button
+                  key={position}
+                  type="button"
+                  onClick={() => setAnchor(position)}
+                  title={position.replace('-', ' ')}
+                  className={`h-7 rounded border transition-colors ${
+                    position === anchor ? 'bg-neon-blue border-neon-blue' : 'bg-white/5 border-white/10 hover:border-white/30'
+                  }`}
+                />
+              ))}
+            </div>
+          </div>
+          <div className="flex-grow space-y-2">
+            <label htmlFor="extend-prompt" className="text-[10px] uppercase tracking-widest font-bold text-gray-500">New area (optional)</label>
+            <input
+              id="extend-prompt"
+              type="text"
+              value={prompt}
+              onChange={(e) => setPrompt(e.target.value)}
+              placeholder="E.g., 'more beach and open sky'"
+              className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-neon-blue transition-colors"
+            />
+            <label className="flex items-center gap-2 text-xs text-gray-400 pt-2">
+              <input type="checkbox" checked={preserveOriginal} onChange={(e) => setPreserveOriginal(e.target.checked)} />
+              Keep the original pixels exactly
+            </label>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-4">
+          <button type="button" onClick={onClose} className="px-5 py-2 text-gray-400 font-bold text-xs uppercase tracking-wider hover:text-white">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!aspectRatio}
+            className="px-5 py-2 bg-neon-blue text-black font-bold text-xs uppercase tracking-wider rounded-lg hover:bg-white transition-colors disabled:opacity-40"
+          >
+            Extend
+          </button>
+        </div>
+      </form>
+    </div>,
+    document.body
+  );
+};
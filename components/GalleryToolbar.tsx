@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import { AspectRatio, Collection, GalleryQuery, GallerySort } from '../types';
+import { DEFAULT_GALLERY_QUERY, UPLOAD_PROVIDER_FILTER, isFilteredQuery } from '../services/galleryQuery';
+import { listProviders } from '../services/providers/registry';
+
+interface GalleryToolbarProps {
+  query: GalleryQuery;
+  onChange: (query: GalleryQuery) => void;
+  tags: string[];
+  collections: Collection[];
+  onCreateCollection: (name: string) => void;
+  onDeleteCollection: (id: string) => void;
+  selectMode: boolean;
+  onToggleSelectMode: () => void;
+  // Exports the open collection, or the whole gallery when none is open
+  onExport: () => void;
+}
+
+const SORTS: { id: GallerySort; label: string }[] = [
+  { id: 'newest', label: 'Newest first' },
+  { id: 'oldest', label: 'Oldest first' },
+  { id: 'prompt', label: 'Prompt A–Z' },
+  { id: 'favorites', label: 'Favorites first' },
+  { id: 'most-edited', label: 'Most edited' },
+];
+
+const RATIOS: AspectRatio[] = ['1:1', '16:9', '9:16', '4:3', '3:4'];
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+const toDateInput = (timestamp: number | null) =>
+  timestamp === null ? '' : new Date(timestamp - new Date(timestamp).getTimezoneOffset() * 60000).toISOString().slice(0, 10);
+
+// Date inputs are local calendar days; `to` covers the whole of its day
+const fromDateInput = (value: string, endOfDay: boolean) => {
+  if (!value) return null;
+  const date = new Date(`${value}T00:00:00`);
+  if (endOfDay) date.setDate(date.getDate() + 1);
+  return date.getTime() - (endOfDay ? 1 : 0);
+};
+
+const chipClass = (active: boolean) => `px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest transition-all border ${
+  active ? 'bg-neon-blue text-black border-neon-blue' : 'bg-white/5 border-white/10 text-gray-400 hover:border-white/20'
+}`;
+
+const selectClass = 'bg-gray-900 border border-white/10 rounded-full px-3 py-1.5 text-xs text-gray-300 focus:outline-none focus:border-neon-blue';
+
+export const GalleryToolbar: React.FC<GalleryToolbarProps> = ({
+  query,
+  onChange,
+  tags,
+  collections,
+  onCreateCollection,
+  onDeleteCollection,
+  selectMode,
+  onToggleSelectMode,
+  onExport,
+}) => {
+  const [text, setText] = useState(query.text);
+  const [showFilters, setShowFilters] = useState(false);
+
+  useEffect(() => {
+    setText(query.text);
+  }, [query.text]);
+
+  useEffect(() => {
+    if (text === query.text) return;
+    const timer = setTimeout(() => onChange({ ...query, text }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [text, query, onChange]);
+
+  const update = (changes: Partial<GalleryQuery>) => onChange({ ...query, ...changes });
+
+  const toggle = <T,>(list: T[], item: T) => list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+
+  const handleNewCollection = () => {
+    const name = window.prompt('Name the new collection');
+    if (name?.trim()) onCreateCollection(name.trim());
+  };
+
+  const activeCollection = collections.find(c => c.id === query.collectionId);
+
+  return (
+    <div className="mb-8 space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          type="search"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Search prompts, edits and tags..."
+          className="flex-grow min-w-[200px] bg-white/5 border border-white/10 rounded-full px-4 py-2 text-sm text-white focus:outline-none focus:border-neon-blue transition-colors"
+        />
+        <select value={query.sort} onChange={(e) => update({ sort: e.target.value as GallerySort })} title="Sort" className={selectClass}>
+          {SORTS.map(({ id, label }) => (
+            <option key={id} value={id}>{label}</option>
+          ))}
+        </select>
+        <select
+          value={query.collectionId ?? ''}
+          onChange={(e) => update({ collectionId: e.target.value || null })}
+          title="Collection"
+          className={selectClass}
+        >
+          <option value="">All images</option>
+          {collections.map((collection) => (
+            <option key={collection.id} value={collection.id}>{collection.name}</option>
+          ))}
+        </select>
+        <button type="button" onClick={handleNewCollection} className="text-xs text-gray-500 hover:text-neon-blue uppercase tracking-widest font-bold">
+          + Collection
+        </button>
+        {activeCollection && (
+          <button
+            type="button"
+            onClick={() => {
+              if (window.confirm(`Delete the collection "${activeCollection.name}"? Its images stay in the gallery.`)) {
+                onDeleteCollection(activeCollection.id);
+              }
+            }}
+            className="text-xs text-gray-500 hover:text-red-400 uppercase tracking-widest font-bold"
+          >
+            Delete Collection
+          </button>
+        )}
+        <button type="button" onClick={() => update({ favoritesOnly: !query.favoritesOnly })} className={chipClass(query.favoritesOnly)}>
+          ★ Favorites
+        </button>
+        <button type="button" onClick={() => setShowFilters(!showFilters)} className={chipClass(showFilters)}>
+          Filters
+        </button>
+        <button type="button" onClick={onToggleSelectMode} className={chipClass(selectMode)}>
+          Select
+        </button>
+        <button
+          type="button"
+          onClick={onExport}
+          className="text-xs text-gray-500 hover:text-neon-blue uppercase tracking-widest font-bold"
+          title={activeCollection ? `Export "${activeCollection.name}" as a ZIP archive` : 'Export the whole gallery as a ZIP archive'}
+        >
+          Export
+        </button>
+        {isFilteredQuery(query) && (
+          <button
+            type="button"
+            onClick={() => onChange({ ...DEFAULT_GALLERY_QUERY, sort: query.sort })}
+            className="text-xs text-gray-500 hover:text-white uppercase tracking-widest font-bold"
+          >
+            Reset
+          </button>
+        )}
+      </div>
+
+      {showFilters && (
+        <div className="flex flex-wrap items-center gap-3 p-4 rounded-2xl bg-white/5 border border-white/10 animate-fade-in">
+          <div className="flex items-center gap-2">
+            {RATIOS.map((ratio) => (
+              <button
+                key={ratio}
+                type="button"
+                onClick={() => update({ aspectRatios: toggle(query.aspectRatios, ratio) })}
+                className={chipClass(query.aspectRatios.includes(ratio))}
+              >
+                {ratio}
+              </button>
+            ))}
+          </div>
+          <select
+            value={query.provider ?? ''}
+            onChange={(e) => update({ provider: e.target.value || null })}
+            title="Provider"
+            className={selectClass}
+          >
+            <option value="">Any provider</option>
+            {listProviders().map((provider) => (
+              <option key={provider.id} value={provider.id}>{provider.label}</option>
+            ))}
+            <option value={UPLOAD_PROVIDER_FILTER}>Uploaded</option>
+          </select>
+          <label className="flex items-center gap-2 text-[10px] text-gray-500 font-bold uppercase tracking-widest">
+            From
+            <input
+              type="date"
+              value={toDateInput(query.from)}
+              onChange={(e) => update({ from: fromDateInput(e.target.value, false) })}
+              className={selectClass}
+            />
+          </label>
+          <label className="flex items-center gap-2 text-[10px] text-gray-500 font-bold uppercase tracking-widest">
+            To
+            <input
+              type="date"
+              value={toDateInput(query.to)}
+              onChange={(e) => update({ to: fromDateInput(e.target.value, true) })}
+              className={selectClass}
+            />
+          </label>
+          {tags.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 w-full">
+              {tags.map((tag) => (
+                <button
+                  key={tag}
+                  type="button"
+                  onClick={() => update({ tags: toggle(query.tags, tag) })}
+                  className={chipClass(query.tags.includes(tag))}
+                >
+                  #{tag}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,46 +1,142 @@
 
-import React, { useState } from 'react';
-import { GeneratedImage } from '../types';
+import React, { useEffect, useState } from 'react';
+import { CanvasExtension, GeneratedImage, GenerationParams } from '../types';
+import { MaskEditor } from './MaskEditor';
+import { ExportDialog } from './ExportDialog';
+import { ExtendCanvasDialog } from './ExtendCanvasDialog';
+import { pathFor } from '../services/router';
+import { altTextOf, normalizeTag } from '../services/galleryQuery';
 
 interface ImageCardProps {
   image: GeneratedImage;
-  onEdit: (id: string, editPrompt: string) => Promise<void>;
+  // Every version in this image's edit tree, root first
+  versions: GeneratedImage[];
+  onEdit: (sourceId: string, editPrompt: string, mask?: string) => void;
+  onExtend: (sourceId: string, extension: CanvasExtension) => void;
+  onRestoreVersion: (versionId: string) => void;
+  onDeleteVersion: (versionId: string) => void;
+  onUseAsReference?: (image: GeneratedImage) => void;
+  // Opens the full-size viewer on a version
+  onOpen?: (versionId: string) => void;
+  // Opens the chat-style editing panel for a version
+  onOpenConversation?: (image: GeneratedImage) => void;
+  // Loads the generation's parameters back into the prompt form
+  onRemix?: (params: GenerationParams) => void;
+  onToggleFavorite: (id: string) => void;
+  onChangeTags: (id: string, tags: string[]) => void;
   isEditing: boolean;
+  // Shown while the gallery is in multi-select mode
+  selectable?: boolean;
+  selected?: boolean;
+  onToggleSelect?: (id: string) => void;
 }
 
-export const ImageCard: React.FC<ImageCardProps> = ({ image, onEdit, isEditing }) => {
+export const ImageCard: React.FC<ImageCardProps> = ({
+  image,
+  versions,
+  onEdit,
+  onExtend,
+  onRestoreVersion,
+  onDeleteVersion,
+  onUseAsReference,
+  onOpen,
+  onOpenConversation,
+  onRemix,
+  onToggleFavorite,
+  onChangeTags,
+  isEditing,
+  selectable = false,
+  selected = false,
+  onToggleSelect,
+}) => {
   const [editPrompt, setEditPrompt] = useState('');
   const [showEdit, setShowEdit] = useState(false);
+  const [viewedId, setViewedId] = useState<string | null>(null);
+  const [showMaskEditor, setShowMaskEditor] = useState(false);
+  const [tagDraft, setTagDraft] = useState('');
+  const [showExport, setShowExport] = useState(false);
+  const [showExtend, setShowExtend] = useState(false);
 
-  const handleDownload = () => {
-    const link = document.createElement('a');
-    link.href = image.url;
-    link.download = `lumina-ai-${image.id}.png`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const activeId = image.activeVersionId ?? image.id;
+  const current = versions.find(v => v.id === (viewedId ?? activeId)) ?? image;
+  const currentIndex = versions.indexOf(current);
+  const versionLabel = (version: GeneratedImage) => `v${versions.indexOf(version) + 1}`;
+  const parentOf = (version: GeneratedImage) => versions.find(v => v.id === version.parentId);
+
+  // Jump back to the active version whenever the tree changes (new edit, restore, delete)
+  useEffect(() => {
+    setViewedId(null);
+  }, [activeId, versions.length]);
+
+  const tags = image.tags ?? [];
+
+  const handleAddTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    const tag = normalizeTag(tagDraft);
+    if (tag && !tags.includes(tag)) onChangeTags(image.id, [...tags, tag]);
+    setTagDraft('');
   };
 
-  const handleEditSubmit = async (e: React.FormEvent) => {
+  const handleEditSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!editPrompt.trim() || isEditing) return;
-    await onEdit(image.id, editPrompt);
+    onEdit(current.id, editPrompt);
     setEditPrompt('');
     setShowEdit(false);
   };
 
   return (
-    <div className="group relative overflow-hidden rounded-2xl glass-dark border border-white/10 animate-fade-in flex flex-col">
+    <div className={`group relative overflow-hidden rounded-2xl glass-dark border animate-fade-in flex flex-col ${selected ? 'border-neon-blue' : 'border-white/10'}`}>
       <div className="relative aspect-square overflow-hidden bg-black/20">
         <img
-          src={image.url}
-          alt={image.prompt}
+          src={current.url}
+          alt={altTextOf(current, image)}
           className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-110"
           loading="lazy"
         />
-        
+
+        {selectable && (
+          <button
+            onClick={() => onToggleSelect?.(image.id)}
+            className={`absolute inset-0 z-10 flex items-start justify-start p-3 ${selected ? 'bg-neon-blue/10' : ''}`}
+            title={selected ? 'Deselect' : 'Select'}
+          >
+            <span className={`w-6 h-6 rounded-md border-2 flex items-center justify-center ${selected ? 'bg-neon-blue border-neon-blue text-black' : 'border-white/60 bg-black/40'}`}>
+              {selected && (
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+                </svg>
+              )}
+            </span>
+          </button>
+        )}
+
+        <button
+          onClick={() => onToggleFavorite(image.id)}
+          className={`absolute top-3 right-3 z-20 p-2 rounded-full bg-black/40 transition-colors ${image.favorite ? 'text-yellow-400' : 'text-white/60 hover:text-yellow-300'}`}
+          title={image.favorite ? 'Remove from favorites' : 'Add to favorites'}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 24 24" fill={image.favorite ? 'currentColor' : 'none'} stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11.48 3.5a.56.56 0 011.04 0l2.13 5.11a.56.56 0 00.47.35l5.52.44c.5.04.7.66.32.99l-4.2 3.6a.56.56 0 00-.18.56l1.28 5.38a.56.56 0 01-.84.61l-4.72-2.88a.56.56 0 00-.59 0l-4.72 2.88a.56.56 0 01-.84-.61l1.28-5.38a.56.56 0 00-.18-.56l-4.2-3.6a.56.56 0 01.32-.99l5.52-.44a.56.56 0 00.47-.35z" />
+          </svg>
+        </button>
+
         {/* Overlay for actions */}
-        <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-center justify-center gap-4">
+        <div
+          onClick={(e) => e.target === e.currentTarget && onOpen?.(current.id)}
+          className={`absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex flex-wrap content-center items-center justify-center gap-4 p-4 ${onOpen ? 'cursor-zoom-in' : ''}`}
+        >
+          {onOpen && (
+            <button
+              onClick={() => onOpen(current.id)}
+              className="p-3 bg-white/10 rounded-full border border-white/30 text-white hover:bg-white/20 transition-colors"
+              title="View full size"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 8V4m0 0h4M4 4l5 5m11-1V4m0 0h-4m4 0l-5 5M4 16v4m0 0h4m-4 0l5-5m11 5l-5-5m5 5v-4m0 4h-4" />
+              </svg>
+            </button>
+          )}
           <button
             onClick={() => setShowEdit(!showEdit)}
             className="p-3 bg-neon-blue/20 rounded-full border border-neon-blue/50 text-neon-blue hover:bg-neon-blue/40 transition-colors"
@@ -51,9 +147,71 @@ export const ImageCard: React.FC<ImageCardProps> = ({ image, onEdit, isEditing }
             </svg>
           </button>
           <button
-            onClick={handleDownload}
+            onClick={() => setShowMaskEditor(true)}
+            disabled={isEditing}
+            className="p-3 bg-neon-pink/20 rounded-full border border-neon-pink/50 text-neon-pink hover:bg-neon-pink/40 transition-colors disabled:opacity-40"
+            title="Paint a mask and edit only that region"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zm0 0h12a2 2 0 002-2v-4a2 2 0 00-2-2h-2.343M11 7.343l1.657-1.657a2 2 0 012.828 0l2.829 2.829a2 2 0 010 2.828l-8.486 8.485M7 17h.01" />
+            </svg>
+          </button>
+          <button
+            onClick={() => setShowExtend(true)}
+            disabled={isEditing}
+            className="p-3 bg-neon-pink/20 rounded-full border border-neon-pink/50 text-neon-pink hover:bg-neon-pink/40 transition-colors disabled:opacity-40"
+            title="Extend canvas to another aspect ratio"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7H5a2 2 0 00-2 2v6a2 2 0 002 2h3m8-10h3a2 2 0 012 2v6a2 2 0 01-2 2h-3M9 12h6m-6 0l2-2m-2 2l2 2m4-2l-2-2m2 2l-2 2" />
+            </svg>
+          </button>
+          {onOpenConversation && (
+            <button
+              onClick={() => onOpenConversation(current)}
+              className="p-3 bg-neon-blue/20 rounded-full border border-neon-blue/50 text-neon-blue hover:bg-neon-blue/40 transition-colors"
+              title="Refine step by step in a conversation"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
+              </svg>
+            </button>
+          )}
+          {onRemix && image.params?.kind === 'generate' && (
+            <button
+              onClick={() => onRemix(image.params!)}
+              className="p-3 bg-white/10 rounded-full border border-white/30 text-white hover:bg-white/20 transition-colors"
+              title="Remix: load this generation's settings into the prompt form"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+            </button>
+          )}
+          {onUseAsReference && (
+            <button
+              onClick={() => onUseAsReference(current)}
+              className="p-3 bg-white/10 rounded-full border border-white/30 text-white hover:bg-white/20 transition-colors"
+              title="Use as reference in the prompt form"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+              </svg>
+            </button>
+          )}
+          <a
+            href={pathFor({ page: 'image', id: current.id })}
+            className="p-3 bg-white/10 rounded-full border border-white/30 text-white hover:bg-white/20 transition-colors"
+            title="Details and edit chain"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+          </a>
+          <button
+            onClick={() => setShowExport(true)}
             className="p-3 bg-neon-purple/20 rounded-full border border-neon-purple/50 text-neon-purple hover:bg-neon-purple/40 transition-colors"
-            title="Download image"
+            title="Download or convert image"
           >
             <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
@@ -67,13 +225,109 @@ export const ImageCard: React.FC<ImageCardProps> = ({ image, onEdit, isEditing }
           "{image.prompt}"
         </p>
 
+        {current.editPrompt && (
+          <p className="text-xs text-neon-blue/80 mb-4 -mt-2">
+            {current.masked ? 'Masked edit' : 'Edit'} from {versionLabel(parentOf(current) ?? image)}: {current.editPrompt}
+          </p>
+        )}
+
+        {image.origin === 'upload' && !current.parentId && (
+          <p className="text-[10px] font-mono uppercase tracking-widest text-gray-600 mb-4">Uploaded</p>
+        )}
+
+        {current.provider && (
+          <p className="text-[10px] font-mono uppercase tracking-widest text-gray-600 mb-4">
+            {current.provider} · {current.model}
+          </p>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          {tags.map((tag) => (
+            <span key={tag} className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-white/5 border border-white/10 text-[10px] font-mono text-gray-400">
+              #{tag}
+              <button
+                onClick={() => onChangeTags(image.id, tags.filter(t => t !== tag))}
+                className="text-gray-600 hover:text-red-400"
+                title={`Remove tag ${tag}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+          <form onSubmit={handleAddTag}>
+            <input
+              type="text"
+              value={tagDraft}
+              onChange={(e) => setTagDraft(e.target.value)}
+              placeholder="+ tag"
+              className="w-20 bg-transparent border-b border-transparent focus:border-neon-blue text-[10px] font-mono text-gray-400 focus:outline-none"
+            />
+          </form>
+        </div>
+
+        {versions.length > 1 && (
+          <div className="mb-4 space-y-2">
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setViewedId(versions[currentIndex - 1].id)}
+                disabled={currentIndex <= 0}
+                className="text-gray-500 hover:text-neon-blue disabled:opacity-20 transition-colors"
+                title="Previous version"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                </svg>
+              </button>
+              <div className="flex gap-2 overflow-x-auto py-1 flex-grow">
+                {versions.map((version) => (
+                  <button
+                    key={version.id}
+                    onClick={() => setViewedId(version.id)}
+                    title={version.editPrompt ? `${versionLabel(version)}: ${version.editPrompt}` : `${versionLabel(version)}: original`}
+                    className={`relative shrink-0 w-10 h-10 rounded-lg overflow-hidden border-2 transition-colors ${
+                      version.id === current.id ? 'border-neon-blue' : 'border-white/10 hover:border-white/30'
+                    }`}
+                  >
+                    <img src={version.url} alt="" className="w-full h-full object-cover" />
+                    <span className="absolute bottom-0 inset-x-0 bg-black/60 text-[8px] font-mono text-white">
+                      {versionLabel(version)}{version.id === activeId ? '•' : ''}
+                    </span>
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={() => setViewedId(versions[currentIndex + 1].id)}
+                disabled={currentIndex >= versions.length - 1}
+                className="text-gray-500 hover:text-neon-blue disabled:opacity-20 transition-colors"
+                title="Next version"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+              </button>
+            </div>
+            <div className="flex gap-4 text-[10px] uppercase tracking-widest font-bold">
+              {current.id !== activeId && (
+                <button onClick={() => onRestoreVersion(current.id)} className="text-gray-500 hover:text-neon-blue transition-colors">
+                  Restore {versionLabel(current)}
+                </button>
+              )}
+              {current.parentId && (
+                <button onClick={() => onDeleteVersion(current.id)} className="text-gray-500 hover:text-red-400 transition-colors">
+                  Delete {versionLabel(current)}
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
         {showEdit && (
           <form onSubmit={handleEditSubmit} className="mt-auto space-y-2 animate-fade-in">
             <input
               type="text"
               value={editPrompt}
               onChange={(e) => setEditPrompt(e.target.value)}
-              placeholder="E.g., 'Make it sunset style'"
+              placeholder={current.id === versions[versions.length - 1].id ? "E.g., 'Make it sunset style'" : `Branch from ${versionLabel(current)}...`}
               className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-neon-blue transition-colors"
             />
             <button
@@ -93,6 +347,32 @@ export const ImageCard: React.FC<ImageCardProps> = ({ image, onEdit, isEditing }
           </form>
         )}
       </div>
+
+      {showExport && (
+        <ExportDialog image={current} versions={versions} onClose={() => setShowExport(false)} />
+      )}
+
+      {showExtend && (
+        <ExtendCanvasDialog
+          imageUrl={current.url}
+          onClose={() => setShowExtend(false)}
+          onApply={(extension) => {
+            onExtend(current.id, extension);
+            setShowExtend(false);
+          }}
+        />
+      )}
+
+      {showMaskEditor && (
+        <MaskEditor
+          imageUrl={current.url}
+          onClose={() => setShowMaskEditor(false)}
+          onApply={(maskPrompt, mask) => {
+            onEdit(current.id, maskPrompt, mask);
+            setShowMaskEditor(false);
+          }}
+        />
+      )}
     </div>
   );
 };
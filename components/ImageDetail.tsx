@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react';
+import { Collection, GeneratedImage, GenerationParams, PromptPreset } from '../types';
+import { loadImageTree } from '../services/storageService';
+import { editChainOf } from '../services/pngMetadata';
+import { navigate, pathFor } from '../services/router';
+import { altTextOf } from '../services/galleryQuery';
+import { ExportDialog } from './ExportDialog';
+import { DescriptionPanel } from './DescriptionPanel';
+
+interface ImageDetailProps {
+  id: string;
+  collections: Collection[];
+  presets: PromptPreset[];
+  onNotFound: () => React.ReactNode;
+  onChangeMetadata: (id: string, changes: Partial<GeneratedImage>) => Promise<void>;
+  onChangeTags: (id: string, tags: string[]) => Promise<void>;
+  onUsePrompt: (prompt: string) => void;
+  onRemix: (params: GenerationParams) => void;
+}
+
+export const ImageDetail: React.FC<ImageDetailProps> = ({ id, collections, presets, onNotFound, onChangeMetadata, onChangeTags, onUsePrompt, onRemix }) => {
+  const [tree, setTree] = useState<GeneratedImage[] | null | undefined>(undefined);
+  const [showExport, setShowExport] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImageTree(id)
+      .then(result => !cancelled && setTree(result))
+      .catch(e => {
+        console.error("Failed to load image", e);
+        if (!cancelled) setTree(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  if (tree === undefined) {
+    return <p className="py-20 text-center text-gray-500 animate-pulse">Loading image...</p>;
+  }
+  const image = tree?.find(img => img.id === id);
+  if (!tree || !image) {
+    return <>{onNotFound()}</>;
+  }
+
+  const root = tree[0];
+  const chain = editChainOf(image, tree);
+  const versionLabel = (versionId: string) => `v${tree.findIndex(v => v.id === versionId) + 1}`;
+  const style = presets.find(preset => preset.id === image.stylePresetId);
+
+  // Keep the local tree in step with what the app saved
+  const patchTree = (targetId: string, changes: Partial<GeneratedImage>) =>
+    setTree(prev => prev?.map(img => img.id === targetId ? { ...img, ...changes } : img));
+
+  const handleCopyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const rows: [string, React.ReactNode][] = [
+    ['Prompt', root.prompt],
+    ['Edit', image.editPrompt && `${image.masked ? 'Masked edit' : 'Edit'}: ${image.editPrompt}`],
+    ['Created', new Date(image.timestamp).toLocaleString()],
+    ['Provider', image.provider && `${image.provider} · ${image.model}`],
+    ['Origin', root.origin === 'upload' ? 'Uploaded' : root.origin === 'generated' ? 'Generated' : undefined],
+    ['Aspect ratio', root.aspectRatio],
+    ['Style', style?.name ?? root.stylePresetId],
+    ['Avoid', root.negativePrompt],
+    ['Tags', root.tags?.length ? root.tags.map(tag => `#${tag}`).join(' ') : undefined],
+    ['Collections', root.collectionIds?.map(cid => collections.find(c => c.id === cid)?.name).filter(Boolean).join(', ') || undefined],
+    ['Favorite', root.favorite ? 'Yes' : undefined],
+    ['Versions', tree.length > 1 ? `${versionLabel(image.id)} of ${tree.length}` : undefined],
+    ['Id', <span className="font-mono">{image.id}</span>],
+  ];
+
+  return (
+    <div className="animate-fade-in grid lg:grid-cols-[3fr_2fr] gap-10">
+      <div className="space-y-4">
+        <button
+          onClick={() => navigate({ page: 'home' })}
+          className="text-xs text-gray-500 hover:text-neon-blue uppercase tracking-widest font-bold"
+        >
+          ← Gallery
+        </button>
+        <div className="rounded-3xl overflow-hidden glass-dark border border-white/10 flex items-center justify-center">
+          <img src={image.url} alt={altTextOf(image, root)} className="max-w-full max-h-[75vh] object-contain" />
+        </div>
+      </div>
+
+      <div className="space-y-8">
+        <div className="flex flex-wrap gap-4">
+          <button
+            onClick={() => setShowExport(true)}
+            className="px-5 py-2 bg-neon-blue text-black font-bold text-xs uppercase tracking-wider rounded-lg hover:bg-white transition-colors"
+          >
+            Download
+          </button>
+          <button
+            onClick={handleCopyLink}
+            className="px-5 py-2 border border-white/10 text-gray-300 font-bold text-xs uppercase tracking-wider rounded-lg hover:border-neon-blue hover:text-neon-blue transition-colors"
+          >
+            {copied ? 'Link copied' : 'Copy link'}
+          </button>
+          {root.params?.kind === 'generate' && (
+            <button
+              onClick={() => onRemix(root.params!)}
+              title="Load this generation's settings into the prompt form"
+              className="px-5 py-2 border border-white/10 text-gray-300 font-bold text-xs uppercase tracking-wider rounded-lg hover:border-neon-blue hover:text-neon-blue transition-colors"
+            >
+              Remix
+            </button>
+          )}
+        </div>
+
+        <dl className="space-y-3 text-sm">
+          {rows.filter(([, value]) => value).map(([label, value]) => (
+            <div key={label} className="grid grid-cols-[110px_1fr] gap-4">
+              <dt className="text-[10px] uppercase tracking-widest font-bold text-gray-500 pt-0.5">{label}</dt>
+              <dd className="text-gray-300 break-words">{value}</dd>
+            </div>
+          ))}
+        </dl>
+
+        {image.params && (
+          <details className="text-sm">
+            <summary className="text-[10px] uppercase tracking-widest font-bold text-gray-500 cursor-pointer hover:text-gray-300">
+              Generation parameters{image.params.inferred ? ' (recovered from an older record)' : ''}
+            </summary>
+            <pre className="mt-3 p-4 rounded-xl bg-black/30 border border-white/5 text-xs font-mono text-gray-400 overflow-x-auto">
+              {JSON.stringify(image.params, null, 2)}
+            </pre>
+          </details>
+        )}
+
+        <DescriptionPanel
+          image={image}
+          root={root}
+          onChange={async (targetId, changes) => {
+            await onChangeMetadata(targetId, changes);
+            patchTree(targetId, changes);
+          }}
+          onChangeTags={async (rootId, tags) => {
+            await onChangeTags(rootId, tags);
+            patchTree(rootId, { tags });
+          }}
+          onUsePrompt={onUsePrompt}
+        />
+
+        {chain.length > 1 && (
+          <div className="space-y-3">
+            <h4 className="text-[10px] uppercase tracking-widest font-bold text-gray-500">Edit chain</h4>
+            <ol className="space-y-2">
+              {chain.map((step) => {
+                const version = tree.find(v => v.id === step.id);
+                return (
+                  <li key={step.id}>
+                    <a
+                      href={pathFor({ page: 'image', id: step.id })}
+                      className={`flex items-center gap-3 p-2 rounded-xl border transition-colors ${
+                        step.id === image.id ? 'border-neon-blue/60 bg-neon-blue/5' : 'border-white/5 hover:border-white/20'
+                      }`}
+                    >
+                      {version && <img src={version.url} alt="" className="w-12 h-12 rounded-lg object-cover" />}
+                      <span className="text-xs font-mono text-gray-500">{versionLabel(step.id)}</span>
+                      <span className="text-sm text-gray-300 line-clamp-2">
+                        {step.editPrompt ? `${step.masked ? 'Masked edit' : 'Edit'}: ${step.editPrompt}` : 'Original'}
+                      </span>
+                    </a>
+                  </li>
+                );
+              })}
+            </ol>
+          </div>
+        )}
+
+        {tree.length > chain.length && (
+          <div className="space-y-3">
+            <h4 className="text-[10px] uppercase tracking-widest font-bold text-gray-500">All versions</h4>
+            <div className="flex flex-wrap gap-2">
+              {tree.map((version) => (
+                <a
+                  key={version.id}
+                  href={pathFor({ page: 'image', id: version.id })}
+                  title={version.editPrompt ?? 'Original'}
+                  className={`relative w-14 h-14 rounded-lg overflow-hidden border-2 ${version.id === image.id ? 'border-neon-blue' : 'border-white/10 hover:border-white/30'}`}
+                >
+                  <img src={version.url} alt="" className="w-full h-full object-cover" />
+                  <span className="absolute bottom-0 inset-x-0 bg-black/60 text-[8px] font-mono text-white text-center">{versionLabel(version.id)}</span>
+                </a>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {showExport && <ExportDialog image={image} versions={tree} onClose={() => setShowExport(false)} />}
+    </div>
+  );
+};
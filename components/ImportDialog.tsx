@@ -0,0 +1,121 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { ConflictResolution, ImportPlan, ImportStatus } from '../services/archiveService';
+
+interface ImportDialogProps {
+  plan: ImportPlan;
+  isImporting: boolean;
+  onConfirm: (resolution: ConflictResolution) => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<ImportStatus, string> = {
+  new: 'New',
+  duplicate: 'Already in gallery',
+  'same-content': 'Same image under another id',
+  'id-conflict': 'Conflicts with a different image',
+};
+
+const RESOLUTIONS: { id: ConflictResolution; label: string; description: string }[] = [
+  { id: 'keep-both', label: 'Keep both', description: 'Import conflicting images under new ids.' },
+  { id: 'replace', label: 'Replace', description: 'Overwrite the gallery copy with the archive copy.' },
+  { id: 'skip', label: 'Skip', description: 'Leave the gallery copy and skip these images and their later versions.' },
+];
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ plan, isImporting, onConfirm, onClose }) => {
+  const [resolution, setResolution] = useState<ConflictResolution>('keep-both');
+
+  const counts = useMemo(() => {
+    const result: Record<ImportStatus, number> = { new: 0, duplicate: 0, 'same-content': 0, 'id-conflict': 0 };
+    plan.items.forEach(item => result[item.status]++);
+    return result;
+  }, [plan]);
+
+  const conflicts = plan.items.filter(item => item.status === 'id-conflict');
+  const previews = useMemo(
+    () => new Map(conflicts.map(item => [item.image.id, URL.createObjectURL(item.blob)])),
+    [plan]
+  );
+  useEffect(() => () => previews.forEach(url => URL.revokeObjectURL(url)), [previews]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const writable = counts.new + (resolution === 'skip' ? 0 : counts['id-conflict']);
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-md flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div
+        className="glass-dark w-full max-w-2xl max-h-[90vh] overflow-y-auto rounded-3xl border border-white/10 p-8 space-y-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div>
+          <h3 className="font-orbitron font-bold text-lg tracking-widest text-neon-blue">IMPORT ARCHIVE</h3>
+          <p className="text-sm text-gray-500 mt-1">
+            "{plan.manifest.name}" · exported {new Date(plan.manifest.exportedAt).toLocaleString()} · {plan.items.length} images
+          </p>
+        </div>
+
+        <ul className="grid grid-cols-2 gap-3">
+          {(Object.keys(STATUS_LABELS) as ImportStatus[]).map((status) => (
+            <li key={status} className="p-3 rounded-xl bg-white/5 border border-white/10">
+              <p className="text-2xl font-bold text-white">{counts[status]}</p>
+              <p className="text-[10px] uppercase tracking-widest text-gray-500 font-bold">{STATUS_LABELS[status]}</p>
+            </li>
+          ))}
+        </ul>
+
+        {conflicts.length > 0 && (
+          <div className="space-y-3">
+            <p className="text-xs uppercase tracking-widest font-bold text-yellow-400/80">Conflicts</p>
+            <ul className="space-y-2 max-h-48 overflow-y-auto">
+              {conflicts.map(({ image }) => (
+                <li key={image.id} className="flex items-center gap-3 text-sm text-gray-400">
+                  <img src={previews.get(image.id)} alt="" className="w-10 h-10 rounded-lg object-cover" />
+                  <span className="line-clamp-1">{image.editPrompt ?? image.prompt}</span>
+                  <span className="ml-auto font-mono text-[10px] text-gray-600">{image.id}</span>
+                </li>
+              ))}
+            </ul>
+            <div className="space-y-2">
+              {RESOLUTIONS.map(({ id, label, description }) => (
+                <label key={id} className="flex items-start gap-3 text-sm cursor-pointer">
+                  <input
+                    type="radio"
+                    name="resolution"
+                    checked={resolution === id}
+                    onChange={() => setResolution(id)}
+                    className="mt-1 accent-neon-blue"
+                  />
+                  <span>
+                    <span className="font-bold text-white">{label}</span>
+                    <span className="text-gray-500"> — {description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-4">
+          <button onClick={onClose} className="text-xs text-gray-500 hover:text-white uppercase tracking-widest font-bold">
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(resolution)}
+            disabled={isImporting || writable === 0}
+            className="px-6 py-3 bg-neon-blue text-black font-bold text-xs uppercase tracking-wider rounded-lg hover:bg-white transition-colors disabled:bg-gray-800 disabled:text-gray-500"
+          >
+            {isImporting ? 'Importing...' : `Import ${writable} image${writable === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { GenerationJob, JobStatus } from '../types';
+
+interface JobCardProps {
+  job: GenerationJob;
+  onCancel: (id: string) => void;
+  onDismiss: (id: string) => void;
+}
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  queued: 'text-gray-400 border-white/10 bg-white/5',
+  running: 'text-neon-blue border-neon-blue/50 bg-neon-blue/10',
+  failed: 'text-red-400 border-red-500/50 bg-red-500/10',
+  done: 'text-green-400 border-green-500/50 bg-green-500/10',
+};
+
+// Elapsed time as m:ss
+function formatElapsed(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+// Ticks once a second while `active`, so the elapsed time stays current
+function useNow(active: boolean): number {
+  const [now, setNow] = useState(Date.now);
+  useEffect(() => {
+    if (!active) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [active]);
+  return now;
+}
+
+export const JobCard: React.FC<JobCardProps> = ({ job, onCancel, onDismiss }) => {
+  const isActive = job.status === 'queued' || job.status === 'running';
+  const [stopping, setStopping] = useState(false);
+  const now = useNow(isActive);
+
+  // Time waited while queued, then time spent on the request
+  const elapsed = job.startedAt
+    ? (job.finishedAt ?? now) - job.startedAt
+    : now - job.createdAt;
+  const { text, thoughts } = job.progress ?? {};
+  const hasProgress = job.status === 'running' && !!(text || thoughts);
+
+  const handleStop = () => {
+    // A running job stays on screen until its request has actually been aborted
+    if (job.status === 'running') setStopping(true);
+    onCancel(job.id);
+  };
+
+  return (
+    <div className="relative overflow-hidden rounded-2xl glass-dark border border-white/10 animate-fade-in flex flex-col">
+      <div className="relative aspect-square flex flex-col items-center justify-center gap-4 bg-black/20">
+        {job.status === 'running' && !hasProgress && (
+          <div className="w-10 h-10 border-2 border-neon-blue/30 border-t-neon-blue rounded-full animate-spin" />
+        )}
+        {hasProgress && (
+          // Anchored to the bottom so the newest output stays in view
+          <div className="absolute inset-0 px-5 pt-5 pb-14 flex flex-col justify-end overflow-hidden text-xs leading-relaxed" aria-live="polite">
+            {thoughts && <p className="text-gray-500 italic whitespace-pre-wrap">{thoughts}</p>}
+            {text && <p className="text-gray-300 whitespace-pre-wrap mt-2">{text}</p>}
+          </div>
+        )}
+        {job.status === 'queued' && (
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 text-gray-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+        )}
+        {job.status === 'done' && (
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 text-green-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+          </svg>
+        )}
+        {job.status === 'failed' && (
+          <p className="px-6 text-sm text-red-400 text-center line-clamp-4">{job.error}</p>
+        )}
+        <span className={`${hasProgress ? 'absolute bottom-4' : ''} px-3 py-1 rounded-full border text-[10px] font-bold uppercase tracking-widest ${STATUS_STYLES[job.status]}`}>
+          {job.kind === 'edit' ? 'Edit' : 'Generate'} · {stopping ? 'stopping' : job.status} · {formatElapsed(elapsed)}
+        </span>
+      </div>
+
+      <div className="p-4 flex flex-col flex-grow">
+        <p className="text-sm text-gray-400 line-clamp-2 mb-4 italic">
+          "{job.prompt}"
+        </p>
+        <p className="text-[10px] font-mono uppercase tracking-widest text-gray-600 mb-4">
+          {job.provider} · {job.model}{job.kind === 'generate' && ` · ${job.aspectRatio}`}
+        </p>
+        <div className="mt-auto">
+          {isActive ? (
+            <button
+              onClick={handleStop}
+              disabled={stopping}
+              className="text-xs text-gray-500 hover:text-red-400 transition-colors uppercase tracking-widest font-bold disabled:opacity-40"
+            >
+              {job.status === 'running' ? 'Stop' : 'Cancel'}
+            </button>
+          ) : job.status === 'failed' && (
+            <button
+              onClick={() => onDismiss(job.id)}
+              className="text-xs text-gray-500 hover:text-white transition-colors uppercase tracking-widest font-bold"
+            >
+              Dismiss
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
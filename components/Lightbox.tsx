@@ -0,0 +1,377 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { GeneratedImage } from '../types';
+import { altTextOf } from '../services/galleryQuery';
+
+interface LightboxProps {
+  // Root images of the filtered gallery, in gallery order
+  roots: GeneratedImage[];
+  versionsByRoot: Record<string, GeneratedImage[]>;
+  rootId: string;
+  // Version to show first; defaults to the root's active version
+  versionId?: string;
+  // Called when the last loaded image is reached, so more can be loaded
+  onReachEnd?: () => void;
+  onClose: () => void;
+}
+
+type CompareMode = 'off' | 'split' | 'side';
+
+interface View {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 8;
+const WHEEL_ZOOM_SPEED = 0.0015;
+const RESET_VIEW: View = { scale: 1, x: 0, y: 0 };
+
+const chipClass = (active: boolean) => `px-3 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest transition-all border ${
+  active ? 'bg-neon-blue text-black border-neon-blue' : 'bg-white/5 border-white/10 text-gray-400 hover:border-white/20'
+}`;
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+// Keeps a zoomed image from being dragged entirely out of its pane
+function clampView(view: View, pane: DOMRect): View {
+  if (view.scale <= MIN_SCALE) return RESET_VIEW;
+  const maxX = (pane.width * (view.scale - 1)) / 2;
+  const maxY = (pane.height * (view.scale - 1)) / 2;
+  return {
+    scale: view.scale,
+    x: Math.min(maxX, Math.max(-maxX, view.x)),
+    y: Math.min(maxY, Math.max(-maxY, view.y)),
+  };
+}
+
+// Scales by `factor` while keeping the content under `point` (relative to the pane centre) in place
+function zoomAt(view: View, factor: number, point: Point): View {
+  const scale = clampScale(view.scale * factor);
+  const ratio = scale / view.scale;
+  return {
+    scale,
+    x: point.x - (point.x - view.x) * ratio,
+    y: point.y - (point.y - view.y) * ratio,
+  };
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+export const Lightbox: React.FC<LightboxProps> = ({ roots, versionsByRoot, rootId, versionId, onReachEnd, onClose }) => {
+  const [currentRootId, setCurrentRootId] = useState(rootId);
+  const [selectedVersionId, setSelectedVersionId] = useState<string | undefined>(versionId);
+  const [compare, setCompare] = useState<CompareMode>('off');
+  const [split, setSplit] = useState(50);
+  const [view, setView] = useState<View>(RESET_VIEW);
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const pointers = useRef(new Map<number, Point>());
+  const pane = useRef<HTMLElement | null>(null);
+  const splitDrag = useRef(false);
+
+  const index = roots.findIndex(root => root.id === currentRootId);
+  const root = roots[index];
+  const versions = root ? versionsByRoot[root.id] ?? [root] : [];
+  const current = versions.find(v => v.id === (selectedVersionId ?? root?.activeVersionId ?? root?.id)) ?? root;
+  const parent = current?.parentId ? versions.find(v => v.id === current.parentId) : undefined;
+  const comparing = compare !== 'off' && !!parent;
+  const versionLabel = (version: GeneratedImage) => `v${versions.indexOf(version) + 1}`;
+
+  // The root can disappear from the gallery (deleted, filtered out) while open
+  useEffect(() => {
+    if (!root) onClose();
+  }, [root, onClose]);
+
+  useEffect(() => {
+    setView(RESET_VIEW);
+    setNaturalSize(null);
+  }, [current?.id, compare]);
+
+  // Wheel zooming must not scroll the page underneath
+  useEffect(() => {
+    const overflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.body.style.overflow = overflow;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (index === roots.length - 1) onReachEnd?.();
+  }, [index, roots.length, onReachEnd]);
+
+  const go = (step: number) => {
+    const next = roots[index + step];
+    if (!next) return;
+    setCurrentRootId(next.id);
+    setSelectedVersionId(undefined);
+  };
+
+  const centerOf = (element: HTMLElement | null): Point => {
+    const rect = element?.getBoundingClientRect();
+    return rect ? { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 } : { x: 0, y: 0 };
+  };
+
+  const applyView = (next: View) => {
+    const rect = pane.current?.getBoundingClientRect();
+    setView(rect ? clampView(next, rect) : next);
+  };
+
+  const zoomBy = (factor: number) => applyView(zoomAt(view, factor, { x: 0, y: 0 }));
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      else if (e.key === 'ArrowLeft') go(-1);
+      else if (e.key === 'ArrowRight') go(1);
+      else if (e.key === '+' || e.key === '=') zoomBy(1.5);
+      else if (e.key === '-') zoomBy(1 / 1.5);
+      else if (e.key === '0') setView(RESET_VIEW);
+      else if (e.key.toLowerCase() === 'c' && parent) setCompare(mode => mode === 'off' ? 'split' : 'off');
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  });
+
+  // Side by side there are two panes; zoom around the one under the pointer, the other follows
+  const paneAt = (target: EventTarget) => (target as HTMLElement).closest<HTMLElement>('[data-pane]');
+
+  const handleWheel = (e: React.WheelEvent) => {
+    pane.current = paneAt(e.target) ?? pane.current;
+    const center = centerOf(pane.current);
+    applyView(zoomAt(view, Math.exp(-e.deltaY * WHEEL_ZOOM_SPEED), { x: e.clientX - center.x, y: e.clientY - center.y }));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+    pane.current = paneAt(e.target) ?? pane.current;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const previous = pointers.current.get(e.pointerId);
+    if (!previous) return;
+    const points = Array.from(pointers.current.entries());
+    const point = { x: e.clientX, y: e.clientY };
+
+    if (points.length === 2) {
+      // Pinch: scale by the change in finger distance, pan by the midpoint's movement
+      const other = points.find(([id]) => id !== e.pointerId)![1];
+      const before = midpoint(previous, other);
+      const after = midpoint(point, other);
+      const center = centerOf(pane.current);
+      const zoomed = zoomAt(view, distance(point, other) / (distance(previous, other) || 1), { x: before.x - center.x, y: before.y - center.y });
+      applyView({ ...zoomed, x: zoomed.x + after.x - before.x, y: zoomed.y + after.y - before.y });
+    } else if (points.length === 1 && view.scale > MIN_SCALE) {
+      applyView({ ...view, x: view.x + point.x - previous.x, y: view.y + point.y - previous.y });
+    }
+    pointers.current.set(e.pointerId, point);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    pointers.current.delete(e.pointerId);
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    pane.current = paneAt(e.target) ?? pane.current;
+    if (view.scale > MIN_SCALE) {
+      setView(RESET_VIEW);
+      return;
+    }
+    const center = centerOf(pane.current);
+    applyView(zoomAt(view, 2.5, { x: e.clientX - center.x, y: e.clientY - center.y }));
+  };
+
+  const moveSplit = (e: React.PointerEvent) => {
+    const rect = e.currentTarget.parentElement!.getBoundingClientRect();
+    setSplit(Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100)));
+  };
+
+  if (!root || !current) return null;
+
+  const transform = { transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})` };
+  const imageClass = 'w-full h-full object-contain select-none pointer-events-none';
+
+  const renderPane = (image: GeneratedImage, label?: string) => (
+    <div data-pane className="relative flex-1 h-full overflow-hidden">
+      <div className="absolute inset-0 will-change-transform" style={transform}>
+        <img
+          src={image.url}
+          alt={altTextOf(image, root)}
+          draggable={false}
+          onLoad={(e) => image.id === current.id && setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+          className={imageClass}
+        />
+      </div>
+      {label && (
+        <span className="absolute top-3 left-3 px-2 py-1 rounded bg-black/60 text-[10px] font-mono uppercase tracking-widest text-white">{label}</span>
+      )}
+    </div>
+  );
+
+  // The edited image is clipped in screen space, so the divider stays under the handle at any zoom
+  const renderSplit = (before: GeneratedImage) => (
+    <div data-pane className="relative flex-1 h-full overflow-hidden">
+      <div className="absolute inset-0 will-change-transform" style={transform}>
+        <img src={before.url} alt={altTextOf(before, root)} draggable={false} className={imageClass} />
+      </div>
+      <div className="absolute inset-0" style={{ clipPath: `inset(0 0 0 ${split}%)` }}>
+        <div className="absolute inset-0 will-change-transform" style={transform}>
+          <img
+            src={current.url}
+            alt={altTextOf(current, root)}
+            draggable={false}
+            onLoad={(e) => setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+            className={imageClass}
+          />
+        </div>
+      </div>
+      <div
+        className="absolute inset-y-0 w-8 -ml-4 cursor-ew-resize flex justify-center z-10"
+        style={{ left: `${split}%` }}
+        onPointerDown={(e) => {
+          e.stopPropagation();
+          e.currentTarget.setPointerCapture(e.pointerId);
+          splitDrag.current = true;
+        }}
+        onPointerMove={(e) => {
+          if (!splitDrag.current) return;
+          e.stopPropagation();
+          moveSplit(e);
+        }}
+        onPointerUp={() => {
+          splitDrag.current = false;
+        }}
+        role="slider"
+        aria-label="Comparison divider"
+        aria-valuenow={Math.round(split)}
+        aria-valuemin={0}
+        aria-valuemax={100}
+      >
+        <div className="w-0.5 h-full bg-white/80 shadow" />
+        <div className="absolute top-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-white text-black flex items-center justify-center shadow-lg">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7l-5 5 5 5M16 7l5 5-5 5" />
+          </svg>
+        </div>
+      </div>
+      <span className="absolute top-3 left-3 px-2 py-1 rounded bg-black/60 text-[10px] font-mono uppercase tracking-widest text-white">Before · {versionLabel(before)}</span>
+      <span className="absolute top-3 right-3 px-2 py-1 rounded bg-black/60 text-[10px] font-mono uppercase tracking-widest text-white">After · {versionLabel(current)}</span>
+    </div>
+  );
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 bg-black/95 flex flex-col animate-fade-in" role="dialog" aria-modal="true" aria-label="Image viewer">
+      <div className="flex items-center justify-between gap-4 px-6 py-4 border-b border-white/10">
+        <span className="text-xs font-mono text-gray-500">{index + 1} / {roots.length}</span>
+        <div className="flex items-center gap-2">
+          {parent && (
+            <>
+              <button onClick={() => setCompare('off')} className={chipClass(compare === 'off')}>Single</button>
+              <button onClick={() => setCompare('split')} className={chipClass(compare === 'split')}>Split</button>
+              <button onClick={() => setCompare('side')} className={chipClass(compare === 'side')}>Side by side</button>
+            </>
+          )}
+          <span className="w-px h-5 bg-white/10 mx-2" />
+          <button onClick={() => zoomBy(1 / 1.5)} disabled={view.scale <= MIN_SCALE} className="px-2 text-gray-400 hover:text-white disabled:opacity-30" title="Zoom out (-)">−</button>
+          <button onClick={() => setView(RESET_VIEW)} className="w-14 text-xs font-mono text-gray-400 hover:text-white" title="Fit (0)">
+            {Math.round(view.scale * 100)}%
+          </button>
+          <button onClick={() => zoomBy(1.5)} disabled={view.scale >= MAX_SCALE} className="px-2 text-gray-400 hover:text-white disabled:opacity-30" title="Zoom in (+)">+</button>
+        </div>
+        <button onClick={onClose} className="text-gray-500 hover:text-white" title="Close (Esc)">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div
+        className={`relative flex-grow min-h-0 flex gap-2 p-4 touch-none ${view.scale > MIN_SCALE ? 'cursor-grab active:cursor-grabbing' : 'cursor-zoom-in'}`}
+        onWheel={handleWheel}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDoubleClick={handleDoubleClick}
+      >
+        {comparing && compare === 'split' && renderSplit(parent)}
+        {comparing && compare === 'side' && (
+          <>
+            {renderPane(parent, `Before · ${versionLabel(parent)}`)}
+            {renderPane(current, `After · ${versionLabel(current)}`)}
+          </>
+        )}
+        {!comparing && renderPane(current)}
+
+        <button
+          onClick={() => go(-1)}
+          onPointerDown={(e) => e.stopPropagation()}
+          onDoubleClick={(e) => e.stopPropagation()}
+          disabled={index <= 0}
+          className="absolute left-4 top-1/2 -translate-y-1/2 p-3 rounded-full bg-black/50 text-white hover:bg-black/80 disabled:opacity-0 transition-opacity"
+          title="Previous image (←)"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <button
+          onClick={() => go(1)}
+          onPointerDown={(e) => e.stopPropagation()}
+          onDoubleClick={(e) => e.stopPropagation()}
+          disabled={index >= roots.length - 1}
+          className="absolute right-4 top-1/2 -translate-y-1/2 p-3 rounded-full bg-black/50 text-white hover:bg-black/80 disabled:opacity-0 transition-opacity"
+          title="Next image (→)"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="px-6 py-4 border-t border-white/10 flex items-center gap-6">
+        <div className="flex-grow min-w-0">
+          <p className="text-sm text-gray-300 truncate">{root.prompt}</p>
+          {current.editPrompt && (
+            <p className="text-xs text-neon-blue/80 truncate">
+              {current.masked ? 'Masked edit' : 'Edit'}{parent && ` from ${versionLabel(parent)}`}: {current.editPrompt}
+            </p>
+          )}
+          <p className="text-[10px] font-mono text-gray-600">
+            {naturalSize && `${naturalSize.width} × ${naturalSize.height}`}
+            {current.provider && ` · ${current.provider} · ${current.model}`}
+          </p>
+        </div>
+        {versions.length > 1 && (
+          <div className="flex gap-2 shrink-0">
+            {versions.map((version) => (
+              <button
+                key={version.id}
+                onClick={() => setSelectedVersionId(version.id)}
+                title={version.editPrompt ? `${versionLabel(version)}: ${version.editPrompt}` : `${versionLabel(version)}: original`}
+                className={`relative w-10 h-10 rounded-lg overflow-hidden border-2 transition-colors ${
+                  version.id === current.id ? 'border-neon-blue' : 'border-white/10 hover:border-white/30'
+                }`}
+              >
+                <img src={version.url} alt="" className="w-full h-full object-cover" />
+                <span className="absolute bottom-0 inset-x-0 bg-black/60 text-[8px] font-mono text-white">{versionLabel(version)}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+};
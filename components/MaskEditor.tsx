@@ -0,0 +1,280 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { createCanvas } from '../services/imageProcessing';
+
+interface MaskEditorProps {
+  imageUrl: string;
+  onApply: (prompt: string, mask: string) => void;
+  onClose: () => void;
+}
+
+type MaskTool = 'brush' | 'eraser' | 'rect' | 'lasso';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const TOOLS: { id: MaskTool; label: string }[] = [
+  { id: 'brush', label: 'Brush' },
+  { id: 'eraser', label: 'Eraser' },
+  { id: 'rect', label: 'Rectangle' },
+  { id: 'lasso', label: 'Lasso' },
+];
+
+// Painted pixels are shown in this colour at half opacity; only their alpha matters for the mask
+const MASK_COLOR = 'rgb(255, 0, 80)';
+
+export const MaskEditor: React.FC<MaskEditorProps> = ({ imageUrl, onApply, onClose }) => {
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(40);
+  const [prompt, setPrompt] = useState('');
+  const [hasMask, setHasMask] = useState(false);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const maskRef = useRef<HTMLCanvasElement>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const drag = useRef<{ start: Point; points: Point[] } | null>(null);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const maskContext = () => maskRef.current!.getContext('2d')!;
+  const previewContext = () => previewRef.current!.getContext('2d')!;
+
+  // Converts a pointer position to canvas pixels, which are the image's natural pixels
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) * e.currentTarget.width) / rect.width,
+      y: ((e.clientY - rect.top) * e.currentTarget.height) / rect.height,
+    };
+  };
+
+  const scaledBrush = () => {
+    const canvas = maskRef.current!;
+    return (brushSize * canvas.width) / canvas.getBoundingClientRect().width;
+  };
+
+  const strokeTo = (from: Point, to: Point) => {
+    const ctx = maskContext();
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineWidth = scaledBrush();
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  };
+
+  const tracePath = (ctx: CanvasRenderingContext2D, points: Point[]) => {
+    ctx.beginPath();
+    points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+    ctx.closePath();
+  };
+
+  const drawShapePreview = (start: Point, points: Point[]) => {
+    const ctx = previewContext();
+    ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    ctx.strokeStyle = '#00f2ff';
+    ctx.lineWidth = Math.max(2, ctx.canvas.width / 300);
+    ctx.setLineDash([ctx.lineWidth * 4, ctx.lineWidth * 3]);
+    if (tool === 'rect') {
+      const end = points[points.length - 1];
+      ctx.strokeRect(start.x, start.y, end.x - start.x, end.y - start.y);
+    } else {
+      tracePath(ctx, points);
+      ctx.stroke();
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toCanvasPoint(e);
+    drag.current = { start: point, points: [point] };
+    if (tool === 'brush' || tool === 'eraser') {
+      strokeTo(point, point);
+      setHasMask(true);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drag.current) return;
+    const point = toCanvasPoint(e);
+    const { start, points } = drag.current;
+    if (tool === 'brush' || tool === 'eraser') {
+      strokeTo(points[points.length - 1], point);
+    }
+    points.push(point);
+    if (tool === 'rect' || tool === 'lasso') {
+      drawShapePreview(start, points);
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!drag.current) return;
+    const { start, points } = drag.current;
+    drag.current = null;
+    if (tool !== 'rect' && tool !== 'lasso') return;
+
+    const preview = previewContext();
+    preview.clearRect(0, 0, preview.canvas.width, preview.canvas.height);
+    const ctx = maskContext();
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.fillStyle = MASK_COLOR;
+    if (tool === 'rect') {
+      const end = points[points.length - 1];
+      ctx.fillRect(start.x, start.y, end.x - start.x, end.y - start.y);
+    } else if (points.length > 2) {
+      tracePath(ctx, points);
+      ctx.fill();
+    }
+    setHasMask(true);
+  };
+
+  const clearMask = () => {
+    const ctx = maskContext();
+    ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    setHasMask(false);
+  };
+
+  const invertMask = () => {
+    const ctx = maskContext();
+    const { width, height } = ctx.canvas;
+    const data = ctx.getImageData(0, 0, width, height);
+    for (let i = 0; i < data.data.length; i += 4) {
+      data.data[i] = 255;
+      data.data[i + 1] = 0;
+      data.data[i + 2] = 80;
+      data.data[i + 3] = 255 - data.data[i + 3];
+    }
+    ctx.putImageData(data, 0, 0);
+    setHasMask(true);
+  };
+
+  // Flattens the painted alpha into the black/white mask the service expects
+  const exportMask = (): string => {
+    const source = maskContext().getImageData(0, 0, size!.width, size!.height);
+    const [canvas, ctx] = createCanvas(size!.width, size!.height);
+    const out = ctx.createImageData(size!.width, size!.height);
+    for (let i = 0; i < source.data.length; i += 4) {
+      const value = source.data[i + 3];
+      out.data[i] = out.data[i + 1] = out.data[i + 2] = value;
+      out.data[i + 3] = 255;
+    }
+    ctx.putImageData(out, 0, 0);
+    return canvas.toDataURL('image/png');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!prompt.trim() || !hasMask) return;
+    onApply(prompt, exportMask());
+  };
+
+  // Portalled so the card's backdrop-filter does not become the containing block
+  return createPortal(
+    <div className="fixed inset-0 z-50 bg-black/95 backdrop-blur-md flex flex-col animate-fade-in">
+      <div className="flex flex-wrap items-center gap-3 px-6 py-4 border-b border-white/10">
+        <h3 className="font-orbitron font-bold text-sm tracking-widest text-neon-blue mr-4">MASK EDIT</h3>
+        {TOOLS.map(({ id, label }) => (
+          <button
+            key={id}
+            type="button"
+            onClick={() => setTool(id)}
+            className={`px-4 py-2 rounded-full text-xs font-bold transition-all border ${
+              tool === id
+                ? 'bg-neon-blue text-black border-neon-blue'
+                : 'bg-white/5 border-white/10 text-gray-400 hover:border-white/20'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+        <label className="flex items-center gap-2 text-xs text-gray-500 font-bold uppercase tracking-widest ml-2">
+          Size
+          <input
+            type="range"
+            min={5}
+            max={150}
+            value={brushSize}
+            onChange={(e) => setBrushSize(Number(e.target.value))}
+            className="accent-neon-blue"
+          />
+        </label>
+        <button type="button" onClick={invertMask} className="text-xs text-gray-500 hover:text-white uppercase tracking-widest font-bold">
+          Invert
+        </button>
+        <button type="button" onClick={clearMask} className="text-xs text-gray-500 hover:text-red-400 uppercase tracking-widest font-bold">
+          Clear
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          className="ml-auto p-2 rounded-full text-gray-400 hover:text-white hover:bg-white/10 transition-colors"
+          title="Close (Esc)"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-grow flex items-center justify-center p-6 min-h-0">
+        <div className="relative max-w-full max-h-full">
+          <img
+            src={imageUrl}
+            alt="Image being masked"
+            className="block max-w-full max-h-[calc(100vh-220px)] select-none"
+            draggable={false}
+            onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+          />
+          {size && (
+            <>
+              <canvas
+                ref={maskRef}
+                width={size.width}
+                height={size.height}
+                className="absolute inset-0 w-full h-full opacity-50 pointer-events-none"
+              />
+              <canvas
+                ref={previewRef}
+                width={size.width}
+                height={size.height}
+                className="absolute inset-0 w-full h-full cursor-crosshair touch-none"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+              />
+            </>
+          )}
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex gap-3 px-6 py-4 border-t border-white/10 max-w-3xl w-full mx-auto">
+        <input
+          type="text"
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          placeholder={hasMask ? "Describe the change for the painted area..." : "Paint over the area to change first"}
+          className="flex-grow bg-white/5 border border-white/10 rounded-lg px-4 py-3 text-sm text-white focus:outline-none focus:border-neon-blue transition-colors"
+        />
+        <button
+          type="submit"
+          disabled={!prompt.trim() || !hasMask}
+          className="px-6 py-3 bg-neon-blue text-black font-bold text-xs uppercase tracking-wider rounded-lg hover:bg-white transition-colors disabled:bg-gray-800 disabled:text-gray-500"
+        >
+          Apply to Mask
+        </button>
+      </form>
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { FIELD_LIMITS } from '../server/formRules.js';
+import { SubmissionError, subscribeToNewsletter } from '../services/contactService';
+
+type Status = { kind: 'idle' } | { kind: 'sending' } | { kind: 'done'; message: string } | { kind: 'error'; message: string };
+
+export const NewsletterForm: React.FC = () => {
+  const [email, setEmail] = useState('');
+  const [honeypot, setHoneypot] = useState('');
+  const [status, setStatus] = useState<Status>({ kind: 'idle' });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setStatus({ kind: 'sending' });
+    try {
+      const alreadySubscribed = await subscribeToNewsletter(email, honeypot);
+      setEmail('');
+      setStatus({ kind: 'done', message: alreadySubscribed ? 'You are already on the list.' : 'Subscribed. Watch your inbox!' });
+    } catch (err) {
+      if (!(err instanceof SubmissionError)) console.error("Failed to subscribe", err);
+      const message = err instanceof SubmissionError ? (err.fields.email ?? err.message) : 'Subscription failed. Please try again.';
+      setStatus({ kind: 'error', message });
+    }
+  };
+
+  return (
+    <form className="space-y-2" onSubmit={handleSubmit} noValidate>
+      <div className="flex gap-2">
+        <input
+          type="email"
+          autoComplete="email"
+          maxLength={FIELD_LIMITS.email}
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Email address"
+          aria-label="Email address"
+          className="bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-xs w-full focus:outline-none focus:border-neon-purple transition-colors"
+        />
+        <input
+          type="text"
+          tabIndex={-1}
+          autoComplete="off"
+          aria-hidden="true"
+          value={honeypot}
+          onChange={(e) => setHoneypot(e.target.value)}
+          className="absolute -left-[10000px] w-px h-px opacity-0"
+        />
+        <button
+          disabled={status.kind === 'sending'}
+          className="bg-neon-purple px-3 py-2 rounded-lg text-xs font-bold text-white hover:bg-neon-purple/80 transition-all uppercase tracking-tighter disabled:opacity-50"
+        >
+          {status.kind === 'sending' ? '...' : 'Join'}
+        </button>
+      </div>
+      {status.kind === 'done' && <p className="text-xs text-green-400">{status.message}</p>}
+      {status.kind === 'error' && <p role="alert" className="text-xs text-red-400">{status.message}</p>}
+    </form>
+  );
+};
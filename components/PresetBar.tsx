@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { PromptPreset } from '../types';
+import { extractVariables, fillTemplate } from '../services/presetService';
+
+interface PresetBarProps {
+  presets: PromptPreset[];
+  styleId: string | null;
+  onStyleChange: (id: string | null) => void;
+  avoid: string;
+  onAvoidChange: (avoid: string) => void;
+  onInsertTemplate: (text: string) => void;
+  onManage: () => void;
+}
+
+export const PresetBar: React.FC<PresetBarProps> = ({
+  presets,
+  styleId,
+  onStyleChange,
+  avoid,
+  onAvoidChange,
+  onInsertTemplate,
+  onManage,
+}) => {
+  const [templateId, setTemplateId] = useState('');
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const styles = presets.filter(preset => preset.kind === 'style');
+  const templates = presets.filter(preset => preset.kind === 'template');
+  const template = templates.find(preset => preset.id === templateId);
+  const variables = template ? extractVariables(template.text) : [];
+  const activeStyle = styles.find(preset => preset.id === styleId);
+
+  const chipClass = (active: boolean) => `px-3 py-1.5 rounded-full text-[11px] font-bold transition-all border ${
+    active
+      ? 'bg-neon-purple/20 text-neon-purple border-neon-purple/60'
+      : 'bg-white/5 border-white/10 text-gray-500 hover:border-white/20'
+  }`;
+
+  const insertTemplate = () => {
+    if (!template) return;
+    onInsertTemplate(fillTemplate(template.text, values));
+    setTemplateId('');
+    setValues({});
+  };
+
+  return (
+    <div className="space-y-3 px-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-[10px] font-bold text-gray-600 uppercase tracking-widest mr-1">Style</span>
+        <button type="button" onClick={() => onStyleChange(null)} className={chipClass(!activeStyle)}>
+          None
+        </button>
+        {styles.map((style) => (
+          <button
+            key={style.id}
+            type="button"
+            onClick={() => onStyleChange(style.id)}
+            title={style.text}
+            className={chipClass(style.id === styleId)}
+          >
+            {style.name}
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={onManage}
+          className="ml-auto text-[10px] font-bold text-gray-500 hover:text-neon-blue uppercase tracking-widest transition-colors"
+        >
+          Manage Presets
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={templateId}
+          onChange={(e) => {
+            setTemplateId(e.target.value);
+            setValues({});
+          }}
+          className="bg-gray-900 border border-white/10 rounded-full px-3 py-1.5 text-[11px] font-bold text-gray-400 focus:outline-none focus:border-neon-blue"
+        >
+          <option value="">Insert template...</option>
+          {templates.map((preset) => (
+            <option key={preset.id} value={preset.id}>{preset.name}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={avoid}
+          onChange={(e) => onAvoidChange(e.target.value)}
+          placeholder={activeStyle?.avoid ? `Avoid (style already avoids: ${activeStyle.avoid})` : 'Avoid, e.g. text, watermark, extra fingers'}
+          className="flex-grow min-w-[200px] bg-white/5 border border-white/10 rounded-full px-4 py-1.5 text-xs text-gray-300 focus:outline-none focus:border-neon-blue transition-colors"
+        />
+      </div>
+
+      {template && (
+        <div className="flex flex-wrap items-end gap-2 p-3 rounded-2xl bg-white/5 border border-white/10 animate-fade-in">
+          <p className="w-full text-xs text-gray-500 italic mb-1">{template.text}</p>
+          {variables.map((name) => (
+            <label key={name} className="flex flex-col gap-1 text-[10px] font-bold text-gray-500 uppercase tracking-widest">
+              {name}
+              <input
+                type="text"
+                value={values[name] ?? ''}
+                onChange={(e) => setValues(prev => ({ ...prev, [name]: e.target.value }))}
+                className="bg-gray-900 border border-white/10 rounded-lg px-3 py-1.5 text-xs normal-case tracking-normal font-normal text-white focus:outline-none focus:border-neon-blue"
+              />
+            </label>
+          ))}
+          <button
+            type="button"
+            onClick={insertTemplate}
+            className="px-4 py-1.5 rounded-lg bg-neon-blue text-black text-xs font-bold uppercase tracking-wider hover:bg-white transition-colors"
+          >
+            Use Template
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+import React, { useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { PresetKind, PromptPreset } from '../types';
+import { exportPresets, parsePresetFile } from '../services/presetService';
+import { downloadBlob } from '../services/downloadService';
+
+interface PresetManagerProps {
+  presets: PromptPreset[];
+  onSave: (preset: PromptPreset) => void;
+  onDelete: (id: string) => void;
+  onImport: (presets: PromptPreset[]) => void;
+  onClose: () => void;
+}
+
+const EMPTY_DRAFT: PromptPreset = { id: '', name: '', kind: 'style', text: '', avoid: '' };
+
+export const PresetManager: React.FC<PresetManagerProps> = ({ presets, onSave, onDelete, onImport, onClose }) => {
+  const [draft, setDraft] = useState<PromptPreset>(EMPTY_DRAFT);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const userPresets = presets.filter(preset => !preset.builtIn);
+  const inputClass = 'w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-neon-blue transition-colors';
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.name.trim() || !draft.text.trim()) return;
+    onSave({
+      ...draft,
+      id: draft.id || Math.random().toString(36).substr(2, 9),
+      name: draft.name.trim(),
+      avoid: draft.avoid?.trim() || undefined,
+    });
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([exportPresets(presets)], { type: 'application/json' }), 'text2image-presets.json');
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parsePresetFile(await file.text());
+      onImport(imported);
+      setMessage(`Imported ${imported.length} preset${imported.length === 1 ? '' : 's'}.`);
+    } catch (err: any) {
+      setMessage(err.message);
+    }
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-md flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div
+        className="glass-dark w-full max-w-2xl max-h-[90vh] overflow-y-auto rounded-3xl border border-white/10 p-8 space-y-8"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="font-orbitron font-bold tracking-widest text-neon-blue">PRESETS</h3>
+          <div className="flex items-center gap-4 text-xs font-bold uppercase tracking-widest">
+            <button onClick={() => fileRef.current?.click()} className="text-gray-500 hover:text-neon-blue transition-colors">Import</button>
+            <button onClick={handleExport} disabled={userPresets.length === 0} className="text-gray-500 hover:text-neon-blue transition-colors disabled:opacity-30">Export</button>
+            <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors">Close</button>
+            <input
+              ref={fileRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+        </div>
+
+        {message && <p className="text-xs text-gray-400">{message}</p>}
+
+        <div className="space-y-2">
+          {userPresets.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">No saved presets yet. Built-in styles and templates are always available.</p>
+          ) : userPresets.map((preset) => (
+            <div key={preset.id} className="flex items-start gap-4 p-3 rounded-xl bg-white/5 border border-white/5">
+              <div className="flex-grow min-w-0">
+                <p className="text-sm text-white font-bold">
+                  {preset.name}
+                  <span className="ml-2 text-[10px] font-mono uppercase text-gray-500">{preset.kind}</span>
+                </p>
+                <p className="text-xs text-gray-500 truncate">{preset.text}</p>
+              </div>
+              <button onClick={() => setDraft({ ...EMPTY_DRAFT, ...preset })} className="text-xs text-gray-500 hover:text-neon-blue uppercase tracking-widest font-bold">Edit</button>
+              <button onClick={() => onDelete(preset.id)} className="text-xs text-gray-500 hover:text-red-400 uppercase tracking-widest font-bold">Delete</button>
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-3 pt-6 border-t border-white/10">
+          <h4 className="text-xs font-orbitron font-bold text-gray-500 uppercase tracking-widest">
+            {draft.id ? 'Edit Preset' : 'New Preset'}
+          </h4>
+          <div className="flex gap-3">
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Name, e.g. House Style"
+              className={inputClass}
+            />
+            <select
+              value={draft.kind}
+              onChange={(e) => setDraft({ ...draft, kind: e.target.value as PresetKind })}
+              className="bg-gray-900 border border-white/10 rounded-lg px-3 text-sm text-gray-300 focus:outline-none focus:border-neon-blue"
+            >
+              <option value="style">Style</option>
+              <option value="template">Template</option>
+            </select>
+          </div>
+          <textarea
+            rows={3}
+            value={draft.text}
+            onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+            placeholder={draft.kind === 'style'
+              ? 'Modifiers appended to every prompt, e.g. "flat vector art, bold outlines, brand palette"'
+              : 'Prompt with placeholders, e.g. "A {color} {subject} on a white desk"'}
+            className={`${inputClass} resize-none`}
+          />
+          <input
+            type="text"
+            value={draft.avoid ?? ''}
+            onChange={(e) => setDraft({ ...draft, avoid: e.target.value })}
+            placeholder="Avoid (optional), e.g. gradients, drop shadows"
+            className={inputClass}
+          />
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              disabled={!draft.name.trim() || !draft.text.trim()}
+              className="px-6 py-2 bg-neon-blue text-black font-bold text-xs uppercase tracking-wider rounded-lg hover:bg-white transition-colors disabled:bg-gray-800 disabled:text-gray-500"
+            >
+              {draft.id ? 'Save Changes' : 'Save Preset'}
+            </button>
+            {draft.id && (
+              <button type="button" onClick={() => setDraft(EMPTY_DRAFT)} className="text-xs text-gray-500 hover:text-white uppercase tracking-widest font-bold">
+                Cancel
+              </button>
+            )}
+          </div>
+        </form>
+      </div>
+    </div>,
+    document.body
+  );
+};
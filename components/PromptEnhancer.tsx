@@ -0,0 +1,166 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { AspectRatio, PromptPreset } from '../types';
+import { enhancePrompt } from '../services/geminiService';
+import { ErrorNotice, isAbortError, toErrorNotice } from '../services/errors';
+import { diffWords } from '../services/textDiff';
+
+interface PromptEnhancerProps {
+  draft: string;
+  aspectRatio: AspectRatio;
+  style?: PromptPreset;
+  onAccept: (prompt: string) => void;
+  onClose: () => void;
+}
+
+interface Candidate {
+  id: string;
+  text: string;
+  editing: boolean;
+}
+
+const DIFF_CLASSES = {
+  same: 'text-gray-300',
+  added: 'text-green-300 bg-green-500/15 rounded px-0.5',
+  removed: 'text-red-400/70 line-through decoration-red-400/70',
+};
+
+const DiffView: React.FC<{ before: string; after: string }> = ({ before, after }) => (
+  <p className="text-sm leading-relaxed">
+    {diffWords(before, after).map((token, i) => (
+      <React.Fragment key={i}>
+        {i > 0 && ' '}
+        <span className={DIFF_CLASSES[token.kind]}>{token.text}</span>
+      </React.Fragment>
+    ))}
+  </p>
+);
+
+export const PromptEnhancer: React.FC<PromptEnhancerProps> = ({ draft, aspectRatio, style, onAccept, onClose }) => {
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<ErrorNotice | null>(null);
+  const controller = useRef<AbortController | null>(null);
+
+  const run = useCallback(async () => {
+    controller.current?.abort();
+    const current = new AbortController();
+    controller.current = current;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const results = await enhancePrompt(draft, aspectRatio, { style, signal: current.signal });
+      setCandidates(results.map(text => ({ id: Math.random().toString(36).substr(2, 9), text, editing: false })));
+    } catch (err) {
+      if (!current.signal.aborted && !isAbortError(err)) {
+        setError(toErrorNotice(err, 'Enhancement failed'));
+      }
+    } finally {
+      if (!current.signal.aborted) setIsLoading(false);
+    }
+  }, [draft, aspectRatio, style]);
+
+  useEffect(() => {
+    run();
+    return () => controller.current?.abort();
+  }, [run]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const update = (id: string, changes: Partial<Candidate>) =>
+    setCandidates(prev => prev.map(candidate => candidate.id === id ? { ...candidate, ...changes } : candidate));
+
+  const reject = (id: string) => setCandidates(prev => prev.filter(candidate => candidate.id !== id));
+
+  return createPortal(
+    <aside className="fixed inset-y-0 right-0 z-50 w-full max-w-md glass-dark border-l border-white/10 shadow-2xl flex flex-col animate-fade-in">
+      <div className="p-6 border-b border-white/10 flex items-center justify-between">
+        <h3 className="font-orbitron font-bold text-lg tracking-widest text-neon-blue">ENHANCE</h3>
+        <button onClick={onClose} className="text-gray-500 hover:text-white" title="Close">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-grow overflow-y-auto p-6 space-y-6">
+        <div className="space-y-2">
+          <p className="text-[10px] uppercase tracking-widest font-bold text-gray-500">Your prompt</p>
+          <p className="text-sm text-gray-400">{draft}</p>
+          <p className="text-[10px] text-gray-600 font-mono">{aspectRatio}{style && ` · ${style.name}`}</p>
+        </div>
+
+        {isLoading && (
+          <div className="space-y-4">
+            {[0, 1, 2].map((i) => (
+              <div key={i} className="h-24 rounded-2xl bg-white/5 animate-pulse" />
+            ))}
+          </div>
+        )}
+
+        {!isLoading && error && (
+          <div className="p-4 bg-red-500/10 border border-red-500/50 rounded-2xl text-sm text-red-400 space-y-1">
+            <p className="font-bold">{error.title}</p>
+            <p className="text-red-400/80">{error.message}</p>
+            {error.hint && <p className="text-gray-500 text-xs">{error.hint}</p>}
+          </div>
+        )}
+
+        {!isLoading && !error && candidates.length === 0 && (
+          <p className="text-sm text-gray-500 text-center py-6">All suggestions rejected. Try again for new ones.</p>
+        )}
+
+        {!isLoading && candidates.map((candidate, index) => (
+          <div key={candidate.id} className="p-4 rounded-2xl border border-white/10 bg-white/5 space-y-3">
+            <p className="text-[10px] uppercase tracking-widest font-bold text-gray-500">Suggestion {index + 1}</p>
+            {candidate.editing ? (
+              <textarea
+                autoFocus
+                value={candidate.text}
+                onChange={(e) => update(candidate.id, { text: e.target.value })}
+                rows={6}
+                className="w-full bg-white/5 border border-white/10 rounded-xl p-3 text-sm text-white resize-none focus:outline-none focus:border-neon-blue"
+              />
+            ) : (
+              <DiffView before={draft} after={candidate.text} />
+            )}
+            <div className="flex justify-end gap-4 text-xs uppercase tracking-widest font-bold">
+              <button onClick={() => reject(candidate.id)} className="text-gray-500 hover:text-red-400">Reject</button>
+              <button onClick={() => update(candidate.id, { editing: !candidate.editing })} className="text-gray-500 hover:text-white">
+                {candidate.editing ? 'Show changes' : 'Edit'}
+              </button>
+              <button
+                onClick={() => onAccept(candidate.text.trim())}
+                disabled={!candidate.text.trim()}
+                className="text-neon-blue hover:text-white disabled:text-gray-600"
+              >
+                Use
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="p-6 border-t border-white/10 flex justify-between items-center">
+        <div className="flex gap-3 text-[10px] text-gray-500">
+          <span className={DIFF_CLASSES.added}>added</span>
+          <span className={DIFF_CLASSES.removed}>removed</span>
+        </div>
+        <button
+          onClick={run}
+          disabled={isLoading}
+          className="px-5 py-2 border border-white/10 text-gray-300 font-bold text-xs uppercase tracking-wider rounded-lg hover:border-neon-blue hover:text-neon-blue transition-colors disabled:opacity-40"
+        >
+          Try again
+        </button>
+      </div>
+    </aside>,
+    document.body
+  );
+};
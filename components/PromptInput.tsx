@@ -0,0 +1,104 @@
+import React, { useMemo, useState } from 'react';
+import { matchHistory } from '../services/promptHistory';
+
+interface PromptInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Earlier prompts, most recent first
+  history: string[];
+  placeholder: string;
+  className: string;
+  // Off in batch mode, where every line is a prompt of its own
+  suggest?: boolean;
+}
+
+const LIST_ID = 'prompt-history-suggestions';
+
+export const PromptInput: React.FC<PromptInputProps> = ({ value, onChange, history, placeholder, className, suggest = true }) => {
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(-1);
+
+  const suggestions = useMemo(() => matchHistory(history, value), [history, value]);
+  const showList = suggest && open && suggestions.length > 0;
+
+  const close = () => {
+    setOpen(false);
+    setActive(-1);
+  };
+
+  const pick = (suggestion: string) => {
+    onChange(suggestion);
+    close();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!showList) {
+      // With the caret at the end, Down opens the history instead of moving through lines
+      if (e.key === 'ArrowDown' && e.currentTarget.selectionStart === value.length) {
+        e.preventDefault();
+        setOpen(true);
+        setActive(0);
+      }
+      return;
+    }
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActive(prev => (prev + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActive(prev => (prev <= 0 ? suggestions.length : prev) - 1);
+    } else if ((e.key === 'Enter' || e.key === 'Tab') && active >= 0) {
+      e.preventDefault();
+      pick(suggestions[active]);
+    } else if (e.key === 'Escape') {
+      close();
+    }
+  };
+
+  return (
+    <>
+      <textarea
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(!!e.target.value.trim());
+          setActive(-1);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={close}
+        placeholder={placeholder}
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={showList}
+        aria-controls={LIST_ID}
+        aria-activedescendant={showList && active >= 0 ? `${LIST_ID}-${active}` : undefined}
+        className={className}
+      />
+      {showList && (
+        <ul
+          id={LIST_ID}
+          role="listbox"
+          className="absolute left-0 right-0 top-full mt-2 z-20 glass-dark border border-white/10 rounded-2xl overflow-hidden shadow-2xl"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion}
+              id={`${LIST_ID}-${index}`}
+              role="option"
+              aria-selected={index === active}
+              // Keep focus in the textarea so the pick lands there
+              onMouseDown={(e) => {
+                e.preventDefault();
+                pick(suggestion);
+              }}
+              onMouseEnter={() => setActive(index)}
+              className={`px-6 py-2.5 text-sm truncate cursor-pointer ${index === active ? 'bg-neon-blue/15 text-white' : 'text-gray-400'}`}
+            >
+              {suggestion}
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
+  );
+};
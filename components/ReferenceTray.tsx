@@ -0,0 +1,89 @@
+import React, { useRef } from 'react';
+import { ReferenceImage, ReferenceRole } from '../types';
+
+interface ReferenceTrayProps {
+  references: ReferenceImage[];
+  maxReferences: number;
+  onAddFiles: (files: File[]) => void;
+  onChangeRole: (id: string, role: ReferenceRole) => void;
+  onRemove: (id: string) => void;
+}
+
+const ROLES: { id: ReferenceRole; label: string }[] = [
+  { id: 'reference', label: 'Reference' },
+  { id: 'subject', label: 'Subject' },
+  { id: 'style', label: 'Style' },
+  { id: 'composition', label: 'Composition' },
+];
+
+export const ReferenceTray: React.FC<ReferenceTrayProps> = ({
+  references,
+  maxReferences,
+  onAddFiles,
+  onChangeRole,
+  onRemove,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  if (maxReferences === 0) {
+    return references.length > 0 ? (
+      <p className="px-2 text-xs text-yellow-400/80">
+        This provider does not take reference images; the {references.length} attached will be ignored.
+      </p>
+    ) : null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 px-2">
+      {references.map((reference) => (
+        <div key={reference.id} className="flex items-center gap-2 p-1 pr-2 rounded-xl bg-white/5 border border-white/10">
+          <img src={reference.url} alt={reference.name} className="w-10 h-10 rounded-lg object-cover" />
+          <select
+            value={reference.role}
+            onChange={(e) => onChangeRole(reference.id, e.target.value as ReferenceRole)}
+            title={reference.name}
+            className="bg-gray-900 border border-white/10 rounded-lg px-2 py-1 text-[10px] font-bold uppercase tracking-widest text-gray-300 focus:outline-none focus:border-neon-blue"
+          >
+            {ROLES.map(({ id, label }) => (
+              <option key={id} value={id}>{label}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => onRemove(reference.id)}
+            className="text-gray-500 hover:text-red-400 transition-colors"
+            title="Remove reference"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      ))}
+
+      {references.length < maxReferences && (
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          className="flex items-center gap-2 px-4 py-2 rounded-full border border-dashed border-white/20 text-xs font-bold text-gray-500 hover:text-neon-blue hover:border-neon-blue/50 transition-colors uppercase tracking-widest"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+          </svg>
+          Reference ({references.length}/{maxReferences})
+        </button>
+      )}
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          onAddFiles(Array.from(e.target.files ?? []));
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+};
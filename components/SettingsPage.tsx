@@ -0,0 +1,258 @@
+import React, { useEffect, useState } from 'react';
+import { AppSettings, AspectRatio, KeyStorage } from '../types';
+import {
+  CANDIDATE_COUNTS,
+  DEFAULT_SETTINGS,
+  apiKeyStorage,
+  getApiKey,
+  loadSettings,
+  saveApiKey,
+  saveSettings,
+  subscribeToSettings,
+} from '../services/settingsService';
+import { DEFAULT_PROVIDER_ID, getProvider, hasProvider, listProviders } from '../services/providers/registry';
+import { GEMINI_TEXT_MODEL, GEMINI_TEXT_MODELS } from '../services/providers/geminiProvider';
+
+const ASPECT_RATIOS: AspectRatio[] = ['1:1', '16:9', '9:16', '4:3', '3:4'];
+
+// The largest seed the proxy and the backends accept
+const MAX_SEED = 2 ** 31 - 1;
+
+const chipClass = (active: boolean) => `px-3 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest transition-all border ${
+  active ? 'bg-neon-blue text-black border-neon-blue' : 'bg-white/5 border-white/10 text-gray-400 hover:border-white/20'
+}`;
+
+const inputClass = 'w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-neon-blue';
+
+const sectionTitle = 'text-[10px] uppercase tracking-widest font-bold text-gray-500';
+
+// Only the end of a key is ever shown
+const maskKey = (key: string) => `••••${key.slice(-4)}`;
+
+function parseNumber(value: string): number | null {
+  const number = parseFloat(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+export const SettingsPage: React.FC = () => {
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [savedKey, setSavedKey] = useState(getApiKey);
+  const [keyDraft, setKeyDraft] = useState('');
+  const [keyStorage, setKeyStorage] = useState<KeyStorage>(apiKeyStorage() ?? 'session');
+  const [saved, setSaved] = useState<'key' | 'settings' | null>(null);
+  const [keyError, setKeyError] = useState<string | null>(null);
+
+  // A device key is decrypted after the page may already have rendered
+  useEffect(() => subscribeToSettings(() => setSavedKey(getApiKey())), []);
+
+  const providerId = settings.provider && hasProvider(settings.provider) ? settings.provider : DEFAULT_PROVIDER_ID;
+  const provider = getProvider(providerId);
+  const model = settings.model && provider.models.includes(settings.model) ? settings.model : provider.defaultModel;
+
+  const update = (changes: Partial<AppSettings>) => setSettings(prev => ({ ...prev, ...changes }));
+
+  const flashSaved = (what: 'key' | 'settings') => {
+    setSaved(what);
+    setTimeout(() => setSaved(null), 2000);
+  };
+
+  const handleSaveKey = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!keyDraft.trim()) return;
+    setKeyError(null);
+    try {
+      await saveApiKey(keyDraft, keyStorage);
+      setKeyDraft('');
+      flashSaved('key');
+    } catch (err) {
+      console.error("Failed to save API key", err);
+      setKeyError('The key could not be encrypted in this browser. Keep it for this tab only instead.');
+    }
+  };
+
+  const handleRemoveKey = async () => {
+    await saveApiKey('', keyStorage);
+    setKeyDraft('');
+  };
+
+  const handleSaveSettings = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveSettings({ ...settings, provider: providerId, model });
+    flashSaved('settings');
+  };
+
+  const handleReset = () => {
+    setSettings(DEFAULT_SETTINGS);
+    saveSettings(DEFAULT_SETTINGS);
+    flashSaved('settings');
+  };
+
+  return (
+    <div className="animate-fade-in space-y-10 max-w-3xl mx-auto">
+      <div>
+        <h2 className="text-4xl font-orbitron font-bold text-neon-blue">Settings</h2>
+        <p className="text-sm text-gray-500 mt-2">
+          Stored in this browser only. Changes apply to the next request; jobs already running keep their settings.
+        </p>
+      </div>
+
+      <form onSubmit={handleSaveKey} className="p-6 rounded-3xl glass border border-white/5 space-y-4">
+        <h3 className={sectionTitle}>Gemini API key</h3>
+        <p className="text-xs text-gray-500">
+          {savedKey
+            ? `Requests use your key (${maskKey(savedKey)}), ${apiKeyStorage() === 'device' ? 'remembered encrypted on this device' : 'kept for this tab only'}.`
+            : "Requests use this deployment's key. Enter your own to use your quota and billing instead; on a shared deployment it is sent with each request and never stored by the server."}
+        </p>
+        <input
+          type="password"
+          value={keyDraft}
+          onChange={(e) => setKeyDraft(e.target.value)}
+          placeholder={savedKey ? 'Enter a new key to replace it' : 'AIza...'}
+          autoComplete="off"
+          spellCheck={false}
+          className={`${inputClass} font-mono`}
+        />
+        <div className="flex flex-wrap gap-6 text-xs text-gray-400">
+          <label className="flex items-center gap-2">
+            <input type="radio" checked={keyStorage === 'session'} onChange={() => setKeyStorage('session')} />
+            This tab only (forgotten when it closes)
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="radio" checked={keyStorage === 'device'} onChange={() => setKeyStorage('device')} />
+            Remember on this device (encrypted)
+          </label>
+        </div>
+        {keyError && <p className="text-xs text-red-400">{keyError}</p>}
+        <div className="flex justify-between items-center gap-4">
+          {savedKey ? (
+            <button type="button" onClick={handleRemoveKey} className="text-xs text-gray-500 hover:text-red-400 uppercase tracking-widest font-bold">
+              Remove key
+            </button>
+          ) : <span />}
+          <div className="flex items-center gap-4">
+            {saved === 'key' && <span className="text-xs text-neon-blue">Saved</span>}
+            <button
+              type="submit"
+              disabled={!keyDraft.trim()}
+              className="px-5 py-2 bg-neon-blue text-black font-bold text-xs uppercase tracking-wider rounded-lg hover:bg-white transition-colors disabled:opacity-40"
+            >
+              Save key
+            </button>
+          </div>
+        </div>
+      </form>
+
+      <form onSubmit={handleSaveSettings} className="p-6 rounded-3xl glass border border-white/5 space-y-6">
+        <h3 className={sectionTitle}>Defaults</h3>
+
+        <div className="grid md:grid-cols-3 gap-4">
+          <label className="space-y-1 text-xs text-gray-400">
+            <span>Image provider</span>
+            <select
+              value={providerId}
+              onChange={(e) => update({ provider: e.target.value, model: null })}
+              className={`${inputClass} bg-gray-900`}
+            >
+              {listProviders().map((option) => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1 text-xs text-gray-400">
+            <span>Image model</span>
+            <select value={model} onChange={(e) => update({ model: e.target.value })} className={`${inputClass} bg-gray-900 font-mono`}>
+              {provider.models.map((name) => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1 text-xs text-gray-400">
+            <span>Text model (enhance, describe)</span>
+            <select
+              value={settings.textModel ?? GEMINI_TEXT_MODEL}
+              onChange={(e) => update({ textModel: e.target.value })}
+              className={`${inputClass} bg-gray-900 font-mono`}
+            >
+              {GEMINI_TEXT_MODELS.map((name) => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs text-gray-400">Aspect ratio</p>
+          <div className="flex flex-wrap gap-2">
+            {ASPECT_RATIOS.map((ratio) => (
+              <button key={ratio} type="button" onClick={() => update({ aspectRatio: ratio })} className={chipClass(settings.aspectRatio === ratio)}>
+                {ratio}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid md:grid-cols-3 gap-4">
+          <label className="space-y-1 text-xs text-gray-400">
+            <span>Images per prompt</span>
+            <select
+              value={settings.candidateCount}
+              onChange={(e) => update({ candidateCount: Number(e.target.value) })}
+              className={`${inputClass} bg-gray-900`}
+            >
+              {CANDIDATE_COUNTS.map((count) => (
+                <option key={count} value={count}>{count}</option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1 text-xs text-gray-400">
+            <span>Temperature (0–2)</span>
+            <input
+              type="number"
+              min={0}
+              max={2}
+              step="0.1"
+              value={settings.temperature ?? ''}
+              onChange={(e) => {
+                const temperature = parseNumber(e.target.value);
+                update({ temperature: temperature === null ? null : Math.min(2, Math.max(0, temperature)) });
+              }}
+              placeholder="Model default"
+              className={inputClass}
+            />
+          </label>
+          <label className="space-y-1 text-xs text-gray-400">
+            <span>Seed</span>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={settings.seed ?? ''}
+              onChange={(e) => {
+                const seed = parseNumber(e.target.value);
+                update({ seed: seed === null ? null : Math.min(MAX_SEED, Math.max(0, Math.round(seed))) });
+              }}
+              placeholder="Random"
+              className={inputClass}
+            />
+          </label>
+        </div>
+        <p className="text-xs text-gray-500">
+          Temperature and seed apply where the backend supports them: Gemini takes both, Stable Diffusion the seed, OpenAI neither.
+          With a fixed seed, several images of the same prompt may come out alike.
+        </p>
+
+        <div className="flex justify-between items-center gap-4">
+          <button type="button" onClick={handleReset} className="text-xs text-gray-500 hover:text-white uppercase tracking-widest font-bold">
+            Reset to defaults
+          </button>
+          <div className="flex items-center gap-4">
+            {saved === 'settings' && <span className="text-xs text-neon-blue">Saved</span>}
+            <button type="submit" className="px-5 py-2 bg-neon-blue text-black font-bold text-xs uppercase tracking-wider rounded-lg hover:bg-white transition-colors">
+              Save settings
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { StorageUsage } from '../services/storageService';
+
+interface StorageMeterProps {
+  usage: StorageUsage;
+  onEvict: (count: number) => void;
+}
+
+const EVICT_OPTIONS = [10, 25, 50];
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+export const StorageMeter: React.FC<StorageMeterProps> = ({ usage, onEvict }) => {
+  const [evictCount, setEvictCount] = useState(EVICT_OPTIONS[0]);
+  const percent = usage.usedBytes !== null && usage.quotaBytes
+    ? Math.min(100, (usage.usedBytes / usage.quotaBytes) * 100)
+    : null;
+
+  return (
+    <div className="mb-8 p-4 rounded-2xl glass border border-white/5 flex flex-col md:flex-row md:items-center gap-4 text-xs">
+      <div className="flex-grow space-y-2">
+        <div className="flex justify-between text-gray-500 uppercase tracking-widest font-bold">
+          <span>Storage</span>
+          <span className="font-mono normal-case tracking-normal">
+            {formatBytes(usage.galleryBytes)} in {usage.imageCount} images
+            {usage.quotaBytes !== null && ` · ${formatBytes(usage.usedBytes ?? 0)} of ${formatBytes(usage.quotaBytes)} used`}
+          </span>
+        </div>
+        {percent !== null && (
+          <div className="h-1.5 rounded-full bg-white/5 overflow-hidden">
+            <div
+              className={`h-full rounded-full ${percent > 80 ? 'bg-red-400' : 'bg-gradient-to-r from-neon-blue to-neon-purple'}`}
+              style={{ width: `${Math.max(percent, 1)}%` }}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2 shrink-0">
+        <select
+          value={evictCount}
+          onChange={(e) => setEvictCount(Number(e.target.value))}
+          className="bg-gray-900 border border-white/10 rounded-lg px-2 py-1 text-gray-300 focus:outline-none focus:border-neon-blue"
+        >
+          {EVICT_OPTIONS.map((count) => (
+            <option key={count} value={count}>Oldest {count}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => onEvict(evictCount)}
+          className="px-3 py-1 rounded-lg border border-white/10 text-gray-500 hover:text-red-400 hover:border-red-400/50 transition-colors uppercase tracking-widest font-bold"
+        >
+          Free Space
+        </button>
+      </div>
+    </div>
+  );
+};
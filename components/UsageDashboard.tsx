@@ -0,0 +1,346 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BudgetLimits, PriceTable, UsageRecord } from '../types';
+import { loadUsageRecords } from '../services/storageService';
+import {
+  BudgetStatus,
+  DEFAULT_PRICES,
+  checkBudget,
+  clearUsageLog,
+  formatCost,
+  loadBudgets,
+  loadPriceTable,
+  saveBudgets,
+  savePriceTable,
+  startOfDay,
+  subscribeToUsage,
+  summarizeUsage,
+  usageToCsv,
+} from '../services/usageService';
+import { listProviders } from '../services/providers/registry';
+import { downloadBlob } from '../services/downloadService';
+
+const RANGES = [7, 30, 90];
+const MODEL_COLORS = ['bg-neon-blue', 'bg-neon-purple', 'bg-emerald-400', 'bg-amber-400', 'bg-pink-400', 'bg-gray-400'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const BUDGET_FIELDS: { key: keyof BudgetLimits; label: string }[] = [
+  { key: 'dailySoft', label: 'Daily warning' },
+  { key: 'dailyHard', label: 'Daily limit' },
+  { key: 'monthlySoft', label: 'Monthly warning' },
+  { key: 'monthlyHard', label: 'Monthly limit' },
+];
+
+const PRICE_FIELDS = [
+  { key: 'inputPerMillion', label: 'Input / 1M tokens' },
+  { key: 'outputPerMillion', label: 'Output / 1M tokens' },
+  { key: 'perImage', label: 'Per image' },
+] as const;
+
+const chipClass = (active: boolean) => `px-3 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest transition-all border ${
+  active ? 'bg-neon-blue text-black border-neon-blue' : 'bg-white/5 border-white/10 text-gray-400 hover:border-white/20'
+}`;
+
+const numberInputClass = 'w-full bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-neon-blue';
+
+const sectionTitle = 'text-[10px] uppercase tracking-widest font-bold text-gray-500';
+
+function parseAmount(value: string): number | null {
+  const amount = parseFloat(value);
+  return Number.isFinite(amount) && amount >= 0 ? amount : null;
+}
+
+function formatTokens(count: number): string {
+  if (count < 1000) return String(count);
+  if (count < 1e6) return `${(count / 1000).toFixed(1)}k`;
+  return `${(count / 1e6).toFixed(2)}M`;
+}
+
+export const UsageDashboard: React.FC = () => {
+  const [days, setDays] = useState(RANGES[1]);
+  const [records, setRecords] = useState<UsageRecord[] | null>(null);
+  const [budget, setBudget] = useState<BudgetStatus | null>(null);
+  const [budgets, setBudgets] = useState<BudgetLimits>(loadBudgets);
+  const [prices, setPrices] = useState<PriceTable>(loadPriceTable);
+  const [saved, setSaved] = useState<'budgets' | 'prices' | null>(null);
+
+  const from = startOfDay(Date.now() - (days - 1) * DAY_MS);
+
+  useEffect(() => {
+    const refresh = () => {
+      loadUsageRecords(from).then(setRecords).catch(e => console.error("Failed to load usage", e));
+      checkBudget().then(setBudget).catch(e => console.error("Failed to check budget", e));
+    };
+    refresh();
+    return subscribeToUsage(refresh);
+  }, [from]);
+
+  const summary = useMemo(() => summarizeUsage(records ?? [], from), [records, from]);
+  const colorOf = useMemo(() => {
+    const colors = new Map(summary.models.map((model, i) => [model.model, MODEL_COLORS[Math.min(i, MODEL_COLORS.length - 1)]]));
+    return (model: string) => colors.get(model) ?? MODEL_COLORS[MODEL_COLORS.length - 1];
+  }, [summary]);
+
+  const pricedModels = useMemo(() => Array.from(new Set([
+    ...Object.keys(DEFAULT_PRICES),
+    ...listProviders().flatMap(provider => provider.models),
+    ...Object.keys(prices),
+    ...summary.models.map(model => model.model),
+  ])), [prices, summary]);
+
+  const maxDayCost = Math.max(...summary.days.map(day => day.cost), 0);
+  const maxModelCost = Math.max(...summary.models.map(model => model.cost), 0);
+
+  const flashSaved = (what: 'budgets' | 'prices') => {
+    setSaved(what);
+    setTimeout(() => setSaved(null), 2000);
+  };
+
+  const handleSaveBudgets = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveBudgets(budgets);
+    flashSaved('budgets');
+  };
+
+  const handleSavePrices = (e: React.FormEvent) => {
+    e.preventDefault();
+    savePriceTable(prices);
+    flashSaved('prices');
+  };
+
+  const handleResetPrices = () => {
+    setPrices(DEFAULT_PRICES);
+    savePriceTable(DEFAULT_PRICES);
+    flashSaved('prices');
+  };
+
+  const updatePrice = (model: string, field: typeof PRICE_FIELDS[number]['key'], value: string) => {
+    setPrices(prev => ({ ...prev, [model]: { ...prev[model], [field]: parseAmount(value) ?? undefined } }));
+  };
+
+  const handleExportCsv = () => {
+    downloadBlob(new Blob([usageToCsv(records ?? [])], { type: 'text/csv' }), `text2image-usage-${new Date().toLocaleDateString('en-CA')}.csv`);
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Delete the whole usage log? Budgets and prices are kept.')) return;
+    try {
+      await clearUsageLog();
+    } catch (e) {
+      console.error("Failed to clear usage", e);
+    }
+  };
+
+  const stats: [string, string][] = [
+    ['Estimated spend', formatCost(summary.cost)],
+    ['Requests', String(summary.requests)],
+    ['Failed', String(summary.failures)],
+    ['Tokens', formatTokens(summary.tokens)],
+  ];
+
+  return (
+    <div className="animate-fade-in space-y-10">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-6">
+        <div>
+          <h2 className="text-4xl font-orbitron font-bold text-neon-blue">Usage</h2>
+          <p className="text-sm text-gray-500 mt-2">
+            Every generation and edit made from this browser. Costs are estimates from the price table below.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {RANGES.map((range) => (
+            <button key={range} onClick={() => setDays(range)} className={chipClass(days === range)}>
+              {range} days
+            </button>
+          ))}
+          <button onClick={handleExportCsv} disabled={!records?.length} className={`${chipClass(false)} disabled:opacity-40`}>
+            Export CSV
+          </button>
+        </div>
+      </div>
+
+      {budget?.message && (
+        <div className={`p-4 rounded-2xl border text-sm ${
+          budget.level === 'blocked' ? 'bg-red-500/10 border-red-500/50 text-red-400' : 'bg-amber-500/10 border-amber-500/50 text-amber-400'
+        }`}>
+          <p className="font-bold">{budget.level === 'blocked' ? 'New jobs are blocked' : 'Approaching the budget'}</p>
+          <p className="opacity-80">{budget.message}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {stats.map(([label, value]) => (
+          <div key={label} className="p-5 rounded-2xl glass border border-white/5">
+            <p className={sectionTitle}>{label}</p>
+            <p className="text-2xl font-orbitron font-bold text-white mt-2">{value}</p>
+          </div>
+        ))}
+      </div>
+
+      {records === null ? (
+        <p className="py-10 text-center text-gray-500 animate-pulse">Loading usage...</p>
+      ) : summary.requests === 0 ? (
+        <p className="py-10 text-center text-gray-500">No requests in the last {days} days.</p>
+      ) : (
+        <div className="grid lg:grid-cols-[3fr_2fr] gap-6">
+          <div className="p-6 rounded-3xl glass border border-white/5 space-y-4">
+            <div className="flex justify-between">
+              <h3 className={sectionTitle}>Spend per day</h3>
+              <span className="text-xs font-mono text-gray-500">max {formatCost(maxDayCost)}</span>
+            </div>
+            <div className="h-48 flex items-end gap-[2px]">
+              {summary.days.map((day) => (
+                <div
+                  key={day.day}
+                  title={`${day.day}: ${formatCost(day.cost)} · ${day.requests} requests`}
+                  className="flex-1 h-full flex flex-col-reverse rounded-t overflow-hidden hover:opacity-80"
+                >
+                  {Object.entries<number>(day.byModel).map(([model, cost]) => (
+                    <div
+                      key={model}
+                      className={colorOf(model)}
+                      style={{ height: maxDayCost > 0 ? `${(cost / maxDayCost) * 100}%` : 0 }}
+                    />
+                  ))}
+                  {day.requests > 0 && day.cost === 0 && <div className="h-[2px] bg-white/20" />}
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between text-[10px] font-mono text-gray-600">
+              <span>{summary.days[0]?.day}</span>
+              <span>{summary.days[summary.days.length - 1]?.day}</span>
+            </div>
+          </div>
+
+          <div className="p-6 rounded-3xl glass border border-white/5 space-y-4">
+            <h3 className={sectionTitle}>Spend per model</h3>
+            <div className="space-y-3">
+              {summary.models.map((model) => (
+                <div key={model.model} className="space-y-1">
+                  <div className="flex justify-between text-xs">
+                    <span className="text-gray-300">{model.model} <span className="text-gray-600">· {model.provider}</span></span>
+                    <span className="font-mono text-gray-400">{formatCost(model.cost)}</span>
+                  </div>
+                  <div className="h-1.5 rounded-full bg-white/5 overflow-hidden">
+                    <div
+                      className={`h-full rounded-full ${colorOf(model.model)}`}
+                      style={{ width: `${maxModelCost > 0 ? Math.max((model.cost / maxModelCost) * 100, 1) : 1}%` }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="lg:col-span-2 p-6 rounded-3xl glass border border-white/5 overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className={sectionTitle}>
+                <tr>
+                  <th className="pb-3 font-bold">Model</th>
+                  <th className="pb-3 font-bold text-right">Requests</th>
+                  <th className="pb-3 font-bold text-right">Failed</th>
+                  <th className="pb-3 font-bold text-right">Input tokens</th>
+                  <th className="pb-3 font-bold text-right">Output tokens</th>
+                  <th className="pb-3 font-bold text-right">Avg latency</th>
+                  <th className="pb-3 font-bold text-right">Cost</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-300 font-mono">
+                {summary.models.map((model) => (
+                  <tr key={model.model} className="border-t border-white/5">
+                    <td className="py-2 font-sans">{model.model}</td>
+                    <td className="py-2 text-right">{model.requests}</td>
+                    <td className="py-2 text-right">{model.failures}</td>
+                    <td className="py-2 text-right">{formatTokens(model.inputTokens)}</td>
+                    <td className="py-2 text-right">{formatTokens(model.outputTokens)}</td>
+                    <td className="py-2 text-right">{(model.averageLatencyMs / 1000).toFixed(1)}s</td>
+                    <td className="py-2 text-right">{formatCost(model.cost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        <form onSubmit={handleSaveBudgets} className="p-6 rounded-3xl glass border border-white/5 space-y-4">
+          <div className="flex justify-between items-baseline">
+            <h3 className={sectionTitle}>Budgets (USD)</h3>
+            {budget && (
+              <span className="text-xs font-mono text-gray-500">
+                today {formatCost(budget.today)} · this month {formatCost(budget.month)}
+              </span>
+            )}
+          </div>
+          <p className="text-xs text-gray-500">Warnings show a banner. Limits block new jobs until the day or month rolls over. Leave a field empty for no cap.</p>
+          <div className="grid grid-cols-2 gap-4">
+            {BUDGET_FIELDS.map(({ key, label }) => (
+              <label key={key} className="space-y-1 text-xs text-gray-400">
+                <span>{label}</span>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={budgets[key] ?? ''}
+                  onChange={(e) => setBudgets(prev => ({ ...prev, [key]: parseAmount(e.target.value) }))}
+                  className={numberInputClass}
+                />
+              </label>
+            ))}
+          </div>
+          <div className="flex justify-end items-center gap-4">
+            {saved === 'budgets' && <span className="text-xs text-neon-blue">Saved</span>}
+            <button type="submit" className="px-5 py-2 bg-neon-blue text-black font-bold text-xs uppercase tracking-wider rounded-lg hover:bg-white transition-colors">
+              Save budgets
+            </button>
+          </div>
+        </form>
+
+        <form onSubmit={handleSavePrices} className="p-6 rounded-3xl glass border border-white/5 space-y-4">
+          <h3 className={sectionTitle}>Price table (USD)</h3>
+          <p className="text-xs text-gray-500">Applied to new requests only. Models without a price count as free.</p>
+          <div className="space-y-3">
+            <div className="grid grid-cols-[1fr_repeat(3,5.5rem)] gap-2 text-[10px] text-gray-600">
+              <span />
+              {PRICE_FIELDS.map(({ key, label }) => <span key={key}>{label}</span>)}
+            </div>
+            {pricedModels.map((model) => (
+              <div key={model} className="grid grid-cols-[1fr_repeat(3,5.5rem)] gap-2 items-center">
+                <span className="text-xs text-gray-300 truncate" title={model}>{model}</span>
+                {PRICE_FIELDS.map(({ key, label }) => (
+                  <input
+                    key={key}
+                    type="number"
+                    min={0}
+                    step="any"
+                    title={label}
+                    value={prices[model]?.[key] ?? ''}
+                    onChange={(e) => updatePrice(model, key, e.target.value)}
+                    className={numberInputClass}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between items-center gap-4">
+            <button type="button" onClick={handleResetPrices} className="text-xs text-gray-500 hover:text-white uppercase tracking-widest font-bold">
+              Reset to defaults
+            </button>
+            <div className="flex items-center gap-4">
+              {saved === 'prices' && <span className="text-xs text-neon-blue">Saved</span>}
+              <button type="submit" className="px-5 py-2 bg-neon-blue text-black font-bold text-xs uppercase tracking-wider rounded-lg hover:bg-white transition-colors">
+                Save prices
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+
+      <div className="flex justify-end">
+        <button onClick={handleClear} className="text-xs text-gray-500 hover:text-red-400 uppercase tracking-widest font-bold">
+          Clear usage log
+        </button>
+      </div>
+    </div>
+  );
+};
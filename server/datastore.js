@@ -0,0 +1,29 @@
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+/**
+ * Append-only JSON Lines store: one file per collection under `dir`, one
+ * record per line. Enough for form submissions, and readable with any tool.
+ */
+export function createDatastore(dir) {
+  const ready = mkdir(dir, { recursive: true });
+  const fileFor = collection => join(dir, `${collection}.jsonl`);
+
+  return {
+    async append(collection, record) {
+      await ready;
+      await appendFile(fileFor(collection), JSON.stringify(record) + '\n', 'utf8');
+    },
+
+    async list(collection) {
+      await ready;
+      try {
+        const contents = await readFile(fileFor(collection), 'utf8');
+        return contents.split('\n').filter(Boolean).map(line => JSON.parse(line));
+      } catch (error) {
+        if (error.code === 'ENOENT') return [];
+        throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,231 @@
+// Record/replay for the Gemini routes, so the UI and tests can run without
+// spending API calls. "record" forwards upstream and saves each response;
+// "replay" answers from saved responses, or with a deterministic placeholder
+// when none matches, and never touches the network.
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { deflateSync } from 'node:zlib';
+
+export const FIXTURE_MODES = ['record', 'replay'];
+
+const PLACEHOLDER_LONG_SIDE = 512;
+
+const sha256 = value => createHash('sha256').update(value).digest('hex');
+
+// JSON with sorted keys and no undefined values, so equal requests hash equally
+function stableStringify(value) {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Fixture key for a validated request: the route plus a hash of its
+ * normalized body. Image bytes are part of the hash, so an edit replays only
+ * for the same source image and instruction.
+ */
+export function fixtureKey(kind, request) {
+  return `${kind}-${sha256(stableStringify(request)).slice(0, 32)}`;
+}
+
+// Saved next to the response for readers of the fixture; images are reduced to their hash
+function describeRequest(request) {
+  return JSON.parse(JSON.stringify(request, (key, value) =>
+    key === 'inlineData' ? { mimeType: value.mimeType, sha256: sha256(value.data) } : value
+  ));
+}
+
+/** One JSON file per fixture key under `dir`. */
+export function createFixtureStore(dir) {
+  const fileFor = key => join(dir, `${key}.json`);
+
+  return {
+    async read(key) {
+      try {
+        return JSON.parse(await readFile(fileFor(key), 'utf8'));
+      } catch (error) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async write(key, fixture) {
+      await mkdir(dir, { recursive: true });
+      await writeFile(fileFor(key), JSON.stringify(fixture, null, 2) + '\n', 'utf8');
+    },
+  };
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes) {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type, data) {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+function encodePng(width, height, pixel) {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // RGB
+  const rows = Buffer.alloc((width * 3 + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * (width * 3 + 1);
+    for (let x = 0; x < width; x++) {
+      rows.set(pixel(x, y), row + 1 + x * 3);
+    }
+  }
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(rows)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+function placeholderSize(aspectRatio = '1:1') {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  return w >= h
+    ? { width: PLACEHOLDER_LONG_SIDE, height: Math.round((PLACEHOLDER_LONG_SIDE * h) / w) }
+    : { width: Math.round((PLACEHOLDER_LONG_SIDE * w) / h), height: PLACEHOLDER_LONG_SIDE };
+}
+
+// A diagonal two-colour gradient with stripes, both picked from the fixture key
+function placeholderPng(key, aspectRatio) {
+  const seed = createHash('sha256').update(key).digest();
+  const from = [seed[0], seed[1], seed[2]];
+  const to = [seed[3], seed[4], seed[5]];
+  const stripe = 16 + (seed[6] % 48);
+  const { width, height } = placeholderSize(aspectRatio);
+  return encodePng(width, height, (x, y) => {
+    const t = (x / width + y / height) / 2;
+    const shade = Math.floor((x + y) / stripe) % 2 ? 1 : 0.85;
+    return from.map((value, i) => Math.round((value + (to[i] - value) * t) * shade));
+  });
+}
+
+function instructionOf(request) {
+  const parts = request.contents ? request.contents[request.contents.length - 1].parts : request.parts;
+  return parts.map(part => part.text).filter(Boolean).join(' ').trim();
+}
+
+/** A response in the shape of a real one, built only from the request. */
+export function placeholderResponse(kind, request, key) {
+  const instruction = instructionOf(request);
+  let parts;
+  if (kind === 'text') {
+    // JSON answers carry the fields of both JSON callers: prompt enhancement and image description
+    const text = request.responseMimeType === 'application/json'
+      ? JSON.stringify({
+        candidates: [1, 2, 3].map(n => `Placeholder rewrite ${n}: ${instruction}`),
+        prompt: `Placeholder prompt for: ${instruction}`,
+        altText: 'Placeholder description.',
+        tags: ['placeholder'],
+      })
+      : `Placeholder answer for: ${instruction}`;
+    parts = [{ text }];
+  } else {
+    parts = [{ inlineData: { mimeType: 'image/png', data: placeholderPng(key, request.aspectRatio).toString('base64') } }];
+    if (kind === 'converse') parts.unshift({ text: `Placeholder result for: ${instruction}` });
+  }
+  return {
+    candidates: [{ content: { role: 'model', parts }, finishReason: 'STOP', index: 0 }],
+    usageMetadata: { promptTokenCount: 0, candidatesTokenCount: 0, totalTokenCount: 0 },
+    modelVersion: 'fixture-placeholder',
+  };
+}
+
+// Folds streamed chunks into one response, so a recorded stream replays on either route
+function mergeChunks(chunks) {
+  const parts = [];
+  for (const chunk of chunks) {
+    for (const part of chunk.candidates?.[0]?.content?.parts ?? []) {
+      const last = parts[parts.length - 1];
+      if (part.text !== undefined && last?.text !== undefined && !!part.thought === !!last.thought) {
+        parts[parts.length - 1] = { ...last, text: last.text + part.text };
+      } else {
+        parts.push(part);
+      }
+    }
+  }
+  const last = chunks[chunks.length - 1] ?? {};
+  const candidate = last.candidates?.[0];
+  return {
+    candidates: candidate ? [{ ...candidate, content: { role: 'model', parts } }] : last.candidates,
+    promptFeedback: chunks.find(chunk => chunk.promptFeedback)?.promptFeedback,
+    usageMetadata: last.usageMetadata,
+    modelVersion: last.modelVersion,
+  };
+}
+
+function checkMode(mode) {
+  if (!FIXTURE_MODES.includes(mode)) {
+    throw new Error(`Unknown fixture mode "${mode}". Use one of ${FIXTURE_MODES.join(', ')}.`);
+  }
+}
+
+/**
+ * Wraps `call(kind, request, signal, userKey)` for the given mode. Recording
+ * saves every successful response; replay reads saved responses and never
+ * calls `call`. The user's key is passed through but never saved or hashed.
+ */
+export function withFixtures(mode, store, call) {
+  checkMode(mode);
+  return async (kind, request, signal, userKey) => {
+    const key = fixtureKey(kind, request);
+    if (mode === 'replay') {
+      const fixture = await store.read(key);
+      return fixture ? fixture.response : placeholderResponse(kind, request, key);
+    }
+    const response = await call(kind, request, signal, userKey);
+    await store.write(key, { key, kind, recordedAt: new Date().toISOString(), request: describeRequest(request), response });
+    return response;
+  };
+}
+
+/**
+ * The streaming counterpart of `withFixtures`, for a `stream` that yields
+ * response chunks. Recording saves the merged response once the stream ends;
+ * replay yields the saved response as a single chunk.
+ */
+export function withStreamFixtures(mode, store, stream) {
+  checkMode(mode);
+  return async function* (kind, request, signal, userKey) {
+    const key = fixtureKey(kind, request);
+    if (mode === 'replay') {
+      const fixture = await store.read(key);
+      yield fixture ? fixture.response : placeholderResponse(kind, request, key);
+      return;
+    }
+    const chunks = [];
+    for await (const chunk of stream(kind, request, signal, userKey)) {
+      chunks.push(chunk);
+      yield chunk;
+    }
+    const response = mergeChunks(chunks);
+    await store.write(key, { key, kind, recordedAt: new Date().toISOString(), request: describeRequest(request), response });
+  };
+}
@@ -0,0 +1,113 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fixtureKey, placeholderResponse, withFixtures, withStreamFixtures } from './fixtures.js';
+
+const request = { model: 'gemini-2.5-flash-image', parts: [{ text: 'a lighthouse at dusk' }], aspectRatio: '16:9' };
+
+// An in-memory fixture store
+function memoryStore(saved = {}) {
+  return {
+    saved,
+    read: async key => saved[key] ?? null,
+    write: async (key, fixture) => {
+      saved[key] = fixture;
+    },
+  };
+}
+
+const offline = () => {
+  throw new Error('Replay must not call upstream.');
+};
+
+function pngSize(base64) {
+  const png = Buffer.from(base64, 'base64');
+  return { width: png.readUInt32BE(16), height: png.readUInt32BE(20) };
+}
+
+test('fixtureKey ignores key order and undefined fields', () => {
+  const reordered = { aspectRatio: '16:9', seed: undefined, parts: [{ text: 'a lighthouse at dusk' }], model: 'gemini-2.5-flash-image' };
+  assert.equal(fixtureKey('generate', request), fixtureKey('generate', reordered));
+  assert.match(fixtureKey('generate', request), /^generate-[0-9a-f]{32}$/);
+});
+
+test('fixtureKey differs by route, prompt and image bytes', () => {
+  const image = data => ({ ...request, parts: [{ inlineData: { mimeType: 'image/png', data } }, ...request.parts] });
+  assert.notEqual(fixtureKey('generate', request), fixtureKey('edit', request));
+  assert.notEqual(fixtureKey('generate', request), fixtureKey('generate', { ...request, parts: [{ text: 'a lighthouse at dawn' }] }));
+  assert.notEqual(fixtureKey('edit', image('AAAA')), fixtureKey('edit', image('AAAB')));
+});
+
+test('placeholder images are deterministic and match the aspect ratio', () => {
+  const key = fixtureKey('generate', request);
+  const first = placeholderResponse('generate', request, key);
+  const second = placeholderResponse('generate', request, key);
+  assert.deepEqual(first, second);
+
+  const { inlineData } = first.candidates[0].content.parts[0];
+  assert.equal(inlineData.mimeType, 'image/png');
+  assert.deepEqual(pngSize(inlineData.data), { width: 512, height: 288 });
+
+  const other = placeholderResponse('generate', request, 'generate-other');
+  assert.notEqual(other.candidates[0].content.parts[0].inlineData.data, inlineData.data);
+});
+
+test('placeholder JSON text answers parse for prompt enhancement and descriptions', () => {
+  const textRequest = { model: 'gemini-2.5-flash', parts: [{ text: 'a cat' }], responseMimeType: 'application/json' };
+  const response = placeholderResponse('text', textRequest, fixtureKey('text', textRequest));
+  const answer = JSON.parse(response.candidates[0].content.parts[0].text);
+  assert.equal(answer.candidates.length, 3);
+  assert.equal(typeof answer.altText, 'string');
+  assert.ok(Array.isArray(answer.tags));
+});
+
+test('replay answers from a saved fixture without calling upstream', async () => {
+  const key = fixtureKey('generate', request);
+  const response = { candidates: [{ content: { role: 'model', parts: [{ text: 'saved' }] } }] };
+  const replay = withFixtures('replay', memoryStore({ [key]: { key, response } }), offline);
+  assert.deepEqual(await replay('generate', request), response);
+});
+
+test('replay falls back to the placeholder when no fixture matches', async () => {
+  const replay = withFixtures('replay', memoryStore(), offline);
+  assert.deepEqual(await replay('generate', request), placeholderResponse('generate', request, fixtureKey('generate', request)));
+});
+
+test('record saves the response but not the user key', async () => {
+  const store = memoryStore();
+  const response = { candidates: [{ content: { role: 'model', parts: [{ text: 'upstream' }] } }] };
+  const record = withFixtures('record', store, async () => response);
+  await record('generate', request, undefined, 'user-secret-key');
+
+  const fixture = store.saved[fixtureKey('generate', request)];
+  assert.deepEqual(fixture.response, response);
+  assert.ok(!JSON.stringify(fixture).includes('user-secret-key'));
+});
+
+test('a recorded stream is merged and replays as one chunk', async () => {
+  const store = memoryStore();
+  async function* upstream() {
+    yield { candidates: [{ content: { parts: [{ text: 'Sketching ' }] } }] };
+    yield {
+      candidates: [{ content: { parts: [{ text: 'done.' }, { inlineData: { mimeType: 'image/png', data: 'AAAA' } }] }, finishReason: 'STOP' }],
+      usageMetadata: { totalTokenCount: 7 },
+    };
+  }
+  for await (const chunk of withStreamFixtures('record', store, upstream)('generate', request)) {
+    assert.ok(chunk.candidates);
+  }
+
+  const replayed = [];
+  for await (const chunk of withStreamFixtures('replay', store, offline)('generate', request)) {
+    replayed.push(chunk);
+  }
+  assert.equal(replayed.length, 1);
+  assert.deepEqual(replayed[0].candidates[0].content.parts, [
+    { text: 'Sketching done.' },
+    { inlineData: { mimeType: 'image/png', data: 'AAAA' } },
+  ]);
+  assert.equal(replayed[0].usageMetadata.totalTokenCount, 7);
+});
+
+test('unknown modes are rejected', () => {
+  assert.throws(() => withFixtures('live', memoryStore(), offline), /Unknown fixture mode/);
+});
@@ -0,0 +1,75 @@
+// Field rules for the contact and newsletter forms. The browser imports this
+// file too, so both sides reject the same input with the same messages.
+// Keep it free of Node APIs.
+
+export const FIELD_LIMITS = {
+  name: 100,
+  email: 254,
+  subject: 150,
+  message: 5000,
+};
+
+export const MIN_MESSAGE_LENGTH = 10;
+
+// Hidden from people; bots that fill every input fill this one too
+export const HONEYPOT_FIELD = 'website';
+
+/**
+ * @typedef {{ name: string, email: string, subject: string, message: string }} ContactValues
+ * @typedef {{ email: string }} SubscriptionValues
+ * @typedef {Record<string, string>} FieldErrors
+ */
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function text(value) {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function checkEmail(email, errors) {
+  if (!email) errors.email = 'Enter your email address.';
+  else if (email.length > FIELD_LIMITS.email || !EMAIL.test(email)) errors.email = 'Enter a valid email address.';
+}
+
+function checkLength(values, errors, field, label) {
+  if (!values[field]) errors[field] = `Enter ${label}.`;
+  else if (values[field].length > FIELD_LIMITS[field]) errors[field] = `Keep ${label} under ${FIELD_LIMITS[field]} characters.`;
+}
+
+/**
+ * Trims a contact submission and checks every field. `errors` maps field
+ * names to messages and is empty when the submission is valid.
+ * @returns {{ values: ContactValues, errors: FieldErrors }}
+ */
+export function validateContact(input) {
+  const values = {
+    name: text(input?.name),
+    email: text(input?.email).toLowerCase(),
+    subject: text(input?.subject),
+    message: text(input?.message),
+  };
+  /** @type {FieldErrors} */
+  const errors = {};
+  checkLength(values, errors, 'name', 'your name');
+  checkEmail(values.email, errors);
+  checkLength(values, errors, 'subject', 'a subject');
+  checkLength(values, errors, 'message', 'a message');
+  if (!errors.message && values.message.length < MIN_MESSAGE_LENGTH) {
+    errors.message = `Write at least ${MIN_MESSAGE_LENGTH} characters.`;
+  }
+  return { values, errors };
+}
+
+/** @returns {{ values: SubscriptionValues, errors: FieldErrors }} */
+export function validateSubscription(input) {
+  const values = { email: text(input?.email).toLowerCase() };
+  /** @type {FieldErrors} */
+  const errors = {};
+  checkEmail(values.email, errors);
+  return { values, errors };
+}
+
+/** True when the hidden honeypot field was filled in. */
+export function isSpam(input) {
+  return !!text(input?.[HONEYPOT_FIELD]);
+}
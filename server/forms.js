@@ -0,0 +1,63 @@
+// Handlers for the contact form and newsletter signup. Submissions are stored
+// before anyone is notified, so a failing transport never loses a message.
+
+import { randomUUID } from 'node:crypto';
+import { isSpam, validateContact, validateSubscription } from './formRules.js';
+import { ValidationError } from './validation.js';
+
+const CONTACT_COLLECTION = 'contact-messages';
+const NEWSLETTER_COLLECTION = 'newsletter';
+
+function check({ values, errors }) {
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError('Some fields need attention.', errors);
+  }
+  return values;
+}
+
+async function notify(transport, message) {
+  try {
+    await transport.send(message);
+  } catch (error) {
+    console.error('Failed to send notification', error);
+  }
+}
+
+export function createFormHandlers({ store, transport }) {
+  return {
+    async contact(body, client) {
+      // Bots get the same answer as people, so they have nothing to learn from
+      if (isSpam(body)) {
+        console.warn(`Dropped contact submission from ${client}: honeypot filled`);
+        return { ok: true };
+      }
+      const values = check(validateContact(body));
+      const record = { id: randomUUID(), receivedAt: new Date().toISOString(), client, ...values };
+      await store.append(CONTACT_COLLECTION, record);
+      await notify(transport, {
+        subject: `[Contact] ${values.subject}`,
+        text: `${values.name} <${values.email}> wrote:\n\n${values.message}\n\nMessage id: ${record.id}`,
+        replyTo: values.email,
+      });
+      return { ok: true };
+    },
+
+    async newsletter(body, client) {
+      if (isSpam(body)) {
+        console.warn(`Dropped newsletter signup from ${client}: honeypot filled`);
+        return { ok: true };
+      }
+      const { email } = check(validateSubscription(body));
+      const subscribers = await store.list(NEWSLETTER_COLLECTION);
+      if (subscribers.some(subscriber => subscriber.email === email)) {
+        return { ok: true, alreadySubscribed: true };
+      }
+      await store.append(NEWSLETTER_COLLECTION, { email, subscribedAt: new Date().toISOString(), client });
+      await notify(transport, {
+        subject: '[Newsletter] New subscriber',
+        text: `${email} joined the newsletter.`,
+      });
+      return { ok: true };
+    },
+  };
+}
@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createFormHandlers } from './forms.js';
+import { HONEYPOT_FIELD, MIN_MESSAGE_LENGTH, isSpam, validateContact, validateSubscription } from './formRules.js';
+import { ValidationError } from './validation.js';
+
+const contact = {
+  name: 'Ada Lovelace',
+  email: 'Ada@Example.com ',
+  subject: 'Hello',
+  message: 'A message long enough to send.',
+};
+
+// In-memory store and transport that record what the handlers do
+function setup() {
+  const collections = {};
+  const sent = [];
+  const store = {
+    append: async (collection, record) => {
+      (collections[collection] ??= []).push(record);
+    },
+    list: async collection => collections[collection] ?? [],
+  };
+  const transport = { send: async message => sent.push(message) };
+  return { collections, sent, forms: createFormHandlers({ store, transport }) };
+}
+
+test('contact values are trimmed and the email lowercased', () => {
+  const { values, errors } = validateContact(contact);
+  assert.deepEqual(errors, {});
+  assert.equal(values.email, 'ada@example.com');
+});
+
+test('each invalid contact field gets its own message', () => {
+  const { errors } = validateContact({ name: ' ', email: 'not-an-email', subject: 'x'.repeat(151), message: 'short' });
+  assert.deepEqual(errors, {
+    name: 'Enter your name.',
+    email: 'Enter a valid email address.',
+    subject: 'Keep a subject under 150 characters.',
+    message: `Write at least ${MIN_MESSAGE_LENGTH} characters.`,
+  });
+  assert.deepEqual(validateSubscription({}).errors, { email: 'Enter your email address.' });
+});
+
+test('invalid submissions are rejected with the field errors and nothing is stored', async () => {
+  const { collections, sent, forms } = setup();
+  await assert.rejects(forms.contact({ ...contact, email: '' }, 'client'), error => {
+    assert.ok(error instanceof ValidationError);
+    assert.equal(error.status, 400);
+    assert.deepEqual(error.fields, { email: 'Enter your email address.' });
+    return true;
+  });
+  assert.deepEqual(collections, {});
+  assert.equal(sent.length, 0);
+});
+
+test('a filled honeypot is answered like a success but dropped', async (t) => {
+  t.mock.method(console, 'warn', () => {});
+  const { collections, sent, forms } = setup();
+  const bot = { ...contact, [HONEYPOT_FIELD]: 'https://spam.example' };
+  assert.ok(isSpam(bot));
+  assert.deepEqual(await forms.contact(bot, 'client'), { ok: true });
+  assert.deepEqual(await forms.newsletter({ email: 'bot@example.com', [HONEYPOT_FIELD]: 'x' }, 'client'), { ok: true });
+  assert.deepEqual(collections, {});
+  assert.equal(sent.length, 0);
+});
+
+test('a contact message is stored, then sent with a reply-to', async () => {
+  const { collections, sent, forms } = setup();
+  assert.deepEqual(await forms.contact(contact, 'client'), { ok: true });
+  assert.equal(collections['contact-messages'].length, 1);
+  assert.equal(sent[0].replyTo, 'ada@example.com');
+  assert.match(sent[0].text, new RegExp(collections['contact-messages'][0].id));
+});
+
+test('subscribing twice keeps one subscription and notifies once', async () => {
+  const { collections, sent, forms } = setup();
+  assert.deepEqual(await forms.newsletter({ email: 'ada@example.com' }, 'client'), { ok: true });
+  assert.deepEqual(await forms.newsletter({ email: ' ADA@example.com' }, 'client'), { ok: true, alreadySubscribed: true });
+  assert.equal(collections.newsletter.length, 1);
+  assert.equal(sent.length, 1);
+});
+
+test('a failing transport does not lose the submission', async (t) => {
+  t.mock.method(console, 'error', () => {});
+  const stored = [];
+  const forms = createFormHandlers({
+    store: { append: async (collection, record) => stored.push(record), list: async () => [] },
+    transport: { send: async () => { throw new Error('SMTP down'); } },
+  });
+  assert.deepEqual(await forms.contact(contact, 'client'), { ok: true });
+  assert.equal(stored.length, 1);
+});
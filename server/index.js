@@ -0,0 +1,397 @@
+// API server. Proxies the Gemini provider, so the browser posts prompt parts
+// to /api/generate, /api/edit and /api/converse and the API key only ever lives in this
+// process, and receives the contact form and newsletter signups. Generations
+// and edits can also be streamed from /api/generate/stream and /api/edit/stream.
+// /api/openai/v1/images/* forwards the OpenAI provider's requests with the
+// server's OpenAI key, so that key stays out of the bundle too.
+//
+//   npm run server
+//
+// Settings come from the environment (or .env.local):
+//   GEMINI_API_KEY        key used for upstream calls (the Gemini routes answer 503 without it,
+//                         unless the request carries the user's own key in X-Gemini-Api-Key)
+//   GEMINI_UPSTREAM_URL   alternative API base URL, e.g. a local mock
+//   OPENAI_API_KEY        key for the OpenAI routes (they answer 503 without it)
+//   OPENAI_BASE_URL       OpenAI-compatible API base URL (https://api.openai.com)
+//   OPENAI_ALLOWED_MODELS comma-separated OpenAI image model allowlist
+//   PROXY_PORT            port to listen on (8787)
+//   PROXY_MAX_BODY_MB     largest accepted request body (20)
+//   PROXY_RATE_LIMIT      requests per client per minute (20)
+//   PROXY_ALLOWED_MODELS  comma-separated image model allowlist
+//   PROXY_TEXT_MODELS     comma-separated text model allowlist, for prompt enhancement
+//   PROXY_ALLOWED_ORIGINS comma-separated origins allowed to call the server cross-origin
+//                         (none: the app must be served from the same origin)
+//   PROXY_TRUST_FORWARDED use X-Forwarded-For as the client address ("1" behind a reverse proxy)
+//   FORM_RATE_LIMIT       form submissions per client per 10 minutes (5)
+//   FORM_DATA_DIR         where submissions are stored (server/data)
+//   NOTIFY_TRANSPORT      console, file or smtp (console)
+//   NOTIFY_TO, NOTIFY_FROM  notification recipients (comma-separated) and sender
+//   NOTIFY_OUTBOX_DIR     where the file transport writes .eml files (server/data/outbox)
+//   SMTP_HOST, SMTP_PORT, SMTP_SECURE ("1" for implicit TLS), SMTP_USER, SMTP_PASS
+//   GEMINI_FIXTURES       "record" saves every Gemini response as a fixture; "replay" serves
+//                         fixtures (or placeholders) offline, without an API key
+//   GEMINI_FIXTURES_DIR   where fixtures live (fixtures/gemini)
+
+import { createServer } from 'node:http';
+import { GoogleGenAI } from '@google/genai';
+import { validateOpenAIRequest, validateRequest, ValidationError } from './validation.js';
+import { createRateLimiter } from './rateLimit.js';
+import { createDatastore } from './datastore.js';
+import { createTransport } from './notify.js';
+import { createFormHandlers } from './forms.js';
+import { createFixtureStore, withFixtures, withStreamFixtures } from './fixtures.js';
+
+try {
+  process.loadEnvFile?.('.env.local');
+} catch {
+  // No .env.local; rely on the real environment
+}
+
+const config = {
+  apiKey: process.env.GEMINI_API_KEY || process.env.API_KEY || '',
+  upstreamUrl: process.env.GEMINI_UPSTREAM_URL || undefined,
+  openai: {
+    apiKey: process.env.OPENAI_API_KEY || '',
+    baseUrl: (process.env.OPENAI_BASE_URL || 'https://api.openai.com').replace(/\/+$/, ''),
+    models: (process.env.OPENAI_ALLOWED_MODELS || 'gpt-image-1,dall-e-3,dall-e-2').split(',').map(model => model.trim()).filter(Boolean),
+  },
+  port: Number(process.env.PROXY_PORT) || 8787,
+  maxBodyBytes: (Number(process.env.PROXY_MAX_BODY_MB) || 20) * 1024 * 1024,
+  rateLimit: Number(process.env.PROXY_RATE_LIMIT) || 20,
+  allowedModels: (process.env.PROXY_ALLOWED_MODELS || 'gemini-2.5-flash-image').split(',').map(model => model.trim()).filter(Boolean),
+  textModels: (process.env.PROXY_TEXT_MODELS || 'gemini-2.5-flash,gemini-2.5-flash-lite,gemini-2.5-pro').split(',').map(model => model.trim()).filter(Boolean),
+  allowedOrigins: (process.env.PROXY_ALLOWED_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean),
+  trustForwarded: process.env.PROXY_TRUST_FORWARDED === '1',
+  formRateLimit: Number(process.env.FORM_RATE_LIMIT) || 5,
+  dataDir: process.env.FORM_DATA_DIR || new URL('./data', import.meta.url).pathname,
+  notify: {
+    kind: process.env.NOTIFY_TRANSPORT || 'console',
+    to: (process.env.NOTIFY_TO || 'hello@text2image.ai').split(',').map(address => address.trim()).filter(Boolean),
+    from: process.env.NOTIFY_FROM || 'noreply@text2image.ai',
+    outboxDir: process.env.NOTIFY_OUTBOX_DIR || new URL('./data/outbox', import.meta.url).pathname,
+    host: process.env.SMTP_HOST || 'localhost',
+    secure: process.env.SMTP_SECURE === '1',
+    port: Number(process.env.SMTP_PORT) || (process.env.SMTP_SECURE === '1' ? 465 : 587),
+    user: process.env.SMTP_USER,
+    pass: process.env.SMTP_PASS,
+  },
+  fixtures: {
+    mode: process.env.GEMINI_FIXTURES || '',
+    dir: process.env.GEMINI_FIXTURES_DIR || new URL('../fixtures/gemini', import.meta.url).pathname,
+  },
+};
+
+if (!config.apiKey && config.fixtures.mode !== 'replay') {
+  console.warn('GEMINI_API_KEY is not set; the Gemini routes will answer 503 unless the browser sends its own key.');
+}
+
+const createClient = apiKey => new GoogleGenAI({
+  apiKey,
+  ...(config.upstreamUrl && { httpOptions: { baseUrl: config.upstreamUrl } }),
+});
+const ai = config.apiKey && createClient(config.apiKey);
+const imageLimiter = createRateLimiter({ limit: config.rateLimit, windowMs: 60_000 });
+const formLimiter = createRateLimiter({ limit: config.formRateLimit, windowMs: 10 * 60_000 });
+const forms = createFormHandlers({
+  store: createDatastore(config.dataDir),
+  transport: createTransport(config.notify.kind, config.notify),
+});
+
+class HttpError extends Error {
+  constructor(status, message, headers = {}) {
+    super(message);
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+function clientOf(req) {
+  const forwarded = config.trustForwarded && req.headers['x-forwarded-for'];
+  return (forwarded ? String(forwarded).split(',')[0].trim() : req.socket.remoteAddress) || 'unknown';
+}
+
+async function readBody(req) {
+  const declared = Number(req.headers['content-length']);
+  if (declared > config.maxBodyBytes) {
+    throw new HttpError(413, `The request is larger than ${config.maxBodyBytes / 1024 / 1024} MB.`);
+  }
+
+  const chunks = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > config.maxBodyBytes) {
+      throw new HttpError(413, `The request is larger than ${config.maxBodyBytes / 1024 / 1024} MB.`);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+async function readJson(req) {
+  if (!String(req.headers['content-type'] || '').startsWith('application/json')) {
+    throw new HttpError(415, 'Send the request as application/json.');
+  }
+  const body = await readBody(req);
+  try {
+    return JSON.parse(body.toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'The request body is not valid JSON.');
+  }
+}
+
+function send(res, status, body, headers = {}) {
+  const json = JSON.stringify(body);
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  res.end(json);
+  return Buffer.byteLength(json);
+}
+
+// CORS for an app served from another origin (GEMINI_PROXY_URL). Only listed origins get
+// the headers; for any other the browser blocks the response.
+function allowOrigin(req, res) {
+  const origin = req.headers.origin;
+  if (!origin || !config.allowedOrigins.includes(origin)) return;
+  res.setHeader('Access-Control-Allow-Origin', origin);
+  res.setHeader('Access-Control-Expose-Headers', 'Retry-After');
+  res.setHeader('Vary', 'Origin');
+}
+
+// A key from the Settings page is used instead of the server's, so each user pays for their own calls
+function clientFor(userKey) {
+  const client = userKey ? createClient(userKey) : ai;
+  if (!client) throw new HttpError(503, 'The server has no GEMINI_API_KEY configured. Enter your own key on the Settings page.');
+  return client;
+}
+
+function upstreamParams({ model, parts, contents, aspectRatio, systemInstruction, temperature, seed, responseMimeType }, signal) {
+  return {
+    model,
+    contents: contents ?? { parts },
+    config: {
+      ...(aspectRatio && { imageConfig: { aspectRatio } }),
+      ...(systemInstruction && { systemInstruction }),
+      ...(temperature !== undefined && { temperature }),
+      ...(seed !== undefined && { seed }),
+      ...(responseMimeType && { responseMimeType }),
+      abortSignal: signal,
+    },
+  };
+}
+
+// Only the fields the client reads; the SDK object carries helpers that do not serialize
+const toPlain = response => ({
+  candidates: response.candidates,
+  promptFeedback: response.promptFeedback,
+  usageMetadata: response.usageMetadata,
+  modelVersion: response.modelVersion,
+});
+
+async function callUpstream(kind, request, signal, userKey) {
+  return toPlain(await clientFor(userKey).models.generateContent(upstreamParams(request, signal)));
+}
+
+async function* streamUpstream(kind, request, signal, userKey) {
+  for await (const chunk of await clientFor(userKey).models.generateContentStream(upstreamParams(request, signal))) {
+    yield toPlain(chunk);
+  }
+}
+
+const fixtureStore = config.fixtures.mode && createFixtureStore(config.fixtures.dir);
+const upstream = fixtureStore ? withFixtures(config.fixtures.mode, fixtureStore, callUpstream) : callUpstream;
+const upstreamStream = fixtureStore ? withStreamFixtures(config.fixtures.mode, fixtureStore, streamUpstream) : streamUpstream;
+
+async function readUpstreamRequest(kind, req) {
+  const allowedModels = kind === 'text' ? config.textModels : config.allowedModels;
+  const userKey = String(req.headers['x-gemini-api-key'] || '').trim() || undefined;
+  return { request: validateRequest(await readJson(req), { kind, allowedModels }), userKey };
+}
+
+async function forward(kind, req, signal) {
+  const { request, userKey } = await readUpstreamRequest(kind, req);
+  return upstream(kind, request, signal, userKey);
+}
+
+const OPENAI_IMAGE_FIELDS = ['image', 'image[]'];
+
+// An /edits form rebuilt from its validated fields and image files; anything else is dropped
+async function readOpenAIForm(req) {
+  const type = String(req.headers['content-type'] || '');
+  if (!type.startsWith('multipart/form-data')) {
+    throw new HttpError(415, 'Send the edit as multipart/form-data.');
+  }
+  let form;
+  try {
+    form = await new Response(await readBody(req), { headers: { 'Content-Type': type } }).formData();
+  } catch {
+    throw new HttpError(400, 'The request body is not valid multipart/form-data.');
+  }
+
+  const fields = {};
+  const images = [];
+  let mask;
+  for (const [name, value] of form) {
+    if (typeof value === 'string') {
+      fields[name] = value;
+    } else if (OPENAI_IMAGE_FIELDS.includes(name)) {
+      images.push([name, value]);
+    } else if (name === 'mask' && !mask) {
+      mask = value;
+    }
+  }
+  const clean = validateOpenAIRequest(fields, { endpoint: 'edits', allowedModels: config.openai.models, images: images.length });
+
+  const body = new FormData();
+  for (const [name, value] of Object.entries(clean)) body.append(name, String(value));
+  for (const [name, file] of images) body.append(name, file, file.name);
+  if (mask) body.append('mask', mask, mask.name);
+  return body;
+}
+
+/**
+ * Forwards an OpenAI image request (JSON, or multipart for edits) with the
+ * server's key, once validated. Upstream errors keep their status and error code.
+ */
+async function forwardOpenAI(endpoint, req, signal) {
+  if (!config.openai.apiKey) throw new HttpError(503, 'The server has no OPENAI_API_KEY configured.');
+  const body = endpoint === 'edits'
+    ? await readOpenAIForm(req)
+    : JSON.stringify(validateOpenAIRequest(await readJson(req), { endpoint, allowedModels: config.openai.models }));
+  const response = await fetch(`${config.openai.baseUrl}/v1/images/${endpoint}`, {
+    method: 'POST',
+    headers: {
+      // fetch sets the multipart boundary itself
+      ...(typeof body === 'string' && { 'Content-Type': 'application/json' }),
+      Authorization: `Bearer ${config.openai.apiKey}`,
+    },
+    body,
+    signal,
+  });
+  const json = await response.json().catch(() => null);
+  if (!response.ok) {
+    const retryAfter = response.headers.get('Retry-After');
+    const error = new HttpError(response.status, json?.error?.message || `OpenAI answered with status ${response.status}.`,
+      retryAfter ? { 'Retry-After': retryAfter } : {});
+    error.code = json?.error?.code;
+    throw error;
+  }
+  return json;
+}
+
+/**
+ * Streams the upstream response as NDJSON, one response chunk per line. Errors
+ * before the first chunk get a normal error response; later ones, when the
+ * status is already sent, end the stream with an `{"error": ...}` line.
+ * Returns the number of bytes written.
+ */
+async function forwardStream(kind, req, res, signal) {
+  const { request, userKey } = await readUpstreamRequest(kind, req);
+  const write = line => {
+    if (!res.headersSent) res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store' });
+    res.write(line);
+    return Buffer.byteLength(line);
+  };
+
+  let bytes = 0;
+  try {
+    for await (const chunk of upstreamStream(kind, request, signal, userKey)) {
+      bytes += write(JSON.stringify(chunk) + '\n');
+    }
+  } catch (error) {
+    if (!res.headersSent || signal.aborted) throw error;
+    const status = typeof error?.status === 'number' ? error.status : 502;
+    bytes += write(JSON.stringify({ error: { message: `Upstream request failed: ${error?.message ?? error}`, status } }) + '\n');
+    console.error(error);
+  }
+  if (!res.headersSent) write('');
+  res.end();
+  return bytes;
+}
+
+const ROUTES = {
+  '/api/generate': { limiter: imageLimiter, handle: (req, signal) => forward('generate', req, signal) },
+  '/api/edit': { limiter: imageLimiter, handle: (req, signal) => forward('edit', req, signal) },
+  '/api/generate/stream': { limiter: imageLimiter, stream: (req, res, signal) => forwardStream('generate', req, res, signal) },
+  '/api/edit/stream': { limiter: imageLimiter, stream: (req, res, signal) => forwardStream('edit', req, res, signal) },
+  '/api/converse': { limiter: imageLimiter, handle: (req, signal) => forward('converse', req, signal) },
+  '/api/text': { limiter: imageLimiter, handle: (req, signal) => forward('text', req, signal) },
+  '/api/openai/v1/images/generations': { limiter: imageLimiter, handle: (req, signal) => forwardOpenAI('generations', req, signal) },
+  '/api/openai/v1/images/edits': { limiter: imageLimiter, handle: (req, signal) => forwardOpenAI('edits', req, signal) },
+  '/api/contact': { limiter: formLimiter, handle: async (req, signal, client) => forms.contact(await readJson(req), client) },
+  '/api/newsletter': { limiter: formLimiter, handle: async (req, signal, client) => forms.newsletter(await readJson(req), client) },
+};
+
+const server = createServer(async (req, res) => {
+  const started = Date.now();
+  const client = clientOf(req);
+  const path = (req.url || '').split('?')[0];
+  let status = 500;
+  let bytes = 0;
+
+  // Stop the upstream call when the browser goes away (e.g. the job was cancelled)
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  allowOrigin(req, res);
+
+  try {
+    if (path === '/api/health' && req.method === 'GET') {
+      status = 200;
+      bytes = send(res, status, { ok: true });
+      return;
+    }
+    const route = Object.hasOwn(ROUTES, path) && ROUTES[path];
+    if (!route) throw new HttpError(404, `No route for ${path}.`);
+    if (req.method === 'OPTIONS') {
+      // Preflight for the JSON body and the API key header
+      status = 204;
+      res.writeHead(status, {
+        Allow: 'POST',
+        'Access-Control-Allow-Methods': 'POST',
+        'Access-Control-Allow-Headers': 'Content-Type, X-Gemini-Api-Key',
+        'Access-Control-Max-Age': '600',
+      });
+      res.end();
+      return;
+    }
+    if (req.method !== 'POST') throw new HttpError(405, 'Use POST.', { Allow: 'POST' });
+
+    const waitMs = route.limiter.check(client);
+    if (waitMs > 0) {
+      throw new HttpError(429, 'Too many requests from this client. Slow down and retry shortly.', {
+        'Retry-After': String(Math.ceil(waitMs / 1000)),
+      });
+    }
+
+    if (route.stream) {
+      bytes = await route.stream(req, res, controller.signal);
+      status = 200;
+      return;
+    }
+    const body = await route.handle(req, controller.signal, client);
+    status = 200;
+    bytes = send(res, status, body);
+  } catch (error) {
+    if (controller.signal.aborted) {
+      status = 499;
+      return;
+    }
+    status = error instanceof HttpError || error instanceof ValidationError ? error.status
+      : typeof error?.status === 'number' ? error.status
+      : 502;
+    const message = status === 502 ? `Upstream request failed: ${error?.message ?? error}` : error.message;
+    const fields = error instanceof ValidationError ? error.fields : undefined;
+    bytes = send(res, status, { error: { message, status, ...(fields && { fields }), ...(error.code && { code: error.code }) } }, error.headers);
+    if (status >= 500 && !(error instanceof HttpError)) console.error(error);
+  } finally {
+    console.log(`${new Date().toISOString()} ${client} ${req.method} ${path} ${status} ${Date.now() - started}ms ${bytes}B`);
+  }
+});
+
+server.listen(config.port, () => {
+  console.log(`API server listening on http://localhost:${config.port}`
+    + (config.upstreamUrl ? ` (upstream ${config.upstreamUrl})` : '')
+    + (config.fixtures.mode ? ` (fixtures: ${config.fixtures.mode} ${config.fixtures.dir})` : ''));
+});
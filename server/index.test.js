@@ -0,0 +1,73 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import { once } from 'node:events';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { createServer } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+// The real server in fixture replay mode, so nothing reaches the network
+let server;
+let baseUrl;
+let dataDir;
+
+async function freePort() {
+  const probe = createServer().listen(0);
+  await once(probe, 'listening');
+  const { port } = probe.address();
+  probe.close();
+  return port;
+}
+
+before(async () => {
+  dataDir = await mkdtemp(join(tmpdir(), 'text2image-server-'));
+  const port = await freePort();
+  baseUrl = `http://localhost:${port}`;
+  server = spawn(process.execPath, [new URL('./index.js', import.meta.url).pathname], {
+    env: {
+      ...process.env,
+      PROXY_PORT: String(port),
+      PROXY_RATE_LIMIT: '3',
+      GEMINI_FIXTURES: 'replay',
+      GEMINI_FIXTURES_DIR: join(dataDir, 'fixtures'),
+      FORM_DATA_DIR: dataDir,
+    },
+    stdio: ['ignore', 'pipe', 'inherit'],
+  });
+  // Keep reading the log after startup, or the server would block writing to it
+  await new Promise(resolve => server.stdout.on('data', chunk => {
+    if (String(chunk).includes('listening')) resolve();
+  }));
+});
+
+after(async () => {
+  server.kill();
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+const post = (path, body, headers = { 'Content-Type': 'application/json' }) =>
+  fetch(`${baseUrl}${path}`, { method: 'POST', headers, body });
+
+test('bad JSON and wrong content types are rejected before any upstream call', async () => {
+  const badJson = await post('/api/generate', '{"model":');
+  assert.equal(badJson.status, 400);
+  assert.match((await badJson.json()).error.message, /not valid JSON/);
+
+  const wrongType = await post('/api/generate', 'a fox', { 'Content-Type': 'text/plain' });
+  assert.equal(wrongType.status, 415);
+});
+
+test('clients over the rate limit get 429 with Retry-After', async () => {
+  // Rejected requests count too, so the limit of 3 may already be used up
+  const body = JSON.stringify({ model: 'gemini-2.5-flash-image', parts: [{ text: 'a fox' }] });
+  let limited;
+  for (let i = 0; i < 4 && limited?.status !== 429; i++) {
+    limited = await post('/api/generate', body);
+    assert.ok([200, 429].includes(limited.status));
+  }
+  assert.equal(limited.status, 429);
+  const retryAfter = Number(limited.headers.get('Retry-After'));
+  assert.ok(retryAfter > 0 && retryAfter <= 60);
+  assert.match((await limited.json()).error.message, /Too many requests/);
+});
@@ -0,0 +1,167 @@
+// Notification transports for form submissions. A transport is an object with
+// a `send({ subject, text, replyTo })` method; pick one with NOTIFY_TRANSPORT
+// or add your own with registerTransport.
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { hostname } from 'node:os';
+import net from 'node:net';
+import tls from 'node:tls';
+
+const SMTP_TIMEOUT_MS = 15000;
+
+const transports = new Map();
+
+export function registerTransport(kind, factory) {
+  transports.set(kind, factory);
+}
+
+export function createTransport(kind, options) {
+  const factory = transports.get(kind);
+  if (!factory) {
+    throw new Error(`Unknown notification transport "${kind}". Use one of ${Array.from(transports.keys()).join(', ')}.`);
+  }
+  return factory(options);
+}
+
+// RFC 2047 encoded-word, so subjects may contain any characters
+function encodeHeader(value) {
+  const clean = value.replace(/[\r\n]+/g, ' ');
+  return /^[\x20-\x7e]*$/.test(clean) ? clean : `=?UTF-8?B?${Buffer.from(clean).toString('base64')}?=`;
+}
+
+/** A complete RFC 5322 message with a base64 plain-text body. */
+export function formatMessage({ from, to, subject, text, replyTo }) {
+  const body = Buffer.from(text).toString('base64').replace(/.{1,76}/g, '$&\r\n');
+  return [
+    `From: ${from}`,
+    `To: ${to.join(', ')}`,
+    ...(replyTo ? [`Reply-To: ${replyTo}`] : []),
+    `Subject: ${encodeHeader(subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${Date.now()}.${Math.random().toString(36).substr(2, 9)}@${hostname()}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body,
+  ].join('\r\n');
+}
+
+registerTransport('console', ({ to }) => ({
+  async send({ subject, text, replyTo }) {
+    console.log(`--- notification to ${to.join(', ')}${replyTo ? ` (reply to ${replyTo})` : ''}\n${subject}\n\n${text}\n---`);
+  },
+}));
+
+// Writes each message as an .eml file, for inspecting notifications in development
+registerTransport('file', ({ from, to, outboxDir }) => ({
+  async send(message) {
+    await mkdir(outboxDir, { recursive: true });
+    const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${Math.random().toString(36).substr(2, 6)}.eml`;
+    await writeFile(join(outboxDir, name), formatMessage({ from, to, ...message }), 'utf8');
+  },
+}));
+
+// Reads SMTP replies line by line; a reply ends at a line with a space after the code
+function replyReader(socket) {
+  let buffer = '';
+  let lines = [];
+  const replies = [];
+  const waiting = [];
+
+  const settle = () => {
+    while (replies.length && waiting.length) {
+      const reply = replies.shift();
+      const { resolve, reject } = waiting.shift();
+      reply instanceof Error ? reject(reply) : resolve(reply);
+    }
+  };
+
+  socket.on('data', chunk => {
+    buffer += chunk.toString('utf8');
+    let end;
+    while ((end = buffer.indexOf('\r\n')) >= 0) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      lines.push(line.slice(4));
+      if (line[3] !== '-') {
+        replies.push({ code: Number(line.slice(0, 3)), lines });
+        lines = [];
+      }
+    }
+    settle();
+  });
+  const fail = error => {
+    replies.push(error);
+    settle();
+  };
+  socket.on('error', fail);
+  socket.on('close', () => fail(new Error('The SMTP server closed the connection.')));
+
+  return () => new Promise((resolve, reject) => {
+    waiting.push({ resolve, reject });
+    settle();
+  });
+}
+
+function connect({ host, port, secure }) {
+  return new Promise((resolve, reject) => {
+    const socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('The SMTP server timed out.')));
+    socket.once(secure ? 'secureConnect' : 'connect', () => resolve(socket));
+    socket.once('error', reject);
+  });
+}
+
+function upgrade(socket, host) {
+  return new Promise((resolve, reject) => {
+    const secure = tls.connect({ socket, servername: host });
+    secure.setTimeout(SMTP_TIMEOUT_MS, () => secure.destroy(new Error('The SMTP server timed out.')));
+    secure.once('secureConnect', () => resolve(secure));
+    secure.once('error', reject);
+  });
+}
+
+// Minimal SMTP client: STARTTLS when offered, AUTH PLAIN when a user is set.
+registerTransport('smtp', ({ from, to, host, port, secure, user, pass }) => ({
+  async send(message) {
+    let socket = await connect({ host, port, secure });
+    let read = replyReader(socket);
+
+    const command = async (line, expected) => {
+      if (line) socket.write(line + '\r\n');
+      const reply = await read();
+      if (!expected.includes(reply.code)) {
+        throw new Error(`SMTP ${line ? line.split(' ')[0] : 'greeting'} failed: ${reply.code} ${reply.lines.join(' ')}`);
+      }
+      return reply;
+    };
+
+    try {
+      await command(null, [220]);
+      let capabilities = (await command(`EHLO ${hostname()}`, [250])).lines;
+      if (!secure && capabilities.some(line => /^STARTTLS\b/i.test(line))) {
+        await command('STARTTLS', [220]);
+        socket.removeAllListeners('data');
+        socket = await upgrade(socket, host);
+        read = replyReader(socket);
+        capabilities = (await command(`EHLO ${hostname()}`, [250])).lines;
+      }
+      if (user) {
+        await command(`AUTH PLAIN ${Buffer.from(`\0${user}\0${pass}`).toString('base64')}`, [235]);
+      }
+      await command(`MAIL FROM:<${from}>`, [250]);
+      for (const recipient of to) {
+        await command(`RCPT TO:<${recipient}>`, [250, 251]);
+      }
+      await command('DATA', [354]);
+      // Dot-stuffing: a line starting with "." gets a second one
+      const data = formatMessage({ from, to, ...message }).replace(/^\./gm, '..');
+      await command(`${data}\r\n.`, [250]);
+      socket.write('QUIT\r\n');
+    } finally {
+      socket.end();
+    }
+  },
+}));
@@ -0,0 +1,30 @@
+/**
+ * Sliding-window rate limiter keyed by client. `check` records a request and
+ * returns how long to wait (0 when the request is allowed).
+ */
+export function createRateLimiter({ limit, windowMs }) {
+  const hits = new Map();
+
+  // Forget clients that have been quiet for a whole window
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - windowMs;
+    for (const [client, times] of hits) {
+      if (times[times.length - 1] < cutoff) hits.delete(client);
+    }
+  }, windowMs);
+  sweep.unref();
+
+  return {
+    check(client) {
+      const now = Date.now();
+      const times = (hits.get(client) ?? []).filter(time => time > now - windowMs);
+      if (times.length >= limit) {
+        hits.set(client, times);
+        return times[0] + windowMs - now;
+      }
+      times.push(now);
+      hits.set(client, times);
+      return 0;
+    },
+  };
+}
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRateLimiter } from './rateLimit.js';
+
+test('allows up to the limit, then reports the wait until the oldest request expires', (t) => {
+  let now = 1_000_000;
+  t.mock.method(Date, 'now', () => now);
+  const limiter = createRateLimiter({ limit: 2, windowMs: 60_000 });
+
+  assert.equal(limiter.check('a'), 0);
+  now += 10_000;
+  assert.equal(limiter.check('a'), 0);
+  now += 5_000;
+  assert.equal(limiter.check('a'), 45_000);
+});
+
+test('the window slides: requests are allowed again once old ones expire', (t) => {
+  let now = 1_000_000;
+  t.mock.method(Date, 'now', () => now);
+  const limiter = createRateLimiter({ limit: 1, windowMs: 60_000 });
+
+  assert.equal(limiter.check('a'), 0);
+  assert.ok(limiter.check('a') > 0);
+  now += 60_000;
+  assert.equal(limiter.check('a'), 0);
+});
+
+test('clients are limited separately', (t) => {
+  t.mock.method(Date, 'now', () => 1_000_000);
+  const limiter = createRateLimiter({ limit: 1, windowMs: 60_000 });
+
+  assert.equal(limiter.check('a'), 0);
+  assert.ok(limiter.check('a') > 0);
+  assert.equal(limiter.check('b'), 0);
+});
+
+test('rejected requests do not extend the wait', (t) => {
+  let now = 1_000_000;
+  t.mock.method(Date, 'now', () => now);
+  const limiter = createRateLimiter({ limit: 1, windowMs: 60_000 });
+
+  limiter.check('a');
+  now += 30_000;
+  assert.equal(limiter.check('a'), 30_000);
+  now += 30_000;
+  assert.equal(limiter.check('a'), 0);
+});
@@ -0,0 +1,215 @@
+// Shape checks for proxy payloads. Anything the browser sends is untrusted:
+// only text and inline image parts are forwarded, and only to allowed models.
+
+export const ASPECT_RATIOS = ['1:1', '16:9', '9:16', '4:3', '3:4'];
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+const MAX_PARTS = 8;
+const MAX_IMAGES = 4;
+const MAX_TURNS = 24;
+const ROLES = ['user', 'model'];
+const MAX_TEXT_LENGTH = 10000;
+const BASE64 = /^[A-Za-z0-9+/]+={0,2}$/;
+const RESPONSE_TYPES = ['text/plain', 'application/json'];
+const MAX_SEED = 2 ** 31 - 1;
+
+export class ValidationError extends Error {
+  // `fields` maps form field names to messages, for form submissions
+  constructor(message, fields) {
+    super(message);
+    this.name = 'ValidationError';
+    this.status = 400;
+    this.fields = fields;
+  }
+}
+
+function validatePart(part, index, path = 'parts') {
+  if (!part || typeof part !== 'object') {
+    throw new ValidationError(`${path}[${index}] must be an object.`);
+  }
+  const keys = Object.keys(part);
+  if (keys.length === 1 && typeof part.text === 'string') {
+    if (part.text.length > MAX_TEXT_LENGTH) {
+      throw new ValidationError(`${path}[${index}].text is longer than ${MAX_TEXT_LENGTH} characters.`);
+    }
+    return { text: part.text };
+  }
+  if (keys.length === 1 && part.inlineData && typeof part.inlineData === 'object') {
+    const { mimeType, data } = part.inlineData;
+    if (!IMAGE_TYPES.includes(mimeType)) {
+      throw new ValidationError(`${path}[${index}].inlineData.mimeType must be one of ${IMAGE_TYPES.join(', ')}.`);
+    }
+    if (typeof data !== 'string' || !BASE64.test(data)) {
+      throw new ValidationError(`${path}[${index}].inlineData.data must be base64.`);
+    }
+    return { inlineData: { mimeType, data } };
+  }
+  throw new ValidationError(`${path}[${index}] must have exactly one of "text" or "inlineData".`);
+}
+
+function validateTurn(turn, index) {
+  if (!turn || typeof turn !== 'object' || !ROLES.includes(turn.role)) {
+    throw new ValidationError(`contents[${index}].role must be one of ${ROLES.join(', ')}.`);
+  }
+  if (!Array.isArray(turn.parts) || turn.parts.length === 0 || turn.parts.length > MAX_PARTS) {
+    throw new ValidationError(`contents[${index}].parts must be an array of 1 to ${MAX_PARTS} items.`);
+  }
+  return { role: turn.role, parts: turn.parts.map((part, i) => validatePart(part, i, `contents[${index}].parts`)) };
+}
+
+const hasText = parts => parts.some(part => part.text?.trim());
+
+// A /api/converse body carries the whole editing conversation: it starts with
+// the user's image and first instruction and ends with their latest one.
+function validateConversation(contents) {
+  if (!Array.isArray(contents) || contents.length === 0 || contents.length > MAX_TURNS) {
+    throw new ValidationError(`contents must be an array of 1 to ${MAX_TURNS} turns.`);
+  }
+  const clean = contents.map(validateTurn);
+  const images = clean.flatMap(turn => turn.parts).filter(part => part.inlineData).length;
+  if (images > MAX_IMAGES) {
+    throw new ValidationError(`At most ${MAX_IMAGES} images can be sent.`);
+  }
+  const first = clean[0];
+  const last = clean[clean.length - 1];
+  if (first.role !== 'user' || !first.parts.some(part => part.inlineData)) {
+    throw new ValidationError('The conversation must start with the image to edit.');
+  }
+  if (last.role !== 'user' || !hasText(last.parts)) {
+    throw new ValidationError('The conversation must end with a text instruction.');
+  }
+  return clean;
+}
+
+function validateTemperature(temperature) {
+  if (temperature !== undefined && (typeof temperature !== 'number' || temperature < 0 || temperature > 2)) {
+    throw new ValidationError('temperature must be a number from 0 to 2.');
+  }
+  return temperature;
+}
+
+// Sampling options image requests (/api/generate, /api/edit) may set
+function validateSampling({ temperature, seed }) {
+  if (seed !== undefined && (!Number.isInteger(seed) || seed < 0 || seed > MAX_SEED)) {
+    throw new ValidationError(`seed must be a whole number from 0 to ${MAX_SEED}.`);
+  }
+  return { temperature: validateTemperature(temperature), seed };
+}
+
+// Options only text requests (/api/text) may set
+function validateTextOptions({ systemInstruction, temperature, responseMimeType }) {
+  if (systemInstruction !== undefined && (typeof systemInstruction !== 'string' || systemInstruction.length > MAX_TEXT_LENGTH)) {
+    throw new ValidationError(`systemInstruction must be a string of at most ${MAX_TEXT_LENGTH} characters.`);
+  }
+  validateTemperature(temperature);
+  if (responseMimeType !== undefined && !RESPONSE_TYPES.includes(responseMimeType)) {
+    throw new ValidationError(`responseMimeType must be one of ${RESPONSE_TYPES.join(', ')}.`);
+  }
+  return { systemInstruction, temperature, responseMimeType };
+}
+
+/**
+ * Validates a /api/generate, /api/edit, /api/text or /api/converse body and
+ * returns a clean copy. Edits must include the image being edited; all need
+ * an instruction.
+ */
+export function validateRequest(body, { kind, allowedModels }) {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new ValidationError('The request body must be a JSON object.');
+  }
+  const { model, parts, aspectRatio } = body;
+
+  if (!allowedModels.includes(model)) {
+    throw new ValidationError(`model must be one of ${allowedModels.join(', ')}.`);
+  }
+  if (kind === 'converse') {
+    return { model, contents: validateConversation(body.contents) };
+  }
+  if (!Array.isArray(parts) || parts.length === 0 || parts.length > MAX_PARTS) {
+    throw new ValidationError(`parts must be an array of 1 to ${MAX_PARTS} items.`);
+  }
+  const clean = parts.map(validatePart);
+  const images = clean.filter(part => part.inlineData).length;
+  if (images > MAX_IMAGES) {
+    throw new ValidationError(`At most ${MAX_IMAGES} images can be sent.`);
+  }
+  if (!hasText(clean)) {
+    throw new ValidationError('parts must include a text instruction.');
+  }
+  if (kind === 'edit' && images === 0) {
+    throw new ValidationError('An edit must include the image to edit.');
+  }
+  if (aspectRatio !== undefined && !ASPECT_RATIOS.includes(aspectRatio)) {
+    throw new ValidationError(`aspectRatio must be one of ${ASPECT_RATIOS.join(', ')}.`);
+  }
+  if (kind === 'text') {
+    return { model, parts: clean, ...validateTextOptions(body) };
+  }
+
+  return { model, parts: clean, aspectRatio, ...validateSampling(body) };
+}
+
+// OpenAI image requests are forwarded with the server's key, so everything that
+// affects the bill is checked: model, image count, size and quality
+const OPENAI_SIZES = {
+  'gpt-image-1': ['auto', '1024x1024', '1536x1024', '1024x1536'],
+  'dall-e-3': ['1024x1024', '1792x1024', '1024x1792'],
+  'dall-e-2': ['256x256', '512x512', '1024x1024'],
+};
+const OPENAI_QUALITIES = {
+  'gpt-image-1': ['auto', 'low', 'medium', 'high'],
+  'dall-e-3': ['standard', 'hd'],
+  'dall-e-2': ['standard'],
+};
+const OPENAI_PROMPT_LENGTHS = { 'gpt-image-1': 32000, 'dall-e-3': 4000, 'dall-e-2': 1000 };
+const OPENAI_RESPONSE_FORMATS = ['b64_json'];
+// gpt-image-1 takes several reference images on /edits; the DALL·E models one
+const MAX_OPENAI_IMAGES = 16;
+
+/**
+ * Validates the fields of an OpenAI /v1/images/generations body or the text
+ * fields of an /edits form, and returns a clean copy with `n` fixed to 1.
+ * `images` is the number of image files an edit carries.
+ */
+export function validateOpenAIRequest(body, { endpoint, allowedModels, images = 0 }) {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new ValidationError('The request body must be a JSON object.');
+  }
+  const { model, prompt, n, size, quality, response_format: responseFormat } = body;
+
+  if (!allowedModels.includes(model) || !Object.hasOwn(OPENAI_SIZES, model)) {
+    throw new ValidationError(`model must be one of ${allowedModels.filter(name => Object.hasOwn(OPENAI_SIZES, name)).join(', ')}.`);
+  }
+  const maxPrompt = OPENAI_PROMPT_LENGTHS[model];
+  if (typeof prompt !== 'string' || !prompt.trim() || prompt.length > maxPrompt) {
+    throw new ValidationError(`prompt must be text of at most ${maxPrompt} characters.`);
+  }
+  if (n !== undefined && Number(n) !== 1) {
+    throw new ValidationError('n must be 1.');
+  }
+  if (size !== undefined && !OPENAI_SIZES[model].includes(size)) {
+    throw new ValidationError(`size must be one of ${OPENAI_SIZES[model].join(', ')} for ${model}.`);
+  }
+  if (quality !== undefined && !OPENAI_QUALITIES[model].includes(quality)) {
+    throw new ValidationError(`quality must be one of ${OPENAI_QUALITIES[model].join(', ')} for ${model}.`);
+  }
+  if (responseFormat !== undefined && !OPENAI_RESPONSE_FORMATS.includes(responseFormat)) {
+    throw new ValidationError(`response_format must be one of ${OPENAI_RESPONSE_FORMATS.join(', ')}.`);
+  }
+  if (endpoint === 'edits') {
+    const maxImages = model === 'gpt-image-1' ? MAX_OPENAI_IMAGES : 1;
+    if (images < 1 || images > maxImages) {
+      throw new ValidationError(maxImages === 1
+        ? `An edit must include exactly one image for ${model}.`
+        : `An edit must include 1 to ${maxImages} images for ${model}.`);
+    }
+  }
+
+  return {
+    model,
+    prompt,
+    n: 1,
+    ...(size !== undefined && { size }),
+    ...(quality !== undefined && { quality }),
+    ...(responseFormat !== undefined && { response_format: responseFormat }),
+  };
+}
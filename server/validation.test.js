@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ValidationError, validateOpenAIRequest, validateRequest } from './validation.js';
+
+const allowedModels = ['gemini-2.5-flash-image'];
+const image = { inlineData: { mimeType: 'image/png', data: 'iVBORw0KGgo=' } };
+const generate = (body, kind = 'generate') => validateRequest({ model: allowedModels[0], ...body }, { kind, allowedModels });
+
+test('a generate request is returned clean', () => {
+  assert.deepEqual(generate({ parts: [{ text: 'a fox' }], aspectRatio: '16:9', seed: 7, extra: true }), {
+    model: 'gemini-2.5-flash-image',
+    parts: [{ text: 'a fox' }],
+    aspectRatio: '16:9',
+    temperature: undefined,
+    seed: 7,
+  });
+});
+
+test('models outside the allowlist are rejected', () => {
+  assert.throws(() => generate({ model: 'gemini-2.5-pro', parts: [{ text: 'a fox' }] }), /model must be one of gemini-2.5-flash-image/);
+});
+
+test('bodies that are not JSON objects are rejected', () => {
+  for (const body of [null, 'a fox', [], 42]) {
+    assert.throws(() => validateRequest(body, { kind: 'generate', allowedModels }), /must be a JSON object/);
+  }
+});
+
+test('parts must be text or inline images only', () => {
+  assert.throws(() => generate({ parts: [{ text: 'a fox', fileData: { fileUri: 'gs://x' } }] }), /exactly one of "text" or "inlineData"/);
+  assert.throws(() => generate({ parts: [{ fileData: { fileUri: 'gs://x' } }] }), /exactly one of/);
+  assert.throws(() => generate({ parts: [{ inlineData: { mimeType: 'image/gif', data: 'AAAA' } }, { text: 'x' }] }), /mimeType must be one of/);
+  assert.throws(() => generate({ parts: [{ inlineData: { mimeType: 'image/png', data: 'not base64!' } }, { text: 'x' }] }), /must be base64/);
+  assert.throws(() => generate({ parts: [image] }), /must include a text instruction/);
+  assert.throws(() => generate({ parts: [] }), /parts must be an array of 1 to 8 items/);
+});
+
+test('image count and text length are limited', () => {
+  assert.throws(() => generate({ parts: [image, image, image, image, image, { text: 'x' }] }), /At most 4 images/);
+  assert.throws(() => generate({ parts: Array(9).fill({ text: 'x' }) }), /1 to 8 items/);
+  assert.throws(() => generate({ parts: [{ text: 'x'.repeat(10001) }] }), /longer than 10000 characters/);
+});
+
+test('edits need the image, and options are range-checked', () => {
+  assert.throws(() => generate({ parts: [{ text: 'add a hat' }] }, 'edit'), /must include the image to edit/);
+  assert.equal(generate({ parts: [image, { text: 'add a hat' }] }, 'edit').parts.length, 2);
+  assert.throws(() => generate({ parts: [{ text: 'x' }], aspectRatio: '2:1' }), /aspectRatio must be one of/);
+  assert.throws(() => generate({ parts: [{ text: 'x' }], temperature: 3 }), /temperature must be a number/);
+  assert.throws(() => generate({ parts: [{ text: 'x' }], seed: 1.5 }), /seed must be a whole number/);
+});
+
+test('conversations start with the image and end with an instruction', () => {
+  const converse = contents => generate({ contents }, 'converse');
+  const opening = { role: 'user', parts: [image, { text: 'make it blue' }] };
+  assert.equal(converse([opening]).contents.length, 1);
+  assert.throws(() => converse([{ role: 'user', parts: [{ text: 'hi' }] }]), /must start with the image/);
+  assert.throws(() => converse([opening, { role: 'model', parts: [image] }]), /must end with a text instruction/);
+  assert.throws(() => converse([{ role: 'system', parts: [{ text: 'x' }] }]), /role must be one of/);
+});
+
+const openAIModels = ['gpt-image-1', 'dall-e-3', 'dall-e-2'];
+const openAI = (body, options = {}) =>
+  validateOpenAIRequest(body, { endpoint: 'generations', allowedModels: openAIModels, ...options });
+
+test('OpenAI requests are cleaned to the known fields with n fixed to 1', () => {
+  const clean = openAI({ model: 'dall-e-3', prompt: 'a fox', size: '1792x1024', quality: 'hd', response_format: 'b64_json', style: 'vivid' });
+  assert.deepEqual(clean, { model: 'dall-e-3', prompt: 'a fox', n: 1, size: '1792x1024', quality: 'hd', response_format: 'b64_json' });
+});
+
+test('OpenAI requests reject models outside the allowlist', () => {
+  assert.throws(() => openAI({ model: 'gpt-image-1', prompt: 'a fox' }, { allowedModels: ['dall-e-2'] }), /model must be one of dall-e-2/);
+  assert.throws(() => openAI({ model: 'unknown-model', prompt: 'a fox' }, { allowedModels: ['unknown-model'] }), ValidationError);
+});
+
+test('OpenAI requests reject extra images, unknown sizes and qualities, and long prompts', () => {
+  assert.throws(() => openAI({ model: 'gpt-image-1', prompt: 'a fox', n: 4 }), /n must be 1/);
+  assert.throws(() => openAI({ model: 'dall-e-2', prompt: 'a fox', size: '1536x1024' }), /size must be one of/);
+  assert.throws(() => openAI({ model: 'dall-e-3', prompt: 'a fox', quality: 'high' }), /quality must be one of/);
+  assert.throws(() => openAI({ model: 'dall-e-2', prompt: 'x'.repeat(1001) }), /at most 1000 characters/);
+  assert.throws(() => openAI({ model: 'dall-e-2', prompt: '  ' }), /prompt must be text/);
+});
+
+test('OpenAI edits accept form values and limit the number of images per model', () => {
+  const edit = (model, images) => openAI({ model, prompt: 'add a hat', n: '1' }, { endpoint: 'edits', images });
+  assert.equal(edit('gpt-image-1', 3).n, 1);
+  assert.throws(() => edit('gpt-image-1', 0), /1 to 16 images/);
+  assert.throws(() => edit('dall-e-2', 2), /exactly one image/);
+});
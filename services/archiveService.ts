@@ -0,0 +1,235 @@
+import { Collection, GeneratedImage } from "../types";
+import { ZipEntry, createZip, readZip } from "./zip";
+import { StoredImage, listCollections, loadStoredImages, saveCollection, saveImages } from "./storageService";
+import { extensionFor } from "./exportService";
+
+// Archives hold `manifest.json` plus one file per image under `images/`.
+// Bump ARCHIVE_VERSION whenever the manifest shape changes and keep reading older versions.
+export const ARCHIVE_FORMAT = 'text2image-gallery';
+export const ARCHIVE_VERSION = 1;
+const MANIFEST_FILE = 'manifest.json';
+
+export type ArchiveScope =
+  | { kind: 'gallery' }
+  | { kind: 'collection'; collection: Collection }
+  | { kind: 'selection'; rootIds: string[] };
+
+export interface ManifestImage extends Omit<GeneratedImage, 'url'> {
+  // Path of the image file inside the archive
+  file: string;
+  mimeType: string;
+  sha256: string;
+}
+
+export interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: number;
+  scope: ArchiveScope['kind'];
+  name: string;
+  collections: Collection[];
+  images: ManifestImage[];
+}
+
+// new: not in the gallery; duplicate: same id and pixels; id-conflict: same id,
+// different pixels; same-content: identical pixels already stored under another id
+export type ImportStatus = 'new' | 'duplicate' | 'id-conflict' | 'same-content';
+
+export interface ImportItem {
+  image: ManifestImage;
+  blob: Blob;
+  status: ImportStatus;
+  existingId?: string;
+}
+
+export interface ImportPlan {
+  manifest: ArchiveManifest;
+  items: ImportItem[];
+}
+
+export type ConflictResolution = 'skip' | 'replace' | 'keep-both';
+
+export interface ImportResult {
+  imported: number;
+  skipped: number;
+  collections: number;
+}
+
+async function sha256(data: ArrayBuffer | Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+const slug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'gallery';
+
+function scopeName(scope: ArchiveScope): string {
+  if (scope.kind === 'collection') return scope.collection.name;
+  if (scope.kind === 'selection') return `${scope.rootIds.length} selected`;
+  return 'Gallery';
+}
+
+function selectEntries(all: StoredImage[], scope: ArchiveScope): StoredImage[] {
+  if (scope.kind === 'gallery') return all;
+  const roots = new Set(scope.kind === 'selection'
+    ? scope.rootIds
+    : all.filter(({ image }) => !image.parentId && image.collectionIds?.includes(scope.collection.id)).map(({ image }) => image.id));
+  return all.filter(({ image }) => roots.has(image.rootId ?? image.id));
+}
+
+/** Packs the images in `scope`, with every version of each, into a ZIP archive. */
+export async function exportArchive(scope: ArchiveScope): Promise<{ blob: Blob; filename: string; count: number }> {
+  const entries = selectEntries(await loadStoredImages(), scope);
+  if (entries.length === 0) {
+    throw new Error('There are no images to export.');
+  }
+
+  const files: ZipEntry[] = [];
+  const images: ManifestImage[] = [];
+  for (const { image, blob } of entries) {
+    const data = new Uint8Array(await blob.arrayBuffer());
+    const mimeType = blob.type || 'image/png';
+    const file = `images/${image.id}.${extensionFor(mimeType)}`;
+    files.push({ name: file, data, modified: new Date(image.timestamp) });
+    images.push({ ...image, file, mimeType, sha256: await sha256(data) });
+  }
+
+  const usedCollections = new Set(images.flatMap(image => image.collectionIds ?? []));
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    scope: scope.kind,
+    name: scopeName(scope),
+    collections: (await listCollections()).filter(collection => usedCollections.has(collection.id)),
+    images,
+  };
+  files.unshift({ name: MANIFEST_FILE, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+
+  const date = new Date().toISOString().slice(0, 10);
+  return {
+    blob: createZip(files),
+    filename: `text2image-${slug(manifest.name)}-${date}.zip`,
+    count: images.filter(image => !image.parentId).length,
+  };
+}
+
+function parseManifest(text: string): ArchiveManifest {
+  let manifest: ArchiveManifest;
+  try {
+    manifest = JSON.parse(text);
+  } catch {
+    throw new Error('The archive manifest is not valid JSON.');
+  }
+  if (manifest?.format !== ARCHIVE_FORMAT || !Array.isArray(manifest.images)) {
+    throw new Error('This ZIP is not a Text 2 Image gallery export.');
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > ARCHIVE_VERSION) {
+    throw new Error(`This archive was made by a newer version of the app (format ${manifest.version}).`);
+  }
+  const valid = manifest.images.every(image =>
+    typeof image?.id === 'string' && typeof image.prompt === 'string' && typeof image.timestamp === 'number' && typeof image.file === 'string'
+  );
+  if (!valid) {
+    throw new Error('The archive manifest has entries without an id, prompt, timestamp or file.');
+  }
+  return { ...manifest, collections: Array.isArray(manifest.collections) ? manifest.collections : [] };
+}
+
+/**
+ * Reads an archive and compares it with the gallery without writing anything,
+ * so the caller can preview duplicates and conflicts first.
+ */
+export async function readArchive(file: Blob): Promise<ImportPlan> {
+  const files = new Map((await readZip(file)).map(entry => [entry.name, entry.data]));
+  const manifestData = files.get(MANIFEST_FILE);
+  if (!manifestData) {
+    throw new Error('The archive has no manifest.json.');
+  }
+  const manifest = parseManifest(new TextDecoder().decode(manifestData));
+
+  const existing = await loadStoredImages();
+  const hashById = new Map<string, string>();
+  const idByHash = new Map<string, string>();
+  for (const { image, blob } of existing) {
+    const hash = await sha256(await blob.arrayBuffer());
+    hashById.set(image.id, hash);
+    idByHash.set(hash, image.id);
+  }
+
+  const items: ImportItem[] = [];
+  for (const image of manifest.images) {
+    const data = files.get(image.file);
+    if (!data) throw new Error(`The archive is missing ${image.file}.`);
+    const hash = await sha256(data);
+    const blob = new Blob([data], { type: image.mimeType || 'image/png' });
+    const entry = { ...image, sha256: hash };
+
+    if (hashById.has(image.id)) {
+      items.push({ image: entry, blob, status: hashById.get(image.id) === hash ? 'duplicate' : 'id-conflict', existingId: image.id });
+    } else if (idByHash.has(hash)) {
+      items.push({ image: entry, blob, status: 'same-content', existingId: idByHash.get(hash) });
+    } else {
+      items.push({ image: entry, blob, status: 'new' });
+    }
+  }
+  return { manifest, items };
+}
+
+/**
+ * Writes the plan into the gallery. Duplicates are never written twice; images
+ * whose id is taken by different pixels follow `resolution`. Lineage links are
+ * rewritten so kept-both copies and reused duplicates stay connected, and
+ * versions whose parent was skipped are skipped with it.
+ */
+export async function applyImport(plan: ImportPlan, resolution: ConflictResolution): Promise<ImportResult> {
+  const idMap = new Map<string, string>();
+  const skipped = new Set<string>();
+  const toWrite: ImportItem[] = [];
+
+  // Parents always predate their versions, so this order visits a parent first
+  const ordered = [...plan.items].sort((a, b) =>
+    Number(!!a.image.parentId) - Number(!!b.image.parentId) || a.image.timestamp - b.image.timestamp
+  );
+
+  for (const item of ordered) {
+    const { id, parentId } = item.image;
+    if (parentId && skipped.has(parentId)) {
+      skipped.add(id);
+    } else if (item.status === 'duplicate' || item.status === 'same-content') {
+      idMap.set(id, item.existingId!);
+    } else if (item.status === 'id-conflict' && resolution === 'skip') {
+      skipped.add(id);
+    } else {
+      idMap.set(id, item.status === 'id-conflict' && resolution === 'keep-both' ? Math.random().toString(36).substr(2, 9) : id);
+      toWrite.push(item);
+    }
+  }
+
+  const localCollections = await listCollections();
+  const knownCollections = new Set(localCollections.map(collection => collection.id));
+  const newCollections = plan.manifest.collections.filter(collection => !knownCollections.has(collection.id));
+  for (const collection of newCollections) {
+    await saveCollection(collection);
+    knownCollections.add(collection.id);
+  }
+
+  const remap = (id?: string) => (id ? idMap.get(id) ?? id : undefined);
+  const entries: StoredImage[] = toWrite.map(({ image: { file, mimeType, sha256: hash, ...image }, blob }) => ({
+    image: {
+      ...image,
+      id: idMap.get(image.id)!,
+      parentId: remap(image.parentId),
+      rootId: remap(image.rootId),
+      activeVersionId: image.activeVersionId && idMap.has(image.activeVersionId) ? idMap.get(image.activeVersionId) : undefined,
+      collectionIds: image.collectionIds?.filter(id => knownCollections.has(id)),
+    },
+    blob,
+  }));
+  await saveImages(entries);
+
+  return {
+    imported: entries.length,
+    skipped: plan.items.length - entries.length,
+    collections: newCollections.length,
+  };
+}
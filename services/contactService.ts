@@ -0,0 +1,78 @@
+import { HONEYPOT_FIELD, validateContact, validateSubscription } from "../server/formRules.js";
+import { trimTrailingSlash } from "./providers/utils";
+
+// Forms go to the same API server that proxies Gemini (server/index.js)
+const API_URL = trimTrailingSlash(process.env.GEMINI_PROXY_URL || '');
+
+export type FieldErrors = Record<string, string>;
+
+export interface ContactMessage {
+  name: string;
+  email: string;
+  subject: string;
+  message: string;
+}
+
+/** A rejected submission. `fields` maps form fields to what is wrong with them. */
+export class SubmissionError extends Error {
+  readonly fields: FieldErrors;
+
+  constructor(message: string, fields: FieldErrors = {}) {
+    super(message);
+    this.name = 'SubmissionError';
+    this.fields = fields;
+  }
+}
+
+function assertValid(errors: FieldErrors) {
+  if (Object.keys(errors).length > 0) {
+    throw new SubmissionError('Some fields need attention.', errors);
+  }
+}
+
+async function post(path: string, body: Record<string, string>): Promise<any> {
+  let response: Response;
+  try {
+    response = await fetch(`${API_URL}/api/${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  } catch (e) {
+    console.error("Failed to reach the API server", e);
+    throw new SubmissionError('Could not reach the server. Check your connection and try again.');
+  }
+
+  const result = await response.json().catch(() => null);
+  if (!response.ok) {
+    if (response.status === 429) {
+      throw new SubmissionError('Too many submissions from your network. Please try again in a few minutes.');
+    }
+    throw new SubmissionError(
+      result?.error?.message || `The server could not accept the form (status ${response.status}).`,
+      result?.error?.fields
+    );
+  }
+  return result;
+}
+
+/** Field errors for a contact message, checked with the same rules as the server. */
+export function checkContactMessage(form: ContactMessage): FieldErrors {
+  return validateContact(form).errors;
+}
+
+/**
+ * Sends a contact message. `honeypot` is the value of the hidden field people
+ * never see; it is passed through so the server can drop bot submissions.
+ */
+export async function submitContactMessage(form: ContactMessage, honeypot = ''): Promise<void> {
+  assertValid(checkContactMessage(form));
+  await post('contact', { ...form, [HONEYPOT_FIELD]: honeypot });
+}
+
+/** Adds `email` to the newsletter. Resolves to true when it was already subscribed. */
+export async function subscribeToNewsletter(email: string, honeypot = ''): Promise<boolean> {
+  assertValid(validateSubscription({ email }).errors);
+  const result = await post('newsletter', { email, [HONEYPOT_FIELD]: honeypot });
+  return !!result?.alreadySubscribed;
+}
@@ -0,0 +1,33 @@
+import { GeneratedImage } from "../types";
+import { pngWithMetadata } from "./pngMetadata";
+
+/** Saves `url` (data, blob or object URL) to the user's downloads folder. */
+export function downloadUrl(url: string, filename: string): void {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  downloadUrl(url, filename);
+  URL.revokeObjectURL(url);
+}
+
+/** Downloads an image as a PNG with its prompt and edit chain embedded. `versions` is its edit tree. */
+export async function downloadImage(image: GeneratedImage, versions: GeneratedImage[]): Promise<void> {
+  downloadBlob(await pngWithMetadata(image, versions), `lumina-ai-${image.id}.png`);
+}
+
+// Browsers drop some of a burst of programmatic downloads, so they are spaced out
+const BULK_DOWNLOAD_DELAY_MS = 250;
+
+export async function downloadImages(items: { image: GeneratedImage; versions: GeneratedImage[] }[]): Promise<void> {
+  for (const [i, { image, versions }] of items.entries()) {
+    if (i > 0) await new Promise(resolve => setTimeout(resolve, BULK_DOWNLOAD_DELAY_MS));
+    await downloadImage(image, versions);
+  }
+}
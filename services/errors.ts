@@ -0,0 +1,224 @@
+export type ImageErrorKind = 'auth' | 'quota' | 'safety' | 'invalid-input' | 'network' | 'timeout' | 'empty-response' | 'budget';
+
+export interface SafetyRatingSummary {
+  category?: string;
+  probability?: string;
+  blocked?: boolean;
+}
+
+export interface ImageErrorDetails {
+  status?: number;
+  retryAfterMs?: number;
+  finishReason?: string;
+  safetyRatings?: SafetyRatingSummary[];
+  // Any text part the model sent instead of (or alongside) an image
+  modelText?: string;
+  cause?: unknown;
+}
+
+/**
+ * Base class for every failure surfaced by the image service. `title` and
+ * `hint` are written for the error banner; `message` keeps the provider's wording.
+ */
+export abstract class ImageServiceError extends Error {
+  abstract readonly kind: ImageErrorKind;
+  abstract readonly title: string;
+  abstract readonly hint: string;
+  readonly retryable: boolean = false;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+  readonly finishReason?: string;
+  readonly safetyRatings?: SafetyRatingSummary[];
+  readonly modelText?: string;
+
+  constructor(message: string, details: ImageErrorDetails = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs;
+    this.finishReason = details.finishReason;
+    this.safetyRatings = details.safetyRatings;
+    this.modelText = details.modelText;
+    if (details.cause !== undefined) {
+      (this as { cause?: unknown }).cause = details.cause;
+    }
+  }
+}
+
+export class AuthError extends ImageServiceError {
+  readonly kind = 'auth';
+  readonly title = 'API key rejected';
+  readonly hint = 'Check that the API key for this provider is set and still valid, then try again.';
+}
+
+export class QuotaError extends ImageServiceError {
+  readonly kind = 'quota';
+  readonly title = 'Rate limit or quota reached';
+  readonly hint = 'Wait a minute before retrying, lower the number of jobs running at once, or check your plan\'s quota.';
+  readonly retryable = true;
+}
+
+export class SafetyBlockedError extends ImageServiceError {
+  readonly kind = 'safety';
+  readonly title = 'Blocked by safety filters';
+  readonly hint = 'Rephrase the prompt to avoid sensitive subjects, real people or copyrighted characters.';
+}
+
+export class InvalidInputError extends ImageServiceError {
+  readonly kind = 'invalid-input';
+  readonly title = 'Request was rejected';
+  readonly hint = 'Check the prompt, the selected model and any attached image, then try again.';
+}
+
+export class NetworkError extends ImageServiceError {
+  readonly kind = 'network';
+  readonly title = 'Could not reach the provider';
+  readonly hint = 'Check your connection or the provider\'s server address. The request was retried automatically.';
+  readonly retryable = true;
+}
+
+// Not retried: a job that stalled once would most likely stall again
+export class TimeoutError extends ImageServiceError {
+  readonly kind = 'timeout';
+  readonly title = 'The provider took too long';
+  readonly hint = 'The job was cancelled on the server. Check that it is not overloaded or stuck, then try again.';
+}
+
+export class EmptyResponseError extends ImageServiceError {
+  readonly kind = 'empty-response';
+  readonly title = 'No image came back';
+  readonly hint = 'The model answered without an image. Try again, or make the prompt more explicitly visual.';
+}
+
+export class BudgetExceededError extends ImageServiceError {
+  readonly kind = 'budget';
+  readonly title = 'Spending limit reached';
+  readonly hint = 'Raise or clear the hard limit on the Usage page, or wait for the next day or month.';
+}
+
+const SAFETY_REASONS = new Set([
+  'SAFETY',
+  'BLOCKLIST',
+  'PROHIBITED_CONTENT',
+  'SPII',
+  'IMAGE_SAFETY',
+  'IMAGE_PROHIBITED_CONTENT',
+  'RECITATION',
+  'IMAGE_RECITATION',
+]);
+
+export function isSafetyReason(reason?: string): boolean {
+  return !!reason && SAFETY_REASONS.has(reason);
+}
+
+export function isAbortError(error: unknown): error is Error {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/** Parses a Retry-After header (seconds or HTTP date) into milliseconds. */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Google APIs put the back-off hint in the error body as RetryInfo, e.g. "retryDelay": "23s"
+function parseRetryDelay(message: string): number | undefined {
+  const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Number(match[1]) * 1000 : undefined;
+}
+
+/** Maps an HTTP status from any provider onto the error hierarchy. */
+export function errorFromStatus(status: number, message: string, details: ImageErrorDetails = {}): ImageServiceError {
+  const merged = { ...details, status };
+  if (status === 401 || status === 403 || /API key/i.test(message)) return new AuthError(message, merged);
+  if (status === 429) return new QuotaError(message, { ...merged, retryAfterMs: details.retryAfterMs ?? parseRetryDelay(message) });
+  if (status >= 500) return new NetworkError(message, merged);
+  if (/safety|content policy|moderation/i.test(message)) return new SafetyBlockedError(message, merged);
+  return new InvalidInputError(message, merged);
+}
+
+/** Normalizes anything a provider throws. Abort errors pass through untouched. */
+export function toImageServiceError(error: unknown): unknown {
+  if (error instanceof ImageServiceError || isAbortError(error)) return error;
+
+  const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : undefined;
+  const message = error instanceof Error ? error.message : String(error);
+  if (status) return errorFromStatus(status, message, { cause: error });
+  if (error instanceof TypeError) return new NetworkError(message, { cause: error });
+  if (/RESOURCE_EXHAUSTED|quota/i.test(message)) return new QuotaError(message, { retryAfterMs: parseRetryDelay(message), cause: error });
+  if (/API key|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) return new AuthError(message, { cause: error });
+  return error;
+}
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs `task`, retrying transient failures with exponential backoff and jitter.
+ * A server-provided Retry-After always wins over the computed delay.
+ */
+export async function withRetry<T>(task: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { retries = 3, baseDelayMs = 1000, maxDelayMs = 30000, signal } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (raw) {
+      const error = toImageServiceError(raw);
+      if (!(error instanceof ImageServiceError) || !error.retryable || attempt >= retries || signal?.aborted) {
+        throw error;
+      }
+
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (0.5 + Math.random() / 2);
+      const delay = error.retryAfterMs ?? backoff;
+      console.warn(`${error.name} on attempt ${attempt + 1}, retrying in ${Math.round(delay)}ms`);
+      await sleep(delay, signal);
+    }
+  }
+}
+
+export interface ErrorNotice {
+  title: string;
+  message: string;
+  hint?: string;
+  modelText?: string;
+}
+
+/** Turns any thrown value into what the error banner shows. */
+export function toErrorNotice(error: unknown, fallbackTitle: string): ErrorNotice {
+  const normalized = toImageServiceError(error);
+  if (normalized instanceof ImageServiceError) {
+    return {
+      title: normalized.title,
+      message: normalized.message,
+      hint: normalized.hint,
+      modelText: normalized.modelText,
+    };
+  }
+  return {
+    title: fallbackTitle,
+    message: normalized instanceof Error ? normalized.message : String(normalized),
+  };
+}
@@ -0,0 +1,127 @@
+import { AspectRatio, GeneratedImage } from "../types";
+import { createCanvas, loadImage } from "./imageProcessing";
+import { withPngMetadata } from "./pngMetadata";
+
+export type ExportFormat = 'original' | 'png' | 'jpeg' | 'webp';
+export type FitMode = 'crop' | 'pad';
+
+export type ExportSize =
+  | { kind: 'original' }
+  | { kind: 'long-side'; pixels: number }
+  | { kind: 'custom'; width: number; height: number };
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // 0–1, used by JPEG and WebP
+  quality: number;
+  size: ExportSize;
+  // Crop or pad to this ratio; null keeps the image's own. Ignored for custom sizes.
+  aspectRatio: AspectRatio | null;
+  fit: FitMode;
+  // Fill for padding; 'transparent' becomes white for JPEG
+  background: string;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'original',
+  quality: 0.9,
+  size: { kind: 'original' },
+  aspectRatio: null,
+  fit: 'crop',
+  background: 'transparent',
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp',
+};
+
+export function extensionFor(mimeType: string): string {
+  return EXTENSIONS[mimeType] ?? 'png';
+}
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+/** Final pixel size for `source` under `options`. */
+export function outputSize(source: Size, options: ExportOptions): Size {
+  if (options.size.kind === 'custom') {
+    return { width: Math.max(1, Math.round(options.size.width)), height: Math.max(1, Math.round(options.size.height)) };
+  }
+
+  let { width, height } = source;
+  if (options.aspectRatio) {
+    const [w, h] = options.aspectRatio.split(':').map(Number);
+    const target = w / h;
+    // Cropping trims the long dimension; padding grows the short one
+    const trimWidth = width / height > target;
+    if ((options.fit === 'crop') === trimWidth) {
+      width = height * target;
+    } else {
+      height = width / target;
+    }
+  }
+
+  if (options.size.kind === 'long-side') {
+    const scale = options.size.pixels / Math.max(width, height);
+    width *= scale;
+    height *= scale;
+  }
+  return { width: Math.max(1, Math.round(width)), height: Math.max(1, Math.round(height)) };
+}
+
+function isUnchanged(source: Size, target: Size, options: ExportOptions): boolean {
+  return options.format === 'original' && target.width === source.width && target.height === source.height;
+}
+
+function outputMimeType(sourceType: string, format: ExportFormat): string {
+  if (format !== 'original') return `image/${format}`;
+  return ['image/png', 'image/jpeg', 'image/webp'].includes(sourceType) ? sourceType : 'image/png';
+}
+
+/**
+ * Renders `image` with the export options applied. PNG output carries the
+ * generation record; `versions` is the image's edit tree, for the edit chain.
+ */
+export async function renderExport(
+  image: GeneratedImage,
+  versions: GeneratedImage[],
+  options: ExportOptions
+): Promise<{ blob: Blob; width: number; height: number; filename: string }> {
+  const source = await (await fetch(image.url)).blob();
+  const img = await loadImage(image.url);
+  const sourceSize = { width: img.naturalWidth, height: img.naturalHeight };
+  const target = outputSize(sourceSize, options);
+
+  let blob = source;
+  if (!isUnchanged(sourceSize, target, options)) {
+    const mimeType = outputMimeType(source.type, options.format);
+    const [canvas, ctx] = createCanvas(target.width, target.height);
+    const background = options.background === 'transparent' && mimeType === 'image/jpeg' ? '#ffffff' : options.background;
+    if (background !== 'transparent') {
+      ctx.fillStyle = background;
+      ctx.fillRect(0, 0, target.width, target.height);
+    }
+
+    const fit = options.fit === 'crop' ? Math.max : Math.min;
+    const scale = fit(target.width / sourceSize.width, target.height / sourceSize.height);
+    const drawWidth = sourceSize.width * scale;
+    const drawHeight = sourceSize.height * scale;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, (target.width - drawWidth) / 2, (target.height - drawHeight) / 2, drawWidth, drawHeight);
+
+    const encoded = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mimeType, options.quality));
+    if (!encoded) throw new Error(`This browser cannot encode ${mimeType}.`);
+    blob = encoded;
+  }
+
+  if (blob.type === 'image/png') {
+    blob = await withPngMetadata(blob, image, versions);
+  }
+  return { blob, ...target, filename: `lumina-ai-${image.id}.${extensionFor(blob.type)}` };
+}
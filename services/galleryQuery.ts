@@ -0,0 +1,107 @@
+import { AspectRatio, GalleryQuery, GeneratedImage } from "../types";
+
+export const DEFAULT_GALLERY_QUERY: GalleryQuery = {
+  text: '',
+  favoritesOnly: false,
+  tags: [],
+  aspectRatios: [],
+  provider: null,
+  from: null,
+  to: null,
+  collectionId: null,
+  sort: 'newest',
+};
+
+export const UPLOAD_PROVIDER_FILTER = 'upload';
+
+type Lineage<T> = { root: T; versions: T[] };
+type ImageLike = Omit<GeneratedImage, 'url'>;
+
+export function isFilteredQuery(query: GalleryQuery): boolean {
+  return query.text.trim() !== ''
+    || query.favoritesOnly
+    || query.tags.length > 0
+    || query.aspectRatios.length > 0
+    || query.provider !== null
+    || query.from !== null
+    || query.to !== null
+    || query.collectionId !== null;
+}
+
+/** Groups records into version trees keyed by their root. Orphaned versions are dropped. */
+export function groupLineages<T extends ImageLike>(records: T[]): Lineage<T>[] {
+  const byRoot = new Map<string, Lineage<T>>();
+  for (const record of records) {
+    if (!record.parentId) byRoot.set(record.id, { root: record, versions: [] });
+  }
+  for (const record of records) {
+    if (record.parentId) byRoot.get(record.rootId ?? record.id)?.versions.push(record);
+  }
+  return Array.from(byRoot.values());
+}
+
+function matches({ root, versions }: Lineage<ImageLike>, query: GalleryQuery): boolean {
+  const terms = query.text.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length > 0) {
+    const haystack = [root.prompt, ...(root.tags ?? []), ...versions.map(v => v.editPrompt ?? '')]
+      .join(' ')
+      .toLowerCase();
+    if (!terms.every(term => haystack.includes(term))) return false;
+  }
+  if (query.favoritesOnly && !root.favorite) return false;
+  if (query.tags.length > 0 && !query.tags.every(tag => root.tags?.includes(tag))) return false;
+  if (query.aspectRatios.length > 0 && !query.aspectRatios.includes(root.aspectRatio as AspectRatio)) return false;
+  if (query.provider) {
+    const provider = root.origin === 'upload' ? UPLOAD_PROVIDER_FILTER : root.provider;
+    if (provider !== query.provider) return false;
+  }
+  if (query.from !== null && root.timestamp < query.from) return false;
+  if (query.to !== null && root.timestamp > query.to) return false;
+  if (query.collectionId && !root.collectionIds?.includes(query.collectionId)) return false;
+  return true;
+}
+
+const COMPARATORS: Record<GalleryQuery['sort'], (a: Lineage<ImageLike>, b: Lineage<ImageLike>) => number> = {
+  newest: (a, b) => b.root.timestamp - a.root.timestamp,
+  oldest: (a, b) => a.root.timestamp - b.root.timestamp,
+  prompt: (a, b) => a.root.prompt.localeCompare(b.root.prompt),
+  favorites: (a, b) => Number(!!b.root.favorite) - Number(!!a.root.favorite) || b.root.timestamp - a.root.timestamp,
+  'most-edited': (a, b) => b.versions.length - a.versions.length || b.root.timestamp - a.root.timestamp,
+};
+
+/** Filters and sorts version trees; the search text also matches tags and edit instructions. */
+export function queryLineages<T extends ImageLike>(records: T[], query: GalleryQuery): Lineage<T>[] {
+  return groupLineages(records)
+    .filter(lineage => matches(lineage, query))
+    .sort(COMPARATORS[query.sort]);
+}
+
+/** Every tag in use, most frequent first. */
+export function collectTags(records: ImageLike[]): string[] {
+  const counts = new Map<string, number>();
+  for (const record of records) {
+    for (const tag of record.tags ?? []) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]).map(([tag]) => tag);
+}
+
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+/** The alt attribute for a version: its description when it has one, else the original prompt. */
+export function altTextOf(image: GeneratedImage, root: GeneratedImage = image): string {
+  return image.altText || root.prompt;
+}
+
+const RATIOS: AspectRatio[] = ['1:1', '16:9', '9:16', '4:3', '3:4'];
+
+/** The supported ratio closest to a pixel size, for images that did not record one. */
+export function nearestAspectRatio(width: number, height: number): AspectRatio {
+  const target = Math.log(width / height);
+  return RATIOS.reduce((best, ratio) => {
+    const [w, h] = ratio.split(':').map(Number);
+    const [bw, bh] = best.split(':').map(Number);
+    return Math.abs(Math.log(w / h) - target) < Math.abs(Math.log(bw / bh) - target) ? ratio : best;
+  });
+}
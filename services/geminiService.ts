@@ -1,88 +1,349 @@
+import { AspectRatio, CanvasExtension, ConversationReply, ConversationTurn, GenerationProgress, ImageDescription, PromptPreset, ProviderId, ReferenceImage, TokenUsage, UsageKind } from "../types";
+import { EmptyResponseError, InvalidInputError, isAbortError, withRetry } from "./errors";
+import { compositeWithMask, padToAspectRatio } from "./imageProcessing";
+import { normalizeTag } from "./galleryQuery";
+import { DEFAULT_PROVIDER_ID, getProvider, hasProvider } from "./providers/registry";
+import { GEMINI_TEXT_MODEL, generateGeminiText } from "./providers/geminiProvider";
+import { blobToDataUrl } from "./providers/utils";
+import { assertWithinBudget, recordUsage } from "./usageService";
+import { loadSettings } from "./settingsService";
 
-import { GoogleGenAI } from "@google/genai";
-import { AspectRatio } from "../types";
+// Anything left out comes from the Settings page, read at call time
+export interface ImageRequestOptions {
+  provider?: ProviderId;
+  model?: string;
+  temperature?: number;
+  seed?: number;
+  signal?: AbortSignal;
+  // Interim output from backends that stream it
+  onProgress?: (progress: GenerationProgress) => void;
+}
+
+export interface GenerateOptions extends ImageRequestOptions {
+  references?: ReferenceImage[];
+  negativePrompt?: string;
+}
+
+export interface EditOptions extends ImageRequestOptions {
+  // Restricts the edit to the white area; everything else is kept pixel-for-pixel
+  mask?: string;
+}
 
-const MODEL_NAME = 'gemini-2.5-flash-image';
+function resolve(options: ImageRequestOptions) {
+  const settings = loadSettings();
+  const savedProvider = settings.provider && hasProvider(settings.provider) ? settings.provider : DEFAULT_PROVIDER_ID;
+  const provider = getProvider(options.provider || savedProvider);
+  const savedModel = provider.id === savedProvider && settings.model && provider.models.includes(settings.model)
+    ? settings.model
+    : provider.defaultModel;
+  return {
+    provider,
+    model: options.model || savedModel,
+    temperature: options.temperature ?? settings.temperature ?? undefined,
+    seed: options.seed ?? settings.seed ?? undefined,
+  };
+}
+
+const textModel = () => loadSettings().textModel || GEMINI_TEXT_MODEL;
+
+// Gallery images are object URLs; providers expect inline data.
+async function toDataUrl(url: string): Promise<string> {
+  if (url.startsWith('data:')) return url;
+  const response = await fetch(url);
+  return blobToDataUrl(await response.blob());
+}
+
+// Runs one provider request, logging its tokens, latency and outcome for the Usage page.
+// Cancelled requests are not logged.
+async function metered<T>(
+  kind: UsageKind,
+  provider: ProviderId,
+  model: string,
+  run: (onUsage: (usage: TokenUsage) => void) => Promise<T>
+): Promise<T> {
+  await assertWithinBudget();
+  let usage: TokenUsage = {};
+  const started = performance.now();
+  const log = (status: 'success' | 'failed') => recordUsage({
+    kind,
+    provider,
+    model,
+    ...usage,
+    latencyMs: Math.round(performance.now() - started),
+    timestamp: Date.now(),
+    status,
+  }).catch(e => console.error("Failed to record usage", e));
 
-export async function generateImageFromText(prompt: string, aspectRatio: AspectRatio = '1:1'): Promise<string> {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-  
   try {
-    const response = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: {
-        parts: [{ text: prompt }],
-      },
-      config: {
-        imageConfig: {
-          aspectRatio: aspectRatio,
-        },
-      },
+    const result = await run(reported => {
+      usage = reported;
     });
+    log('success');
+    return result;
+  } catch (error) {
+    if (!isAbortError(error)) log('failed');
+    throw error;
+  }
+}
 
-    let imageUrl = '';
-    const candidates = response.candidates;
-    if (candidates && candidates.length > 0) {
-      for (const part of candidates[0].content.parts) {
-        if (part.inlineData) {
-          imageUrl = `data:image/png;base64,${part.inlineData.data}`;
-          break;
-        }
-      }
-    }
+export async function generateImageFromText(
+  prompt: string,
+  aspectRatio: AspectRatio = '1:1',
+  options: GenerateOptions = {}
+): Promise<string> {
+  const { provider, model, temperature, seed } = resolve(options);
+  const { signal, onProgress } = options;
 
-    if (!imageUrl) {
-      throw new Error("No image was generated by the model.");
+  try {
+    if ((options.references?.length ?? 0) > provider.maxReferenceImages) {
+      throw new InvalidInputError(
+        `${provider.label} accepts at most ${provider.maxReferenceImages} reference images.`
+      );
     }
-
-    return imageUrl;
+    const references = await Promise.all(
+      (options.references ?? []).map(async reference => ({ ...reference, url: await toDataUrl(reference.url) }))
+    );
+    return await metered('generate', provider.id, model, onUsage => withRetry(
+      () => provider.generate({ prompt, aspectRatio, model, references, negativePrompt: options.negativePrompt, temperature, seed, signal, onUsage, onProgress }),
+      { signal }
+    ));
   } catch (error) {
     console.error("Image generation failed:", error);
     throw error;
   }
 }
 
-export async function editExistingImage(prompt: string, base64Image: string): Promise<string> {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-  
-  // Extract the base64 data from the data URL
-  const base64Data = base64Image.split(',')[1];
-  const mimeType = base64Image.split(';')[0].split(':')[1];
+export async function editExistingImage(
+  prompt: string,
+  imageUrl: string,
+  options: EditOptions = {}
+): Promise<string> {
+  const { provider, model, temperature, seed } = resolve(options);
 
   try {
-    const response = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              data: base64Data,
-              mimeType: mimeType || 'image/png',
-            },
-          },
-          { text: prompt },
-        ],
-      },
-    });
+    const image = await toDataUrl(imageUrl);
+    const { mask, signal, onProgress } = options;
+    const result = await metered('edit', provider.id, model, onUsage => withRetry(
+      () => provider.edit({ prompt, image, mask, model, temperature, seed, signal, onUsage, onProgress }),
+      { signal }
+    ));
+    return mask ? await compositeWithMask(image, result, mask) : result;
+  } catch (error) {
+    console.error("Image editing failed:", error);
+    throw error;
+  }
+}
+
+const EXTEND_INSTRUCTION = 'Extend this image outward to fill the marked area. Continue the scene seamlessly: match perspective, lighting, colour and style, with no visible border. Keep the original content unchanged.';
+
+/**
+ * Outpaints `imageUrl` to a new aspect ratio. The original is placed unscaled
+ * at `anchor` on a larger canvas and the model fills the rest; with
+ * `preserveOriginal` the original pixels are put back exactly afterwards.
+ */
+export async function extendImage(
+  imageUrl: string,
+  extension: CanvasExtension,
+  options: ImageRequestOptions = {}
+): Promise<string> {
+  const { provider, model, temperature, seed } = resolve(options);
+  const { signal, onProgress } = options;
+
+  try {
+    const padded = await padToAspectRatio(await toDataUrl(imageUrl), extension.aspectRatio, extension.anchor);
+    const prompt = extension.prompt?.trim() ? `${EXTEND_INSTRUCTION}\n\nIn the new area: ${extension.prompt.trim()}` : EXTEND_INSTRUCTION;
+    const result = await metered('edit', provider.id, model, onUsage => withRetry(
+      () => provider.edit({ prompt, image: padded.image, mask: padded.mask, aspectRatio: extension.aspectRatio, model, temperature, seed, signal, onUsage, onProgress }),
+      { signal }
+    ));
+    // The new area takes the model's pixels, alpha included, so it never keeps the padding's transparency
+    return extension.preserveOriginal ? await compositeWithMask(padded.image, result, padded.mask) : result;
+  } catch (error) {
+    console.error("Canvas extension failed:", error);
+    throw error;
+  }
+}
+
+// Conversations are trimmed to stay within what one request may carry
+const MAX_CONVERSATION_TURNS = 24;
+const MAX_CONVERSATION_IMAGES = 4;
+
+// Keeps the opening turn (the source image) and the most recent turns, and
+// sends only the newest images; older ones are replaced by a short note.
+function trimConversation(turns: ConversationTurn[]): ConversationTurn[] {
+  let kept = turns;
+  if (turns.length > MAX_CONVERSATION_TURNS) {
+    let start = turns.length - (MAX_CONVERSATION_TURNS - 1);
+    while (start < turns.length && turns[start].role !== 'user') start++;
+    kept = [turns[0], ...turns.slice(start)];
+  }
+  const withImages = kept.slice(1).filter(turn => turn.image).slice(-(MAX_CONVERSATION_IMAGES - 1));
+  return kept.map((turn, index) => {
+    if (index === 0 || !turn.image || withImages.includes(turn)) return turn;
+    const { image, ...rest } = turn;
+    return rest.text ? rest : { ...rest, text: '[earlier image omitted]' };
+  });
+}
+
+/**
+ * Sends a whole editing conversation, ending with the user's newest
+ * instruction, so the model refines its previous results. The first turn must
+ * carry the image being edited.
+ */
+export async function continueConversation(
+  turns: ConversationTurn[],
+  options: ImageRequestOptions = {}
+): Promise<ConversationReply> {
+  const { provider, model } = resolve(options);
+  const { signal } = options;
 
-    let imageUrl = '';
-    const candidates = response.candidates;
-    if (candidates && candidates.length > 0) {
-      for (const part of candidates[0].content.parts) {
-        if (part.inlineData) {
-          imageUrl = `data:image/png;base64,${part.inlineData.data}`;
-          break;
-        }
-      }
+  try {
+    if (!provider.converse) {
+      throw new InvalidInputError(`${provider.label} does not support conversational editing.`);
     }
+    const converse = provider.converse;
+    const prepared = await Promise.all(trimConversation(turns).map(async turn => (
+      turn.image ? { ...turn, image: await toDataUrl(turn.image) } : turn
+    )));
+    return await metered('edit', provider.id, model, onUsage => withRetry(
+      () => converse({ turns: prepared, model, signal, onUsage }),
+      { signal }
+    ));
+  } catch (error) {
+    console.error("Conversational edit failed:", error);
+    throw error;
+  }
+}
+
+export interface EnhanceOptions {
+  style?: PromptPreset;
+  // Number of rewrites to ask for, 2 or 3
+  count?: number;
+  signal?: AbortSignal;
+}
 
-    if (!imageUrl) {
-      throw new Error("No edited image was returned by the model.");
+const ORIENTATION: Record<AspectRatio, string> = {
+  '1:1': 'square',
+  '16:9': 'wide landscape',
+  '4:3': 'landscape',
+  '9:16': 'tall portrait',
+  '3:4': 'portrait',
+};
+
+const ENHANCE_INSTRUCTION = `You rewrite short image prompts into detailed prompts for an image generation model.
+Keep the user's subject and intent; never change what the image is about.
+Add concrete detail: setting, lighting, composition, camera or medium, mood and colour palette.
+Each rewrite is one paragraph of at most 80 words, in plain descriptive language, with no lists, quotes or preamble.
+Make the rewrites meaningfully different from each other.
+Answer with JSON only: {"candidates": ["...", "..."]}`;
+
+/**
+ * Asks a Gemini text model for 2–3 more detailed rewrites of `draft`, composed
+ * for `aspectRatio`. A style preset is described to the model but its modifiers
+ * are not repeated, since they are appended again at generation time.
+ */
+export async function enhancePrompt(
+  draft: string,
+  aspectRatio: AspectRatio = '1:1',
+  options: EnhanceOptions = {}
+): Promise<string[]> {
+  const { style, signal } = options;
+  const count = Math.min(3, Math.max(2, options.count ?? 3));
+  const request = [
+    `Prompt: ${draft.trim()}`,
+    `Frame: ${aspectRatio} (${ORIENTATION[aspectRatio]}); compose for that shape.`,
+    style && `Style: "${style.name}" will be added separately (${style.text}). Keep the rewrites consistent with it without repeating it.`,
+    `Write ${count} rewrites.`,
+  ].filter(Boolean).join('\n');
+
+  try {
+    if (!draft.trim()) {
+      throw new InvalidInputError('Write a prompt before enhancing it.');
     }
+    const model = textModel();
+    const answer = await metered('enhance', 'gemini', model, onUsage => withRetry(
+      () => generateGeminiText({ prompt: request, systemInstruction: ENHANCE_INSTRUCTION, temperature: 1, json: true, model, signal, onUsage }),
+      { signal }
+    ));
+    const candidates = parseCandidates(answer);
+    if (candidates.length === 0) {
+      throw new EmptyResponseError("The text model did not return any rewrites.", { modelText: answer });
+    }
+    return candidates.slice(0, count);
+  } catch (error) {
+    console.error("Prompt enhancement failed:", error);
+    throw error;
+  }
+}
+
+// Tolerates a fenced code block around the JSON; null when it does not parse
+function parseJsonAnswer(answer: string): unknown {
+  try {
+    return JSON.parse(answer.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch {
+    return null;
+  }
+}
 
-    return imageUrl;
+// A property of a parsed JSON object; undefined for arrays and other values
+function fieldOf(value: unknown, key: string): unknown {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>)[key] : undefined;
+}
+
+const trimmedString = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+// Trimmed, non-empty, first occurrence only
+function uniqueStrings(list: unknown, normalize = (item: string) => item.trim()): string[] {
+  if (!Array.isArray(list)) return [];
+  return Array.from(new Set(
+    list.filter((item): item is string => typeof item === 'string').map(normalize).filter(Boolean)
+  ));
+}
+
+// Accepts a bare array as well as {"candidates": [...]}
+function parseCandidates(answer: string): string[] {
+  const parsed = parseJsonAnswer(answer);
+  return uniqueStrings(Array.isArray(parsed) ? parsed : fieldOf(parsed, 'candidates'));
+}
+
+const DESCRIBE_INSTRUCTION = `You describe images for an image generation studio.
+Answer with JSON only: {"prompt": "...", "altText": "...", "tags": ["..."]}
+- prompt: one paragraph of at most 80 words that would make an image generation model reproduce this image: subject, setting, composition, lighting, medium or camera, style and colour palette.
+- altText: alt text for a screen reader, one or two plain sentences of at most 150 characters. Describe what is shown; do not start with "Image of" or mention that it was generated.
+- tags: 3 to 8 short lowercase keywords for the subject, style and mood.`;
+
+/**
+ * Asks a Gemini vision model to describe an image: a prompt that reproduces
+ * it, accessible alt text, and suggested tags.
+ */
+export async function describeImage(imageUrl: string, options: { signal?: AbortSignal } = {}): Promise<ImageDescription> {
+  const { signal } = options;
+
+  try {
+    const image = await toDataUrl(imageUrl);
+    const model = textModel();
+    const answer = await metered('describe', 'gemini', model, onUsage => withRetry(
+      () => generateGeminiText({
+        prompt: 'Describe this image.',
+        model,
+        images: [image],
+        systemInstruction: DESCRIBE_INSTRUCTION,
+        temperature: 0.4,
+        json: true,
+        signal,
+        onUsage,
+      }),
+      { signal }
+    ));
+    const parsed = parseJsonAnswer(answer);
+    const prompt = trimmedString(fieldOf(parsed, 'prompt'));
+    const altText = trimmedString(fieldOf(parsed, 'altText'));
+    if (!prompt || !altText) {
+      throw new EmptyResponseError("The model did not return a usable description.", { modelText: answer });
+    }
+    return { prompt, altText, tags: uniqueStrings(fieldOf(parsed, 'tags'), normalizeTag) };
   } catch (error) {
-    console.error("Image editing failed:", error);
+    console.error("Image description failed:", error);
     throw error;
   }
 }
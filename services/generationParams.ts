@@ -0,0 +1,40 @@
+import { GeneratedImage, GenerationParams } from "../types";
+import { DEFAULT_PROVIDER_ID, getProvider } from "./providers/registry";
+
+export const GENERATION_PARAMS_VERSION = 1;
+
+/**
+ * Rebuilds the parameters of an image stored before they were recorded, from
+ * the fields every image already carried. Uploads were never generated and get none.
+ */
+export function inferParams(image: Omit<GeneratedImage, 'url'>): GenerationParams | undefined {
+  const isEdit = !!image.parentId;
+  if (image.origin === 'upload' && !isEdit) return undefined;
+
+  // Images from before providers existed were all made by the default one
+  const provider = image.provider ?? DEFAULT_PROVIDER_ID;
+  const model = image.model ?? getProvider(DEFAULT_PROVIDER_ID).defaultModel;
+  const prompt = isEdit ? image.editPrompt ?? '' : image.prompt;
+  return {
+    version: GENERATION_PARAMS_VERSION,
+    kind: isEdit ? 'edit' : 'generate',
+    prompt,
+    provider,
+    model,
+    aspectRatio: image.aspectRatio,
+    stylePresetId: isEdit ? undefined : image.stylePresetId,
+    avoid: isEdit ? undefined : image.negativePrompt,
+    references: [],
+    config: isEdit
+      ? { instruction: prompt, masked: !!image.masked, sourceId: image.parentId }
+      : { prompt, aspectRatio: image.aspectRatio, negativePrompt: image.negativePrompt },
+    inferred: true,
+  };
+}
+
+/** Brings a stored image's parameters up to the current schema, inferring them when missing. */
+export function withParams<T extends Omit<GeneratedImage, 'url'>>(image: T): T {
+  if (image.params && image.params.version >= GENERATION_PARAMS_VERSION) return image;
+  const params = image.params ?? inferParams(image);
+  return params ? { ...image, params: { ...params, version: GENERATION_PARAMS_VERSION } } : image;
+}
@@ -0,0 +1,153 @@
+import { AspectRatio, CanvasAnchor } from "../types";
+
+// Canvas helpers shared by the editors and providers. Masks are PNG data URLs
+// the same size as their image: white marks pixels to change, black pixels to keep.
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not load image.'));
+    img.src = src;
+  });
+}
+
+export function createCanvas(width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Canvas is not supported in this browser.');
+  }
+  return [canvas, ctx];
+}
+
+async function pixelsOf(src: string, width: number, height: number): Promise<ImageData> {
+  const img = await loadImage(src);
+  const [, ctx] = createCanvas(width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+}
+
+/**
+ * Blends `result` into `original` through `mask`, alpha included, so a masked
+ * area can also change how opaque it is. Pixels where the mask is black come
+ * from the original byte-for-byte; the model cannot touch them.
+ */
+export async function compositeWithMask(original: string, result: string, mask: string): Promise<string> {
+  const base = await loadImage(original);
+  const { naturalWidth: width, naturalHeight: height } = base;
+  const [canvas, ctx] = createCanvas(width, height);
+  ctx.drawImage(base, 0, 0);
+
+  const out = ctx.getImageData(0, 0, width, height);
+  const edited = await pixelsOf(result, width, height);
+  const weights = await pixelsOf(mask, width, height);
+
+  for (let i = 0; i < out.data.length; i += 4) {
+    const m = weights.data[i] / 255;
+    if (m === 0) continue;
+    for (let c = 0; c < 4; c++) {
+      out.data[i + c] = Math.round(out.data[i + c] * (1 - m) + edited.data[i + c] * m);
+    }
+  }
+
+  ctx.putImageData(out, 0, 0);
+  return canvas.toDataURL('image/png');
+}
+
+/** Converts a mask to the alpha form used by OpenAI: transparent where the image may change. */
+export async function maskToAlpha(mask: string): Promise<string> {
+  const img = await loadImage(mask);
+  const [canvas, ctx] = createCanvas(img.naturalWidth, img.naturalHeight);
+  ctx.drawImage(img, 0, 0);
+  const data = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 0; i < data.data.length; i += 4) {
+    const alpha = 255 - data.data[i];
+    data.data[i] = data.data[i + 1] = data.data[i + 2] = 0;
+    data.data[i + 3] = alpha;
+  }
+  ctx.putImageData(data, 0, 0);
+  return canvas.toDataURL('image/png');
+}
+
+/**
+ * Draws the masked region over the image as a translucent red fill with an
+ * outline, for models that take instructions rather than a mask channel.
+ */
+export async function annotateMaskRegion(image: string, mask: string): Promise<string> {
+  const base = await loadImage(image);
+  const { naturalWidth: width, naturalHeight: height } = base;
+  const [canvas, ctx] = createCanvas(width, height);
+  ctx.drawImage(base, 0, 0);
+
+  const out = ctx.getImageData(0, 0, width, height);
+  const weights = await pixelsOf(mask, width, height);
+  const inside = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < width && y < height && weights.data[(y * width + x) * 4] > 127;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!inside(x, y)) continue;
+      const i = (y * width + x) * 4;
+      const edge = !inside(x - 1, y) || !inside(x + 1, y) || !inside(x, y - 1) || !inside(x, y + 1);
+      const tint = edge ? 1 : 0.45;
+      out.data[i] = Math.round(out.data[i] * (1 - tint) + 255 * tint);
+      out.data[i + 1] = Math.round(out.data[i + 1] * (1 - tint));
+      out.data[i + 2] = Math.round(out.data[i + 2] * (1 - tint));
+    }
+  }
+
+  ctx.putImageData(out, 0, 0);
+  return canvas.toDataURL('image/png');
+}
+
+export interface PaddedCanvas {
+  image: string;
+  // White over the added area, black over the original
+  mask: string;
+  width: number;
+  height: number;
+}
+
+// Horizontal and vertical position of the original, 0 (left/top) to 1 (right/bottom)
+export function anchorOffsets(anchor: CanvasAnchor): [number, number] {
+  const x = anchor.includes('left') ? 0 : anchor.includes('right') ? 1 : 0.5;
+  const y = anchor.startsWith('top') ? 0 : anchor.startsWith('bottom') ? 1 : 0.5;
+  return [x, y];
+}
+
+/**
+ * Places `src` unscaled on a canvas grown along one side to `aspectRatio`.
+ * The new area repeats the nearest edge pixels, which gives fill models the
+ * surrounding colours to continue from, and is marked white in the mask.
+ */
+export async function padToAspectRatio(src: string, aspectRatio: AspectRatio, anchor: CanvasAnchor): Promise<PaddedCanvas> {
+  const img = await loadImage(src);
+  const { naturalWidth: w, naturalHeight: h } = img;
+  const [rw, rh] = aspectRatio.split(':').map(Number);
+  const width = w / h < rw / rh ? Math.round((h * rw) / rh) : w;
+  const height = w / h < rw / rh ? h : Math.round((w * rh) / rw);
+  const [ax, ay] = anchorOffsets(anchor);
+  const x = Math.round((width - w) * ax);
+  const y = Math.round((height - h) * ay);
+
+  const [canvas, ctx] = createCanvas(width, height);
+  // Draw the original, then stretch its one-pixel edges outward: the side
+  // columns first, then the full-width top and bottom rows of the result
+  ctx.drawImage(img, x, y);
+  if (x > 0) ctx.drawImage(img, 0, 0, 1, h, 0, y, x, h);
+  if (width - x - w > 0) ctx.drawImage(img, w - 1, 0, 1, h, x + w, y, width - x - w, h);
+  if (y > 0) ctx.drawImage(canvas, 0, y, width, 1, 0, 0, width, y);
+  if (height - y - h > 0) ctx.drawImage(canvas, 0, y + h - 1, width, 1, 0, y + h, width, height - y - h);
+
+  const [maskCanvas, maskCtx] = createCanvas(width, height);
+  maskCtx.fillStyle = '#ffffff';
+  maskCtx.fillRect(0, 0, width, height);
+  maskCtx.fillStyle = '#000000';
+  maskCtx.fillRect(x, y, w, h);
+
+  return { image: canvas.toDataURL('image/png'), mask: maskCanvas.toDataURL('image/png'), width, height };
+}
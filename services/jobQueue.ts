@@ -0,0 +1,123 @@
+import { GenerationJob, GenerationProgress } from "../types";
+import { isAbortError } from "./errors";
+
+export type JobSpec = Omit<GenerationJob, 'id' | 'status' | 'error' | 'progress' | 'createdAt' | 'startedAt' | 'finishedAt'>;
+// `report` shows interim output on the job's card while it runs
+export type JobRunner = (signal: AbortSignal, report: (progress: GenerationProgress) => void) => Promise<void>;
+type Listener = (jobs: GenerationJob[]) => void;
+
+export interface JobQueue {
+  enqueue: (spec: JobSpec, run: JobRunner) => string;
+  cancel: (id: string) => void;
+  dismiss: (id: string) => void;
+  setConcurrency: (limit: number) => void;
+  subscribe: (listener: Listener) => () => void;
+  getJobs: () => GenerationJob[];
+}
+
+export const DEFAULT_CONCURRENCY = 2;
+// How long a finished job's card stays visible before the gallery image replaces it
+const DONE_LINGER_MS = 2500;
+
+/**
+ * FIFO queue that runs at most `concurrency` jobs at once. Each job gets its own
+ * AbortController so it can be cancelled while queued or mid-request.
+ */
+export function createJobQueue(concurrency = DEFAULT_CONCURRENCY): JobQueue {
+  let limit = concurrency;
+  let jobs: GenerationJob[] = [];
+  const runners = new Map<string, JobRunner>();
+  const controllers = new Map<string, AbortController>();
+  const listeners = new Set<Listener>();
+
+  const emit = () => listeners.forEach(listener => listener(jobs));
+
+  const update = (id: string, changes: Partial<GenerationJob>) => {
+    jobs = jobs.map(job => job.id === id ? { ...job, ...changes } : job);
+    emit();
+  };
+
+  const remove = (id: string) => {
+    runners.delete(id);
+    controllers.delete(id);
+    jobs = jobs.filter(job => job.id !== id);
+    emit();
+  };
+
+  const start = async (job: GenerationJob) => {
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    update(job.id, { status: 'running', startedAt: Date.now() });
+
+    try {
+      await runners.get(job.id)!(controller.signal, progress => {
+        if (!controller.signal.aborted) update(job.id, { progress });
+      });
+      controller.signal.throwIfAborted();
+      update(job.id, { status: 'done', finishedAt: Date.now() });
+      setTimeout(() => remove(job.id), DONE_LINGER_MS);
+    } catch (error: any) {
+      if (controller.signal.aborted || isAbortError(error)) {
+        remove(job.id);
+      } else {
+        update(job.id, { status: 'failed', error: error?.message || 'Job failed.', finishedAt: Date.now() });
+      }
+    } finally {
+      controllers.delete(job.id);
+      pump();
+    }
+  };
+
+  const pump = () => {
+    let running = jobs.filter(job => job.status === 'running').length;
+    for (const job of jobs) {
+      if (running >= limit) break;
+      if (job.status === 'queued') {
+        running++;
+        start(job);
+      }
+    }
+  };
+
+  return {
+    enqueue(spec, run) {
+      const id = Math.random().toString(36).substr(2, 9);
+      runners.set(id, run);
+      jobs = [...jobs, { ...spec, id, status: 'queued', createdAt: Date.now() }];
+      emit();
+      pump();
+      return id;
+    },
+
+    cancel(id) {
+      const controller = controllers.get(id);
+      if (controller) {
+        // The running job removes itself once its request rejects
+        controller.abort();
+      } else {
+        remove(id);
+      }
+    },
+
+    dismiss(id) {
+      if (!controllers.has(id)) remove(id);
+    },
+
+    setConcurrency(next) {
+      limit = Math.max(1, next);
+      pump();
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      listener(jobs);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    getJobs: () => jobs,
+  };
+}
+
+export const jobQueue = createJobQueue();
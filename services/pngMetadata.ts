@@ -0,0 +1,269 @@
+import { AspectRatio, GeneratedImage, GenerationParams, ImageOrigin } from "../types";
+import { crc32 } from "./zip";
+import { createCanvas, loadImage } from "./imageProcessing";
+
+// Downloaded PNGs carry their generation record as iTXt chunks. The key schema
+// (documented in the README) is versioned by `text2image:version`; readers
+// ignore keys they do not know.
+export const PNG_METADATA_VERSION = 1;
+
+export const METADATA_KEYS = {
+  version: 'text2image:version',
+  id: 'text2image:id',
+  prompt: 'text2image:prompt',
+  editChain: 'text2image:edit-chain',
+  provider: 'text2image:provider',
+  model: 'text2image:model',
+  aspectRatio: 'text2image:aspect-ratio',
+  timestamp: 'text2image:timestamp',
+  origin: 'text2image:origin',
+  stylePresetId: 'text2image:style-preset',
+  negativePrompt: 'text2image:negative-prompt',
+  tags: 'text2image:tags',
+  altText: 'text2image:alt-text',
+  params: 'text2image:params',
+} as const;
+
+/** One step from the root image to the downloaded version. The first step is the root itself. */
+export interface EditStep {
+  id: string;
+  editPrompt?: string;
+  masked?: boolean;
+  provider?: string;
+  model?: string;
+  timestamp: number;
+}
+
+export type RestoredImage = Omit<GeneratedImage, 'url'>;
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+interface Chunk {
+  type: string;
+  data: Uint8Array;
+}
+
+function isPng(bytes: Uint8Array): boolean {
+  return PNG_SIGNATURE.every((byte, i) => bytes[i] === byte);
+}
+
+function readChunks(bytes: Uint8Array): Chunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Chunk[] = [];
+  for (let offset = PNG_SIGNATURE.length; offset + 12 <= bytes.length;) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+    if (type === 'IEND') break;
+  }
+  return chunks;
+}
+
+function encodeChunk({ type, data }: Chunk): Uint8Array {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  const typeBytes = new TextEncoder().encode(type);
+  out.set(typeBytes, 4);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+// iTXt: keyword, NUL, compression flag, compression method, language tag, NUL, translated keyword, NUL, UTF-8 text
+function itxtChunk(keyword: string, text: string): Chunk {
+  const encoder = new TextEncoder();
+  const key = encoder.encode(keyword);
+  const value = encoder.encode(text);
+  const data = new Uint8Array(key.length + 5 + value.length);
+  data.set(key, 0);
+  data.set(value, key.length + 5);
+  return { type: 'iTXt', data };
+}
+
+async function inflate(data: Uint8Array): Promise<string> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Response(stream).text();
+}
+
+async function parseTextChunk({ type, data }: Chunk): Promise<[string, string] | null> {
+  const nul = data.indexOf(0);
+  if (nul < 0) return null;
+  const keyword = new TextDecoder('latin1').decode(data.subarray(0, nul));
+
+  if (type === 'tEXt') {
+    return [keyword, new TextDecoder('latin1').decode(data.subarray(nul + 1))];
+  }
+  if (type === 'zTXt') {
+    return [keyword, await inflate(data.subarray(nul + 2))];
+  }
+  const compressed = data[nul + 1] === 1;
+  const languageEnd = data.indexOf(0, nul + 3);
+  const translatedEnd = data.indexOf(0, languageEnd + 1);
+  if (languageEnd < 0 || translatedEnd < 0) return null;
+  const text = data.subarray(translatedEnd + 1);
+  return [keyword, compressed ? await inflate(text) : new TextDecoder().decode(text)];
+}
+
+/** Every tEXt, zTXt and iTXt entry in a PNG, keyed by keyword. Non-PNG input yields an empty record. */
+export async function readPngText(bytes: Uint8Array): Promise<Record<string, string>> {
+  if (!isPng(bytes)) return {};
+  const entries: Record<string, string> = {};
+  for (const chunk of readChunks(bytes)) {
+    if (chunk.type !== 'tEXt' && chunk.type !== 'zTXt' && chunk.type !== 'iTXt') continue;
+    const entry = await parseTextChunk(chunk);
+    if (entry) entries[entry[0]] = entry[1];
+  }
+  return entries;
+}
+
+/** Returns a copy of the PNG with `text` written as iTXt chunks, replacing entries with the same keywords. */
+export async function writePngText(bytes: Uint8Array, text: Record<string, string>): Promise<Uint8Array> {
+  const replaced = new Set(Object.keys(text));
+  const kept: Chunk[] = [];
+  for (const chunk of readChunks(bytes)) {
+    const isText = chunk.type === 'tEXt' || chunk.type === 'zTXt' || chunk.type === 'iTXt';
+    if (isText) {
+      const entry = await parseTextChunk(chunk);
+      if (entry && replaced.has(entry[0])) continue;
+    }
+    kept.push(chunk);
+  }
+
+  // Text goes right after IHDR so readers that stop at the first IDAT still see it
+  const added = Object.entries(text).map(([keyword, value]) => itxtChunk(keyword, value));
+  const chunks = [kept[0], ...added, ...kept.slice(1)];
+  const parts = [new Uint8Array(PNG_SIGNATURE), ...chunks.map(encodeChunk)];
+  const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/** The path from the root of `image`'s tree down to `image`. */
+export function editChainOf(image: GeneratedImage, versions: GeneratedImage[]): EditStep[] {
+  const chain: EditStep[] = [];
+  for (let step: GeneratedImage | undefined = image; step; step = versions.find(v => v.id === step!.parentId)) {
+    chain.unshift({
+      id: step.id,
+      editPrompt: step.editPrompt,
+      masked: step.masked || undefined,
+      provider: step.provider,
+      model: step.model,
+      timestamp: step.timestamp,
+    });
+    if (!step.parentId) break;
+  }
+  return chain;
+}
+
+export function encodeImageMetadata(image: GeneratedImage, chain: EditStep[]): Record<string, string> {
+  const text: Record<string, string> = {
+    Description: image.altText || image.prompt,
+    Software: 'Text 2 Image Studio',
+    'Creation Time': new Date(image.timestamp).toUTCString(),
+    [METADATA_KEYS.version]: String(PNG_METADATA_VERSION),
+    [METADATA_KEYS.id]: image.id,
+    [METADATA_KEYS.prompt]: image.prompt,
+    [METADATA_KEYS.editChain]: JSON.stringify(chain),
+    [METADATA_KEYS.timestamp]: String(image.timestamp),
+  };
+  const optional: [string, string | undefined][] = [
+    [METADATA_KEYS.provider, image.provider],
+    [METADATA_KEYS.model, image.model],
+    [METADATA_KEYS.aspectRatio, image.aspectRatio],
+    [METADATA_KEYS.origin, image.origin],
+    [METADATA_KEYS.stylePresetId, image.stylePresetId],
+    [METADATA_KEYS.negativePrompt, image.negativePrompt],
+    [METADATA_KEYS.tags, image.tags?.length ? JSON.stringify(image.tags) : undefined],
+    [METADATA_KEYS.altText, image.altText],
+    [METADATA_KEYS.params, image.params && JSON.stringify(image.params)],
+  ];
+  for (const [key, value] of optional) {
+    if (value) text[key] = value;
+  }
+  return text;
+}
+
+function parseJson<T>(value: string | undefined, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return fallback;
+  }
+}
+
+/** Rebuilds the image record from its PNG text, or null when the file was not written by this app. */
+export function decodeImageMetadata(text: Record<string, string>): RestoredImage | null {
+  const version = Number(text[METADATA_KEYS.version]);
+  if (!version || version > PNG_METADATA_VERSION || !text[METADATA_KEYS.id] || !text[METADATA_KEYS.prompt]) {
+    return null;
+  }
+
+  const chain = parseJson<EditStep[]>(text[METADATA_KEYS.editChain], []);
+  const last = chain[chain.length - 1];
+  const parent = chain.length > 1 ? chain[chain.length - 2] : undefined;
+  const timestamp = Number(text[METADATA_KEYS.timestamp]);
+
+  return {
+    id: text[METADATA_KEYS.id],
+    prompt: text[METADATA_KEYS.prompt],
+    timestamp: Number.isFinite(timestamp) ? timestamp : Date.now(),
+    origin: (text[METADATA_KEYS.origin] as ImageOrigin) || undefined,
+    provider: text[METADATA_KEYS.provider],
+    model: text[METADATA_KEYS.model],
+    aspectRatio: (text[METADATA_KEYS.aspectRatio] as AspectRatio) || undefined,
+    stylePresetId: text[METADATA_KEYS.stylePresetId],
+    negativePrompt: text[METADATA_KEYS.negativePrompt],
+    tags: parseJson<string[] | undefined>(text[METADATA_KEYS.tags], undefined),
+    altText: text[METADATA_KEYS.altText],
+    params: parseJson<GenerationParams | undefined>(text[METADATA_KEYS.params], undefined),
+    parentId: parent?.id,
+    rootId: chain[0]?.id ?? text[METADATA_KEYS.id],
+    editPrompt: parent ? last?.editPrompt : undefined,
+    masked: parent ? last?.masked : undefined,
+  };
+}
+
+async function toPngBytes(url: string): Promise<Uint8Array> {
+  const blob = await (await fetch(url)).blob();
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  if (isPng(bytes)) return bytes;
+
+  const img = await loadImage(url);
+  const [canvas, ctx] = createCanvas(img.naturalWidth, img.naturalHeight);
+  ctx.drawImage(img, 0, 0);
+  const png = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!png) throw new Error('Could not encode the image as PNG.');
+  return new Uint8Array(await png.arrayBuffer());
+}
+
+async function tag(bytes: Uint8Array, image: GeneratedImage, versions: GeneratedImage[]): Promise<Blob> {
+  const tagged = await writePngText(bytes, encodeImageMetadata(image, editChainOf(image, versions)));
+  return new Blob([tagged], { type: 'image/png' });
+}
+
+/** The image as a PNG file carrying its generation record. Other formats are converted to PNG first. */
+export async function pngWithMetadata(image: GeneratedImage, versions: GeneratedImage[]): Promise<Blob> {
+  return tag(await toPngBytes(image.url), image, versions);
+}
+
+/** Adds the generation record of `image` to already-encoded PNG data. */
+export async function withPngMetadata(png: Blob, image: GeneratedImage, versions: GeneratedImage[]): Promise<Blob> {
+  return tag(new Uint8Array(await png.arrayBuffer()), image, versions);
+}
+
+/** Reads the generation record embedded in a dropped or uploaded file, if any. */
+export async function readImageMetadata(file: Blob): Promise<RestoredImage | null> {
+  try {
+    return decodeImageMetadata(await readPngText(new Uint8Array(await file.arrayBuffer())));
+  } catch (e) {
+    console.error("Failed to read PNG metadata", e);
+    return null;
+  }
+}
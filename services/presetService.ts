@@ -0,0 +1,132 @@
+import { PromptPreset } from "../types";
+
+const STORAGE_KEY = 'text2image-presets';
+export const PRESET_FILE_VERSION = 1;
+
+export const BUILT_IN_PRESETS: PromptPreset[] = [
+  {
+    id: 'style-photoreal',
+    name: 'Photoreal',
+    kind: 'style',
+    text: 'photorealistic, shot on a full-frame camera with a 50mm lens, natural lighting, high dynamic range, sharp focus, fine surface detail',
+    avoid: 'cartoon, illustration, painting, 3D render, plastic skin',
+    builtIn: true,
+  },
+  {
+    id: 'style-isometric',
+    name: 'Isometric',
+    kind: 'style',
+    text: 'isometric 3D illustration, orthographic 30-degree view, clean geometry, soft global illumination, pastel palette, miniature diorama on a plain background',
+    avoid: 'perspective distortion, busy background',
+    builtIn: true,
+  },
+  {
+    id: 'style-watercolor',
+    name: 'Watercolor',
+    kind: 'style',
+    text: 'loose watercolor painting, wet-on-wet washes, soft bleeding edges, visible cold-press paper texture, muted harmonious palette',
+    avoid: 'hard outlines, photorealism, digital gradients',
+    builtIn: true,
+  },
+  {
+    id: 'style-product-shot',
+    name: 'Product Shot',
+    kind: 'style',
+    text: 'professional studio product photography, seamless backdrop, large softbox lighting, subtle floor reflection, centered composition, commercial catalog quality',
+    avoid: 'clutter, text, watermark, hands',
+    builtIn: true,
+  },
+  {
+    id: 'template-hero',
+    name: 'Product Hero',
+    kind: 'template',
+    text: 'A {color} {subject} on a polished stone pedestal, dramatic rim light, {color} accent lighting in the background',
+    builtIn: true,
+  },
+  {
+    id: 'template-character',
+    name: 'Character Sheet',
+    kind: 'template',
+    text: 'Character turnaround sheet of {subject}, front, side and back views, wearing {outfit}, neutral grey background, consistent proportions',
+    builtIn: true,
+  },
+];
+
+export function loadUserPresets(): PromptPreset[] {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return [];
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to parse saved presets");
+    return [];
+  }
+}
+
+export function saveUserPresets(presets: PromptPreset[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets.filter(preset => !preset.builtIn)));
+}
+
+/** Placeholder names in order of first appearance, e.g. "{color} {subject}" gives ['color', 'subject']. */
+export function extractVariables(template: string): string[] {
+  const names = Array.from(template.matchAll(/\{(\w+)\}/g), match => match[1]);
+  return Array.from(new Set(names));
+}
+
+export function fillTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name) => values[name]?.trim() || placeholder);
+}
+
+/** Appends a style's modifiers to the user's prompt. */
+export function applyStyle(prompt: string, style?: PromptPreset): string {
+  if (!style) return prompt;
+  return `${prompt.trim().replace(/[.,;]+$/, '')}, ${style.text}`;
+}
+
+/** Joins the user's avoid list with the style's own, dropping duplicates. */
+export function combineAvoid(...lists: (string | undefined)[]): string {
+  const terms = lists
+    .flatMap(list => (list ?? '').split(','))
+    .map(term => term.trim())
+    .filter(Boolean);
+  return Array.from(new Set(terms.map(term => term.toLowerCase())))
+    .map(lower => terms.find(term => term.toLowerCase() === lower)!)
+    .join(', ');
+}
+
+export function exportPresets(presets: PromptPreset[]): string {
+  const userPresets = presets.filter(preset => !preset.builtIn).map(({ builtIn, ...preset }) => preset);
+  return JSON.stringify({ version: PRESET_FILE_VERSION, presets: userPresets }, null, 2);
+}
+
+function isPreset(value: any): value is PromptPreset {
+  return value
+    && typeof value.name === 'string'
+    && (value.kind === 'style' || value.kind === 'template')
+    && typeof value.text === 'string'
+    && (value.avoid === undefined || typeof value.avoid === 'string');
+}
+
+/** Parses an exported preset file. Throws with a readable message if it is not one. */
+export function parsePresetFile(json: string): PromptPreset[] {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new Error('The preset file is not valid JSON.');
+  }
+  if (data?.version !== PRESET_FILE_VERSION || !Array.isArray(data.presets)) {
+    throw new Error(`Unsupported preset file. Expected version ${PRESET_FILE_VERSION}.`);
+  }
+  const invalid = data.presets.findIndex((preset: unknown) => !isPreset(preset));
+  if (invalid !== -1) {
+    throw new Error(`Preset #${invalid + 1} in the file is missing a name, kind or text.`);
+  }
+  return data.presets.map((preset: PromptPreset) => ({
+    id: typeof preset.id === 'string' && preset.id ? preset.id : Math.random().toString(36).substr(2, 9),
+    name: preset.name,
+    kind: preset.kind,
+    text: preset.text,
+    ...(preset.avoid ? { avoid: preset.avoid } : {}),
+  }));
+}
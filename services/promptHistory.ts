@@ -0,0 +1,40 @@
+const STORAGE_KEY = 'text2image-prompt-history';
+export const MAX_PROMPT_HISTORY = 100;
+
+export function loadPromptHistory(): string[] {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return [];
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to parse prompt history");
+    return [];
+  }
+}
+
+export function savePromptHistory(history: string[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+}
+
+/** Moves `prompts` to the front, most recent first, dropping older copies and the oldest entries. */
+export function addToHistory(history: string[], prompts: string[]): string[] {
+  const added = Array.from(new Set(prompts.map(prompt => prompt.trim()).filter(Boolean))).reverse();
+  return [...added, ...history.filter(entry => !added.includes(entry))].slice(0, MAX_PROMPT_HISTORY);
+}
+
+/**
+ * Past prompts for `query`, most recent first: those starting with it, then
+ * those containing every word of it. The query itself is never suggested.
+ */
+export function matchHistory(history: string[], query: string, limit = 6): string[] {
+  const lower = query.trim().toLowerCase();
+  if (!lower) return history.slice(0, limit);
+
+  const words = lower.split(/\s+/);
+  const candidates = history.filter(entry => entry.toLowerCase() !== lower);
+  const prefixed = candidates.filter(entry => entry.toLowerCase().startsWith(lower));
+  const containing = candidates.filter(entry =>
+    !prefixed.includes(entry) && words.every(word => entry.toLowerCase().includes(word))
+  );
+  return [...prefixed, ...containing].slice(0, limit);
+}
@@ -0,0 +1,333 @@
+import { Content, GoogleGenAI, GenerateContentParameters, GenerateContentResponse, Part } from "@google/genai";
+import { AspectRatio, GenerationProgress, ImageProvider, TokenUsage } from "../../types";
+import { EmptyResponseError, SafetyBlockedError, errorFromStatus, isSafetyReason, parseRetryAfter } from "../errors";
+import { annotateMaskRegion } from "../imageProcessing";
+import { describeReference, foldNegativePrompt, imageDataUrl, parseDataUrl, trimTrailingSlash } from "./utils";
+import { getApiKey } from "../settingsService";
+
+// In proxy mode the API key stays on the server (server/index.js) and the
+// browser posts the prompt parts to /api/generate and /api/edit instead.
+// Image requests are streamed, directly or through /api/generate/stream and /api/edit/stream.
+const PROXY_MODE = process.env.GEMINI_MODE === 'proxy';
+const PROXY_URL = trimTrailingSlash(process.env.GEMINI_PROXY_URL || '');
+
+// Text model used for prompt work (enhancement), as opposed to image generation
+export const GEMINI_TEXT_MODEL = 'gemini-2.5-flash';
+// Each needs a price in usageService's DEFAULT_PRICES and a place in the proxy's PROXY_TEXT_MODELS default
+export const GEMINI_TEXT_MODELS = [GEMINI_TEXT_MODEL, 'gemini-2.5-flash-lite', 'gemini-2.5-pro'];
+
+// Carries a key entered on the Settings page to the proxy, which uses it instead of its own
+const API_KEY_HEADER = 'X-Gemini-Api-Key';
+
+type Endpoint = 'generate' | 'edit' | 'text' | 'converse';
+type StreamEndpoint = 'generate' | 'edit';
+
+interface GeminiRequest {
+  model: string;
+  parts?: Part[];
+  // Multi-turn requests send the whole conversation instead of `parts`
+  contents?: Content[];
+  aspectRatio?: AspectRatio;
+  temperature?: number;
+  seed?: number;
+  // Text requests only
+  systemInstruction?: string;
+  responseMimeType?: 'text/plain' | 'application/json';
+}
+
+const proxyHeaders = () => ({ 'Content-Type': 'application/json', ...(getApiKey() && { [API_KEY_HEADER]: getApiKey() }) });
+
+async function proxyError(response: Response): Promise<Error> {
+  const body = await response.json().catch(() => null);
+  return errorFromStatus(response.status, body?.error?.message || `The image proxy answered with status ${response.status}.`, {
+    retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+  });
+}
+
+async function callProxy(endpoint: Endpoint, request: GeminiRequest, signal?: AbortSignal): Promise<GenerateContentResponse> {
+  const response = await fetch(`${PROXY_URL}/api/${endpoint}`, {
+    method: 'POST',
+    headers: proxyHeaders(),
+    body: JSON.stringify(request),
+    signal,
+  });
+  if (!response.ok) {
+    throw await proxyError(response);
+  }
+  return await response.json().catch(() => null) as GenerateContentResponse;
+}
+
+// The proxy streams NDJSON: one response chunk per line
+async function* streamProxy(endpoint: StreamEndpoint, request: GeminiRequest, signal?: AbortSignal): AsyncGenerator<GenerateContentResponse> {
+  const response = await fetch(`${PROXY_URL}/api/${endpoint}/stream`, {
+    method: 'POST',
+    headers: proxyHeaders(),
+    body: JSON.stringify(request),
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    throw await proxyError(response);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+    const lines = buffered.split('\n');
+    buffered = done ? '' : lines.pop()!;
+    for (const line of lines.filter(line => line.trim())) {
+      const chunk = JSON.parse(line);
+      // A failure after the stream started arrives as its last line
+      if (chunk.error) {
+        throw errorFromStatus(chunk.error.status, chunk.error.message);
+      }
+      yield chunk as GenerateContentResponse;
+    }
+    if (done) return;
+  }
+}
+
+const geminiClient = () => new GoogleGenAI({ apiKey: getApiKey() || process.env.API_KEY || '' });
+
+function geminiParams(request: GeminiRequest, signal?: AbortSignal): GenerateContentParameters {
+  return {
+    model: request.model,
+    contents: request.contents ?? {
+      parts: request.parts,
+    },
+    config: {
+      ...(request.aspectRatio && { imageConfig: { aspectRatio: request.aspectRatio } }),
+      ...(request.systemInstruction && { systemInstruction: request.systemInstruction }),
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      ...(request.seed !== undefined && { seed: request.seed }),
+      ...(request.responseMimeType && { responseMimeType: request.responseMimeType }),
+      abortSignal: signal,
+    },
+  };
+}
+
+async function callGemini(endpoint: Endpoint, request: GeminiRequest, signal?: AbortSignal): Promise<GenerateContentResponse> {
+  if (PROXY_MODE) {
+    return callProxy(endpoint, request, signal);
+  }
+  return geminiClient().models.generateContent(geminiParams(request, signal));
+}
+
+function progressOf(parts: Part[]): GenerationProgress {
+  const joined = (thought: boolean) => parts
+    .filter(part => part.text && !!part.thought === thought)
+    .map(part => part.text)
+    .join('')
+    .trim() || undefined;
+  return { text: joined(false), thoughts: joined(true) };
+}
+
+/**
+ * Like callGemini, but streams the response, calling `onProgress` with the
+ * text and thoughts received so far. Resolves with the chunks merged into one
+ * response once the stream ends.
+ */
+async function streamGemini(
+  endpoint: StreamEndpoint,
+  request: GeminiRequest,
+  signal?: AbortSignal,
+  onProgress?: (progress: GenerationProgress) => void
+): Promise<GenerateContentResponse> {
+  const chunks = PROXY_MODE
+    ? streamProxy(endpoint, request, signal)
+    : await geminiClient().models.generateContentStream(geminiParams(request, signal));
+
+  const parts: Part[] = [];
+  let promptFeedback: GenerateContentResponse['promptFeedback'];
+  let last: GenerateContentResponse | undefined;
+  for await (const chunk of chunks) {
+    signal?.throwIfAborted();
+    const received = chunk.candidates?.[0]?.content?.parts ?? [];
+    parts.push(...received);
+    promptFeedback ??= chunk.promptFeedback;
+    last = chunk;
+    if (received.some(part => part.text)) onProgress?.(progressOf(parts));
+  }
+
+  const candidate = last?.candidates?.[0];
+  return {
+    candidates: candidate ? [{ ...candidate, content: { role: 'model', parts } }] : last?.candidates,
+    promptFeedback,
+    usageMetadata: last?.usageMetadata,
+    modelVersion: last?.modelVersion,
+  } as GenerateContentResponse;
+}
+
+function reportUsage(response: GenerateContentResponse, onUsage?: (usage: TokenUsage) => void) {
+  const usage = response.usageMetadata;
+  if (usage && onUsage) {
+    onUsage({
+      inputTokens: usage.promptTokenCount,
+      outputTokens: usage.candidatesTokenCount,
+      totalTokens: usage.totalTokenCount,
+    });
+  }
+}
+
+function extractText(response: GenerateContentResponse): string {
+  return (response.candidates?.[0]?.content?.parts ?? [])
+    .map(part => part.text)
+    .filter(Boolean)
+    .join('')
+    .trim();
+}
+
+function extractImageUrl(response: GenerateContentResponse): string {
+  const candidates = response.candidates;
+  if (candidates && candidates.length > 0) {
+    for (const part of candidates[0].content?.parts ?? []) {
+      if (part.inlineData?.data) {
+        return imageDataUrl(part.inlineData.data, part.inlineData.mimeType);
+      }
+    }
+  }
+  return '';
+}
+
+// Explains why a response carried no image: a blocked prompt, a safety stop, or a text-only answer.
+function missingImageError(response: GenerateContentResponse, fallbackMessage: string): Error {
+  const candidate = response.candidates?.[0];
+  const modelText = (candidate?.content?.parts ?? [])
+    .map(part => part.text)
+    .filter(Boolean)
+    .join('\n')
+    .trim() || undefined;
+  const details = {
+    finishReason: candidate?.finishReason ?? response.promptFeedback?.blockReason,
+    safetyRatings: (candidate?.safetyRatings ?? response.promptFeedback?.safetyRatings)?.map(rating => ({
+      category: rating.category,
+      probability: rating.probability,
+      blocked: rating.blocked,
+    })),
+    modelText,
+  };
+
+  if (response.promptFeedback?.blockReason) {
+    return new SafetyBlockedError(
+      response.promptFeedback.blockReasonMessage || `The prompt was blocked (${response.promptFeedback.blockReason}).`,
+      details
+    );
+  }
+  if (isSafetyReason(candidate?.finishReason) || details.safetyRatings?.some(rating => rating.blocked)) {
+    return new SafetyBlockedError(`The model stopped for safety reasons (${details.finishReason}).`, details);
+  }
+  return new EmptyResponseError(fallbackMessage, details);
+}
+
+export interface TextRequest {
+  prompt: string;
+  // Data URLs shown to the model before the prompt
+  images?: string[];
+  systemInstruction?: string;
+  temperature?: number;
+  json?: boolean;
+  model?: string;
+  signal?: AbortSignal;
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+/** Runs a plain text request against a Gemini text model and returns the answer. */
+export async function generateGeminiText({
+  prompt,
+  images = [],
+  systemInstruction,
+  temperature,
+  json,
+  model = GEMINI_TEXT_MODEL,
+  signal,
+  onUsage,
+}: TextRequest): Promise<string> {
+  const response = await callGemini('text', {
+    model,
+    parts: [...images.map(image => ({ inlineData: parseDataUrl(image) })), { text: prompt }],
+    systemInstruction,
+    temperature,
+    responseMimeType: json ? 'application/json' : undefined,
+  }, signal);
+  reportUsage(response, onUsage);
+
+  const text = extractText(response);
+  if (!text) {
+    throw missingImageError(response, "The text model returned an empty answer.");
+  }
+  return text;
+}
+
+export const geminiProvider: ImageProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  models: ['gemini-2.5-flash-image'],
+  defaultModel: 'gemini-2.5-flash-image',
+  maxReferenceImages: 3,
+
+  async generate({ prompt, aspectRatio, model, references = [], negativePrompt, temperature, seed, signal, onUsage, onProgress }) {
+    // Each reference is preceded by a text part naming its role
+    const parts: Part[] = references.flatMap((reference, index) => [
+      { text: describeReference(reference, index) },
+      { inlineData: parseDataUrl(reference.url) },
+    ]);
+    parts.push({ text: foldNegativePrompt(prompt, negativePrompt) });
+
+    const response = await streamGemini('generate', { model, parts, aspectRatio, temperature, seed }, signal, onProgress);
+    reportUsage(response, onUsage);
+
+    const imageUrl = extractImageUrl(response);
+    if (!imageUrl) {
+      throw missingImageError(response, "No image was generated by the model.");
+    }
+    return imageUrl;
+  },
+
+  async edit({ prompt, image, mask, aspectRatio, model, temperature, seed, signal, onUsage, onProgress }) {
+    const { data, mimeType } = parseDataUrl(image);
+    const parts: Part[] = [{ inlineData: { data, mimeType } }];
+
+    // Gemini has no mask channel, so the region is shown to it as a second, annotated image
+    if (mask) {
+      const annotated = parseDataUrl(await annotateMaskRegion(image, mask));
+      parts.push(
+        { inlineData: annotated },
+        { text: `${prompt}\n\nThe second image marks the area to change in red. Edit the first image only inside that area and keep everything outside it identical. Do not draw the red marking.` }
+      );
+    } else {
+      parts.push({ text: prompt });
+    }
+
+    const response = await streamGemini('edit', { model, parts, aspectRatio, temperature, seed }, signal, onProgress);
+    reportUsage(response, onUsage);
+
+    const imageUrl = extractImageUrl(response);
+    if (!imageUrl) {
+      throw missingImageError(response, "No edited image was returned by the model.");
+    }
+    return imageUrl;
+  },
+
+  async converse({ turns, model, signal, onUsage }) {
+    const contents: Content[] = turns.map(turn => ({
+      role: turn.role,
+      parts: [
+        ...(turn.image ? [{ inlineData: parseDataUrl(turn.image) }] : []),
+        ...(turn.text ? [{ text: turn.text }] : []),
+      ],
+    }));
+
+    const response = await callGemini('converse', { model, contents }, signal);
+    reportUsage(response, onUsage);
+
+    // A text-only reply is fine here: the model may ask a question or explain a refusal
+    const image = extractImageUrl(response) || undefined;
+    const text = extractText(response) || undefined;
+    if (!image && !text) {
+      throw missingImageError(response, "The model returned neither an image nor a reply.");
+    }
+    return { text, image };
+  },
+};
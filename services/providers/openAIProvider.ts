@@ -0,0 +1,163 @@
+import { AspectRatio, ImageProvider, ReferenceImage, TokenUsage } from "../../types";
+import { EmptyResponseError, InvalidInputError, SafetyBlockedError, errorFromStatus, parseRetryAfter } from "../errors";
+import { maskToAlpha } from "../imageProcessing";
+import { dataUrlToBlob, describeReference, foldNegativePrompt, imageDataUrl, trimTrailingSlash } from "./utils";
+
+// In proxy mode the server (server/index.js) adds the key and forwards to OPENAI_BASE_URL
+const BASE_URL = process.env.GEMINI_MODE === 'proxy'
+  ? `${trimTrailingSlash(process.env.GEMINI_PROXY_URL || '')}/api/openai`
+  : trimTrailingSlash(process.env.OPENAI_BASE_URL || 'https://api.openai.com');
+
+// The /v1/images endpoints only accept a fixed set of sizes, which differ per model.
+const SIZES: Record<string, Record<AspectRatio, string>> = {
+  'dall-e-3': {
+    '1:1': '1024x1024',
+    '16:9': '1792x1024',
+    '4:3': '1792x1024',
+    '9:16': '1024x1792',
+    '3:4': '1024x1792',
+  },
+  // Square sizes only
+  'dall-e-2': {
+    '1:1': '1024x1024',
+    '16:9': '1024x1024',
+    '4:3': '1024x1024',
+    '9:16': '1024x1024',
+    '3:4': '1024x1024',
+  },
+  'gpt-image-1': {
+    '1:1': '1024x1024',
+    '16:9': '1536x1024',
+    '4:3': '1536x1024',
+    '9:16': '1024x1536',
+    '3:4': '1024x1536',
+  },
+};
+
+function sizeFor(model: string, aspectRatio: AspectRatio): string {
+  return (SIZES[model] ?? SIZES['gpt-image-1'])[aspectRatio];
+}
+
+function authHeaders(): Record<string, string> {
+  const apiKey = process.env.OPENAI_API_KEY;
+  return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+}
+
+async function readImageResponse(
+  response: Response,
+  emptyMessage: string,
+  onUsage?: (usage: TokenUsage) => void
+): Promise<string> {
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    const message = body?.error?.message || `Image request failed with status ${response.status}.`;
+    if (body?.error?.code === 'content_policy_violation' || body?.error?.code === 'moderation_blocked') {
+      throw new SafetyBlockedError(message, { status: response.status });
+    }
+    throw errorFromStatus(response.status, message, { retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')) });
+  }
+
+  // Only gpt-image-1 reports token usage; DALL·E models are priced per image
+  if (body?.usage && onUsage) {
+    onUsage({
+      inputTokens: body.usage.input_tokens,
+      outputTokens: body.usage.output_tokens,
+      totalTokens: body.usage.total_tokens,
+    });
+  }
+
+  const item = body?.data?.[0];
+  if (item?.b64_json) {
+    // gpt-image-1 reports the encoding it used; DALL·E models always return PNG
+    return imageDataUrl(item.b64_json, body.output_format && `image/${body.output_format}`);
+  }
+  if (item?.url) {
+    return item.url;
+  }
+  throw new EmptyResponseError(emptyMessage, { modelText: item?.revised_prompt });
+}
+
+// gpt-image-1 takes reference images through the edits endpoint as a list of `image[]` files
+async function generateFromReferences(
+  prompt: string,
+  aspectRatio: AspectRatio,
+  model: string,
+  references: ReferenceImage[],
+  signal?: AbortSignal,
+  onUsage?: (usage: TokenUsage) => void
+): Promise<string> {
+  if (model !== 'gpt-image-1') {
+    throw new InvalidInputError(`${model} does not accept reference images. Switch to gpt-image-1.`);
+  }
+
+  const form = new FormData();
+  form.append('model', model);
+  form.append('size', sizeFor(model, aspectRatio));
+  form.append('prompt', [...references.map(describeReference), prompt].join('\n'));
+  references.forEach((reference, index) => {
+    form.append('image[]', dataUrlToBlob(reference.url), `reference-${index + 1}.png`);
+  });
+
+  const response = await fetch(`${BASE_URL}/v1/images/edits`, {
+    method: 'POST',
+    headers: authHeaders(),
+    body: form,
+    signal,
+  });
+  return readImageResponse(response, "No image was generated by the model.", onUsage);
+}
+
+export const openAIProvider: ImageProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  models: ['gpt-image-1', 'dall-e-3', 'dall-e-2'],
+  defaultModel: 'gpt-image-1',
+  maxReferenceImages: 16,
+
+  async generate({ prompt: basePrompt, aspectRatio, model, references = [], negativePrompt, signal, onUsage }) {
+    const prompt = foldNegativePrompt(basePrompt, negativePrompt);
+    if (references.length > 0) {
+      return generateFromReferences(prompt, aspectRatio, model, references, signal, onUsage);
+    }
+
+    const response = await fetch(`${BASE_URL}/v1/images/generations`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders() },
+      body: JSON.stringify({
+        model,
+        prompt,
+        n: 1,
+        size: sizeFor(model, aspectRatio),
+        // gpt-image-1 always returns base64 and rejects the parameter.
+        ...(model === 'gpt-image-1' ? {} : { response_format: 'b64_json' }),
+      }),
+      signal,
+    });
+    return readImageResponse(response, "No image was generated by the model.", onUsage);
+  },
+
+  async edit({ prompt, image, mask, aspectRatio, model, signal, onUsage }) {
+    const form = new FormData();
+    form.append('model', model);
+    form.append('prompt', prompt);
+    form.append('n', '1');
+    form.append('image', dataUrlToBlob(image), 'image.png');
+    if (mask) {
+      form.append('mask', dataUrlToBlob(await maskToAlpha(mask)), 'mask.png');
+    }
+    if (aspectRatio) {
+      form.append('size', sizeFor(model, aspectRatio));
+    }
+    if (model !== 'gpt-image-1') {
+      form.append('response_format', 'b64_json');
+    }
+
+    const response = await fetch(`${BASE_URL}/v1/images/edits`, {
+      method: 'POST',
+      headers: authHeaders(),
+      body: form,
+      signal,
+    });
+    return readImageResponse(response, "No edited image was returned by the model.", onUsage);
+  },
+};
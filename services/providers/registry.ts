@@ -0,0 +1,36 @@
+import { ImageProvider, ProviderId } from "../../types";
+import { geminiProvider } from "./geminiProvider";
+import { openAIProvider } from "./openAIProvider";
+import { stableDiffusionProvider } from "./stableDiffusionProvider";
+
+export const DEFAULT_PROVIDER_ID: ProviderId = geminiProvider.id;
+
+const providers = new Map<ProviderId, ImageProvider>();
+
+export function registerProvider(provider: ImageProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function getProvider(id: ProviderId): ImageProvider {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`Unknown image provider "${id}".`);
+  }
+  return provider;
+}
+
+export function hasProvider(id: ProviderId): boolean {
+  return providers.has(id);
+}
+
+export function listProviders(): ImageProvider[] {
+  return Array.from(providers.values());
+}
+
+registerProvider(geminiProvider);
+// Fixture mode records and replays Gemini only, so the other backends are left
+// out rather than reaching the network
+if (!process.env.GEMINI_FIXTURES) {
+  registerProvider(openAIProvider);
+  registerProvider(stableDiffusionProvider);
+}
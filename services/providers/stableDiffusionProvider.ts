@@ -0,0 +1,232 @@
+import { ImageProvider } from "../../types";
+import { EmptyResponseError, InvalidInputError, TimeoutError, errorFromStatus, parseRetryAfter } from "../errors";
+import { blobToDataUrl, dataUrlToBlob, dimensionsForAspectRatio, imageDataUrl, parseDataUrl, trimTrailingSlash } from "./utils";
+
+type ServerFlavor = 'a1111' | 'comfyui';
+
+const BASE_URL = trimTrailingSlash(process.env.SD_BASE_URL || 'http://127.0.0.1:7860');
+const FLAVOR: ServerFlavor = process.env.SD_API_FLAVOR === 'comfyui' ? 'comfyui' : 'a1111';
+const MODELS = (process.env.SD_MODELS || '').split(',').map(m => m.trim()).filter(Boolean);
+
+// Means "whatever checkpoint the server has loaded" for the WebUI.
+const DEFAULT_MODEL = 'default';
+const EDIT_DENOISE = 0.6;
+const COMFY_POLL_INTERVAL_MS = 1000;
+const COMFY_TIMEOUT_MS = 5 * 60 * 1000;
+
+async function postJson(path: string, payload: unknown, signal?: AbortSignal): Promise<any> {
+  const response = await fetch(`${BASE_URL}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+    signal,
+  });
+  if (!response.ok) {
+    throw errorFromStatus(response.status, `Stable Diffusion server returned ${response.status} for ${path}.`, {
+      retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+    });
+  }
+  return response.json();
+}
+
+// --- AUTOMATIC1111 / Forge WebUI ---
+
+function webUiOverrides(model: string) {
+  return model && model !== DEFAULT_MODEL ? { override_settings: { sd_model_checkpoint: model } } : {};
+}
+
+// Posts a WebUI job, interrupting the sampling if the request is aborted
+async function webUiRun(path: string, payload: unknown, signal?: AbortSignal): Promise<any> {
+  try {
+    return await postJson(path, payload, signal);
+  } catch (error) {
+    if (signal?.aborted) {
+      await postJson('/sdapi/v1/interrupt', {}).catch(e => console.error("Failed to interrupt the WebUI", e));
+    }
+    throw error;
+  }
+}
+
+function webUiImage(body: any, emptyMessage: string): string {
+  const image = body?.images?.[0];
+  if (!image) {
+    throw new EmptyResponseError(emptyMessage);
+  }
+  return imageDataUrl(image);
+}
+
+// --- ComfyUI ---
+
+type ComfySource = { width: number; height: number } | { image: string; mask?: string };
+
+// A random seed unless one was fixed on the Settings page
+const seedOr = (seed?: number) => seed ?? Math.floor(Math.random() * 2 ** 32);
+
+function comfyWorkflow(prompt: string, checkpoint: string, source: ComfySource, negativePrompt = '', seed?: number) {
+  if (checkpoint === DEFAULT_MODEL) {
+    throw new InvalidInputError("ComfyUI needs an explicit checkpoint. Set SD_MODELS to the checkpoint file names on your server.");
+  }
+
+  const workflow: Record<string, { class_type: string; inputs: Record<string, unknown> }> = {
+    checkpoint: { class_type: 'CheckpointLoaderSimple', inputs: { ckpt_name: checkpoint } },
+    positive: { class_type: 'CLIPTextEncode', inputs: { text: prompt, clip: ['checkpoint', 1] } },
+    negative: { class_type: 'CLIPTextEncode', inputs: { text: negativePrompt, clip: ['checkpoint', 1] } },
+    sampler: {
+      class_type: 'KSampler',
+      inputs: {
+        seed: seedOr(seed),
+        steps: 25,
+        cfg: 7,
+        sampler_name: 'euler',
+        scheduler: 'normal',
+        denoise: 1,
+        model: ['checkpoint', 0],
+        positive: ['positive', 0],
+        negative: ['negative', 0],
+        latent_image: ['latent', 0],
+      },
+    },
+    decode: { class_type: 'VAEDecode', inputs: { samples: ['sampler', 0], vae: ['checkpoint', 2] } },
+    save: { class_type: 'SaveImage', inputs: { filename_prefix: 'text2image', images: ['decode', 0] } },
+  };
+
+  if ('image' in source) {
+    workflow.source = { class_type: 'LoadImage', inputs: { image: source.image } };
+    workflow.latent = { class_type: 'VAEEncode', inputs: { pixels: ['source', 0], vae: ['checkpoint', 2] } };
+    workflow.sampler.inputs.denoise = EDIT_DENOISE;
+    if (source.mask) {
+      workflow.mask = { class_type: 'LoadImageMask', inputs: { image: source.mask, channel: 'red' } };
+      workflow.maskedLatent = { class_type: 'SetLatentNoiseMask', inputs: { samples: ['latent', 0], mask: ['mask', 0] } };
+      workflow.sampler.inputs.latent_image = ['maskedLatent', 0];
+    }
+  } else {
+    workflow.latent = { class_type: 'EmptyLatentImage', inputs: { width: source.width, height: source.height, batch_size: 1 } };
+  }
+
+  return workflow;
+}
+
+async function comfyUpload(dataUrl: string, signal?: AbortSignal): Promise<string> {
+  const form = new FormData();
+  form.append('image', dataUrlToBlob(dataUrl), `text2image-${Date.now()}.png`);
+  form.append('overwrite', 'true');
+  const response = await fetch(`${BASE_URL}/upload/image`, { method: 'POST', body: form, signal });
+  if (!response.ok) {
+    throw errorFromStatus(response.status, `ComfyUI rejected the source image (${response.status}).`);
+  }
+  const body = await response.json();
+  return body.subfolder ? `${body.subfolder}/${body.name}` : body.name;
+}
+
+// Whether `promptId` is the job ComfyUI is sampling right now
+async function comfyIsRunning(promptId: string): Promise<boolean> {
+  const response = await fetch(`${BASE_URL}/queue`);
+  const queue = await response.json();
+  return (queue?.queue_running ?? []).some((item: unknown[]) => item[1] === promptId);
+}
+
+async function comfyCancel(promptId: string): Promise<void> {
+  // Drop the job if it is still queued. /interrupt stops whatever is sampling,
+  // which may be someone else's job, so it is only sent while ours is the one
+  // running; newer servers also check the prompt_id themselves.
+  await Promise.allSettled([
+    postJson('/queue', { delete: [promptId] }),
+    comfyIsRunning(promptId).then(running => running && postJson('/interrupt', { prompt_id: promptId })),
+  ]);
+}
+
+/**
+ * Queues `workflow` and polls until its image is ready. Once ComfyUI has the
+ * prompt, any failure cancels it there, and errors are no longer retryable so
+ * a retry never queues the same workflow twice; failed polls are simply repeated.
+ */
+async function comfyRun(workflow: object, emptyMessage: string, signal?: AbortSignal): Promise<string> {
+  // Not aborted mid-flight: without the prompt id a queued job could not be cancelled
+  const { prompt_id: promptId } = await postJson('/prompt', { prompt: workflow });
+  const deadline = Date.now() + COMFY_TIMEOUT_MS;
+  let finished = false;
+
+  try {
+    while (Date.now() < deadline) {
+      signal?.throwIfAborted();
+      await new Promise(resolve => setTimeout(resolve, COMFY_POLL_INTERVAL_MS));
+      signal?.throwIfAborted();
+      const history = await fetch(`${BASE_URL}/history/${promptId}`, { signal })
+        .then(response => (response.ok ? response.json() : null))
+        .catch(error => {
+          if (signal?.aborted) throw error;
+          return null;
+        });
+      const entry = history?.[promptId];
+      if (!entry) continue;
+
+      finished = true;
+      const image = entry.outputs?.save?.images?.[0];
+      if (!image) {
+        throw new EmptyResponseError(emptyMessage);
+      }
+      const query = new URLSearchParams({ filename: image.filename, subfolder: image.subfolder, type: image.type });
+      const file = await fetch(`${BASE_URL}/view?${query}`, { signal });
+      if (!file.ok) {
+        throw new EmptyResponseError(`ComfyUI finished the job but its image could not be downloaded (${file.status}).`);
+      }
+      return blobToDataUrl(await file.blob());
+    }
+    throw new TimeoutError("ComfyUI did not finish the job in time.");
+  } finally {
+    if (!finished) await comfyCancel(promptId);
+  }
+}
+
+export const stableDiffusionProvider: ImageProvider = {
+  id: 'stable-diffusion',
+  label: FLAVOR === 'comfyui' ? 'Stable Diffusion (ComfyUI)' : 'Stable Diffusion WebUI',
+  models: MODELS.length > 0 ? MODELS : [DEFAULT_MODEL],
+  defaultModel: MODELS[0] || DEFAULT_MODEL,
+  maxReferenceImages: 0,
+
+  async generate({ prompt, aspectRatio, model, negativePrompt, seed, signal }) {
+    const { width, height } = dimensionsForAspectRatio(aspectRatio);
+
+    if (FLAVOR === 'comfyui') {
+      return comfyRun(
+        comfyWorkflow(prompt, model, { width, height }, negativePrompt, seed),
+        "No image was generated by the model.",
+        signal
+      );
+    }
+
+    const body = await webUiRun('/sdapi/v1/txt2img', {
+      prompt,
+      negative_prompt: negativePrompt ?? '',
+      width,
+      height,
+      seed: seed ?? -1,
+      ...webUiOverrides(model),
+    }, signal);
+    return webUiImage(body, "No image was generated by the model.");
+  },
+
+  async edit({ prompt, image, mask, aspectRatio, model, seed, signal }) {
+    if (FLAVOR === 'comfyui') {
+      const uploaded = await comfyUpload(image, signal);
+      const uploadedMask = mask ? await comfyUpload(mask, signal) : undefined;
+      return comfyRun(
+        comfyWorkflow(prompt, model, { image: uploaded, mask: uploadedMask }, '', seed),
+        "No edited image was returned by the model.",
+        signal
+      );
+    }
+
+    const body = await webUiRun('/sdapi/v1/img2img', {
+      prompt,
+      init_images: [parseDataUrl(image).data],
+      denoising_strength: EDIT_DENOISE,
+      seed: seed ?? -1,
+      ...(mask ? { mask: parseDataUrl(mask).data, mask_blur: 4, inpainting_fill: 1 } : {}),
+      ...(aspectRatio ? dimensionsForAspectRatio(aspectRatio) : {}),
+      ...webUiOverrides(model),
+    }, signal);
+    return webUiImage(body, "No edited image was returned by the model.");
+  },
+};
@@ -0,0 +1,83 @@
+import { AspectRatio, ReferenceImage, ReferenceRole } from "../../types";
+
+export interface ParsedDataUrl {
+  mimeType: string;
+  data: string;
+}
+
+export function parseDataUrl(dataUrl: string): ParsedDataUrl {
+  // Extract the base64 data from the data URL
+  const data = dataUrl.split(',')[1];
+  const mimeType = dataUrl.split(';')[0].split(':')[1];
+  return { mimeType: mimeType || 'image/png', data };
+}
+
+// Leading base64 characters of each format's magic bytes
+const BASE64_SIGNATURES: [string, string][] = [
+  ['iVBORw0KGgo', 'image/png'],
+  ['/9j/', 'image/jpeg'],
+  ['UklGR', 'image/webp'],
+  ['R0lGOD', 'image/gif'],
+];
+
+/**
+ * Wraps base64 image data in a data URL. A declared image MIME type is trusted;
+ * otherwise the type is sniffed from the data, falling back to PNG.
+ */
+export function imageDataUrl(base64: string, declaredMimeType?: string): string {
+  const mimeType = declaredMimeType?.startsWith('image/')
+    ? declaredMimeType
+    : BASE64_SIGNATURES.find(([prefix]) => base64.startsWith(prefix))?.[1] ?? 'image/png';
+  return `data:${mimeType};base64,${base64}`;
+}
+
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const { mimeType, data } = parseDataUrl(dataUrl);
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Pixel dimensions for backends that want a width/height instead of a ratio.
+// Both sides are rounded to a multiple of 64, which diffusion models require.
+export function dimensionsForAspectRatio(aspectRatio: AspectRatio, longSide = 1024): { width: number; height: number } {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const round = (value: number) => Math.max(64, Math.round(value / 64) * 64);
+  if (w >= h) {
+    return { width: round(longSide), height: round((longSide * h) / w) };
+  }
+  return { width: round((longSide * w) / h), height: round(longSide) };
+}
+
+export function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+const ROLE_INSTRUCTIONS: Record<ReferenceRole, string> = {
+  subject: 'keep this subject\'s identity and appearance consistent',
+  style: 'match its artistic style, palette and lighting, not its content',
+  composition: 'follow its layout, framing and camera angle',
+  reference: 'use it as general visual reference',
+};
+
+/** The text placed next to a reference image so the model knows what it is for. */
+export function describeReference(reference: ReferenceImage, index: number): string {
+  return `Reference image ${index + 1} (${reference.role}): ${ROLE_INSTRUCTIONS[reference.role]}.`;
+}
+
+/** For models without a negative-prompt field, states the exclusions in the prompt itself. */
+export function foldNegativePrompt(prompt: string, negativePrompt?: string): string {
+  return negativePrompt?.trim() ? `${prompt}\n\nAvoid: ${negativePrompt.trim()}.` : prompt;
+}
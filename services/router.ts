@@ -0,0 +1,95 @@
+import { Page, Route } from "../types";
+
+// Hash routes (#/about, #/image/:id) so deep links work on any static host
+// without a server-side fallback to index.html.
+
+const PAGES: Page[] = ['home', 'about', 'contact', 'usage', 'settings', 'privacy', 'terms', 'disclaimer'];
+
+export function parseRoute(hash: string): Route {
+  const path = hash.replace(/^#/, '') || '/';
+  let segments: string[];
+  try {
+    segments = path.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch (e) {
+    // A malformed escape such as %E0 in a hand-edited link
+    return { page: 'not-found', path };
+  }
+  const [first = '', second, ...rest] = segments;
+
+  if (!first) return { page: 'home' };
+  if (rest.length === 0) {
+    if (!second && PAGES.includes(first as Page) && first !== 'home') return { page: first as Page };
+    if (second && first === 'image') return { page: 'image', id: second };
+    if (second && first === 'collection') return { page: 'collection', id: second };
+  }
+  return { page: 'not-found', path };
+}
+
+export function pathFor(route: Route): string {
+  switch (route.page) {
+    case 'home':
+      return '#/';
+    case 'image':
+    case 'collection':
+      return `#/${route.page}/${encodeURIComponent(route.id)}`;
+    case 'not-found':
+      return `#${route.path}`;
+    default:
+      return `#/${route.page}`;
+  }
+}
+
+export function currentRoute(): Route {
+  return parseRoute(window.location.hash);
+}
+
+export function navigate(route: Route): void {
+  const path = pathFor(route);
+  if (window.location.hash !== path) window.location.hash = path;
+}
+
+// Scroll positions per history entry, keyed by an id stored in history.state
+const scrollPositions = new Map<string, number>();
+let pendingScroll = 0;
+
+function entryKey(): string {
+  const existing = history.state?.routeKey;
+  if (existing) return existing;
+  const key = Math.random().toString(36).substr(2, 9);
+  history.replaceState({ ...history.state, routeKey: key }, '');
+  return key;
+}
+
+/**
+ * Calls `listener` on every route change, whether from `navigate`, a link or
+ * the back button, and remembers each history entry's scroll position.
+ */
+export function subscribeToRoute(listener: (route: Route) => void): () => void {
+  if ('scrollRestoration' in history) history.scrollRestoration = 'manual';
+  let key = entryKey();
+  let frame = 0;
+
+  const onScroll = () => {
+    cancelAnimationFrame(frame);
+    frame = requestAnimationFrame(() => scrollPositions.set(key, window.scrollY));
+  };
+  const onHashChange = () => {
+    cancelAnimationFrame(frame);
+    key = entryKey();
+    pendingScroll = scrollPositions.get(key) ?? 0;
+    listener(currentRoute());
+  };
+
+  window.addEventListener('scroll', onScroll, { passive: true });
+  window.addEventListener('hashchange', onHashChange);
+  return () => {
+    cancelAnimationFrame(frame);
+    window.removeEventListener('scroll', onScroll);
+    window.removeEventListener('hashchange', onHashChange);
+  };
+}
+
+/** Scrolls to where the current history entry was left, or to the top for a new entry. Call after rendering the route. */
+export function restoreScroll(): void {
+  window.scrollTo(0, pendingScroll);
+}
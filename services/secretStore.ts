@@ -0,0 +1,70 @@
+// Secrets remembered on this device are encrypted with AES-GCM. The key is
+// generated once and kept in its own IndexedDB database as a non-extractable
+// CryptoKey, so the encrypted value is useless when copied elsewhere.
+
+const DB_NAME = 'text2image-secrets';
+const KEY_STORE = 'keys';
+const DEVICE_KEY_ID = 'device';
+const IV_BYTES = 12;
+
+let keyPromise: Promise<CryptoKey> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(KEY_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function loadDeviceKey(): Promise<CryptoKey> {
+  const db = await openDatabase();
+  const existing = await new Promise<CryptoKey | undefined>((resolve, reject) => {
+    const request = db.transaction(KEY_STORE, 'readonly').objectStore(KEY_STORE).get(DEVICE_KEY_ID);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  if (existing) return existing;
+
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(KEY_STORE, 'readwrite');
+    tx.objectStore(KEY_STORE).put(key, DEVICE_KEY_ID);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+  return key;
+}
+
+function deviceKey(): Promise<CryptoKey> {
+  keyPromise ??= loadDeviceKey().catch(error => {
+    keyPromise = null;
+    throw error;
+  });
+  return keyPromise;
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+/** Encrypts `secret` with the device key; the result is base64 of the IV followed by the ciphertext. */
+export async function encryptSecret(secret: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const cipher = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await deviceKey(), new TextEncoder().encode(secret));
+  const payload = new Uint8Array(IV_BYTES + cipher.byteLength);
+  payload.set(iv);
+  payload.set(new Uint8Array(cipher), IV_BYTES);
+  return toBase64(payload);
+}
+
+/** Reverses `encryptSecret`; fails when the value was encrypted on another device or in another browser profile. */
+export async function decryptSecret(payload: string): Promise<string> {
+  const bytes = fromBase64(payload);
+  const plain = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: bytes.subarray(0, IV_BYTES) },
+    await deviceKey(),
+    bytes.subarray(IV_BYTES)
+  );
+  return new TextDecoder().decode(plain);
+}
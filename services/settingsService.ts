@@ -0,0 +1,107 @@
+import { AppSettings, KeyStorage } from "../types";
+import { decryptSecret, encryptSecret } from "./secretStore";
+
+const SETTINGS_KEY = 'text2image-settings';
+const API_KEY_KEY = 'text2image-api-key';
+// Before the Settings page, the prompt form remembered its last provider and model here
+const LEGACY_PROVIDER_KEY = 'text2image-provider';
+
+export const CANDIDATE_COUNTS = [1, 2, 4, 8];
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  provider: null,
+  model: null,
+  textModel: null,
+  aspectRatio: '1:1',
+  candidateCount: 1,
+  temperature: null,
+  seed: null,
+};
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+const emit = () => listeners.forEach(listener => listener());
+
+/** Calls `listener` whenever the settings or the API key change. */
+export function subscribeToSettings(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function legacyProviderChoice(): Partial<AppSettings> {
+  const saved = localStorage.getItem(LEGACY_PROVIDER_KEY);
+  if (!saved) return {};
+  try {
+    const { provider, model } = JSON.parse(saved);
+    return { provider, model };
+  } catch (e) {
+    console.error("Failed to parse saved provider");
+    return {};
+  }
+}
+
+/** The saved settings over the defaults. Requests read this on every call, so changes apply at once. */
+export function loadSettings(): AppSettings {
+  const saved = localStorage.getItem(SETTINGS_KEY);
+  if (!saved) return { ...DEFAULT_SETTINGS, ...legacyProviderChoice() };
+  try {
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(saved) };
+  } catch (e) {
+    console.error("Failed to parse saved settings", e);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveSettings(settings: AppSettings): void {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  localStorage.removeItem(LEGACY_PROVIDER_KEY);
+  emit();
+}
+
+// The user's own Gemini key. A device-stored key is only readable once restoreApiKey has decrypted it.
+let apiKey = sessionStorage.getItem(API_KEY_KEY) ?? '';
+
+/** The key entered on the Settings page, or '' to use the deployment's own. */
+export function getApiKey(): string {
+  return apiKey;
+}
+
+/** Where the current key is kept, or null when none was entered. */
+export function apiKeyStorage(): KeyStorage | null {
+  if (localStorage.getItem(API_KEY_KEY)) return 'device';
+  if (sessionStorage.getItem(API_KEY_KEY)) return 'session';
+  return null;
+}
+
+/** Decrypts a key remembered on this device. Called once at startup. */
+export async function restoreApiKey(): Promise<void> {
+  const stored = localStorage.getItem(API_KEY_KEY);
+  if (!stored || apiKey) return;
+  try {
+    apiKey = await decryptSecret(stored);
+    emit();
+  } catch (e) {
+    // Encrypted in another browser profile, or the device key was cleared with site data
+    console.error("Failed to decrypt the saved API key", e);
+    localStorage.removeItem(API_KEY_KEY);
+    emit();
+  }
+}
+
+/** Keeps `key` for this tab only or encrypted on this device. An empty key removes it. */
+export async function saveApiKey(key: string, storage: KeyStorage): Promise<void> {
+  const trimmed = key.trim();
+  const encrypted = trimmed && storage === 'device' ? await encryptSecret(trimmed) : '';
+  sessionStorage.removeItem(API_KEY_KEY);
+  localStorage.removeItem(API_KEY_KEY);
+  if (encrypted) {
+    localStorage.setItem(API_KEY_KEY, encrypted);
+  } else if (trimmed) {
+    sessionStorage.setItem(API_KEY_KEY, trimmed);
+  }
+  apiKey = trimmed;
+  emit();
+}
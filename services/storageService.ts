@@ -0,0 +1,487 @@
+import { Collection, ConversationTurn, EditSession, GalleryQuery, GeneratedImage, UsageRecord } from "../types";
+import { DEFAULT_GALLERY_QUERY, collectTags, queryLineages } from "./galleryQuery";
+import { dataUrlToBlob } from "./providers/utils";
+import { withParams } from "./generationParams";
+
+const DB_NAME = 'text2image';
+const DB_VERSION = 6;
+const META_STORE = 'images';
+const BLOB_STORE = 'blobs';
+const COLLECTION_STORE = 'collections';
+const USAGE_STORE = 'usage';
+const SESSION_STORE = 'sessions';
+const LEGACY_KEY = 'text2image-images';
+const MIGRATED_KEY = 'text2image-migrated';
+
+export const PAGE_SIZE = 24;
+
+// Metadata lives apart from the pixels so listing the gallery never reads blobs.
+interface StoredImageRecord extends Omit<GeneratedImage, 'url'> {
+  mimeType: string;
+  size: number;
+}
+
+export interface ImagePage {
+  // Root images followed by every edit version that belongs to them.
+  images: GeneratedImage[];
+  hasMore: boolean;
+  // Number of gallery entries matching the query
+  total: number;
+  // Every tag in use across the whole gallery, for the filter bar
+  tags: string[];
+}
+
+/** An image's metadata with its pixels, as read for export or written by import. */
+export interface StoredImage {
+  image: Omit<GeneratedImage, 'url'>;
+  blob: Blob;
+}
+
+type MetadataChanges = Partial<Omit<GeneratedImage, 'id' | 'url'>>;
+
+// Sessions keep their own copies of every turn's image, so they outlive edits to the gallery
+interface StoredTurn extends Omit<ConversationTurn, 'image'> {
+  blob?: Blob;
+}
+
+interface StoredSessionRecord extends Omit<EditSession, 'turns'> {
+  turns: StoredTurn[];
+}
+
+export interface StorageUsage {
+  imageCount: number;
+  galleryBytes: number;
+  usedBytes: number | null;
+  quotaBytes: number | null;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const objectUrls = new Map<string, string>();
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          const meta = db.createObjectStore(META_STORE, { keyPath: 'id' });
+          meta.createIndex('timestamp', 'timestamp');
+          db.createObjectStore(BLOB_STORE);
+        }
+        if (event.oldVersion < 2) {
+          request.transaction!.objectStore(META_STORE).createIndex('rootId', 'rootId');
+        }
+        if (event.oldVersion < 3) {
+          db.createObjectStore(COLLECTION_STORE, { keyPath: 'id' });
+        }
+        if (event.oldVersion < 4) {
+          db.createObjectStore(USAGE_STORE, { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+        }
+        if (event.oldVersion < 5) {
+          db.createObjectStore(SESSION_STORE, { keyPath: 'id' }).createIndex('rootId', 'rootId');
+        }
+        if (event.oldVersion < 6) {
+          // Images from before generation parameters were recorded get them rebuilt from their other fields
+          const cursorRequest = request.transaction!.objectStore(META_STORE).openCursor();
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            cursor.update(withParams(cursor.value));
+            cursor.continue();
+          };
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function completion(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function objectUrlFor(id: string, blob: Blob): string {
+  const existing = objectUrls.get(id);
+  if (existing) return existing;
+  const url = URL.createObjectURL(blob);
+  objectUrls.set(id, url);
+  return url;
+}
+
+function revokeObjectUrl(id: string): void {
+  const url = objectUrls.get(id);
+  if (url) {
+    URL.revokeObjectURL(url);
+    objectUrls.delete(id);
+  }
+}
+
+async function urlToBlob(url: string): Promise<Blob> {
+  if (url.startsWith('data:')) {
+    return dataUrlToBlob(url);
+  }
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Could not download image for storage (${response.status}).`);
+  }
+  return response.blob();
+}
+
+function toRecord({ url, ...image }: GeneratedImage, blob: Blob): StoredImageRecord {
+  return { ...withParams(image), mimeType: blob.type || 'image/png', size: blob.size };
+}
+
+function fromRecord({ mimeType, size, ...image }: StoredImageRecord, blob: Blob): GeneratedImage {
+  return { ...image, url: objectUrlFor(image.id, blob) };
+}
+
+/**
+ * Persists an image and returns it with its `url` swapped for an object URL.
+ * Saving an existing id replaces both the metadata and the pixels.
+ */
+export async function saveImage(image: GeneratedImage): Promise<GeneratedImage> {
+  const blob = await urlToBlob(image.url);
+  const db = await openDatabase();
+  const tx = db.transaction([META_STORE, BLOB_STORE], 'readwrite');
+  tx.objectStore(META_STORE).put(toRecord(image, blob));
+  tx.objectStore(BLOB_STORE).put(blob, image.id);
+  await completion(tx);
+
+  revokeObjectUrl(image.id);
+  return { ...image, url: objectUrlFor(image.id, blob) };
+}
+
+/** Writes several images and their pixels in one transaction. */
+export async function saveImages(entries: StoredImage[]): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([META_STORE, BLOB_STORE], 'readwrite');
+  for (const { image, blob } of entries) {
+    tx.objectStore(META_STORE).put({ ...withParams(image), mimeType: blob.type || 'image/png', size: blob.size });
+    tx.objectStore(BLOB_STORE).put(blob, image.id);
+  }
+  await completion(tx);
+  entries.forEach(({ image }) => revokeObjectUrl(image.id));
+}
+
+/** Merges `changes` into the stored metadata; the stored pixels are left untouched. */
+export async function updateImageMetadata(id: string, changes: MetadataChanges): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  const store = tx.objectStore(META_STORE);
+  const current = await promisify<StoredImageRecord | undefined>(store.get(id));
+  if (current) {
+    store.put({ ...current, ...changes });
+  }
+  await completion(tx);
+}
+
+export async function hasImage(id: string): Promise<boolean> {
+  const db = await openDatabase();
+  const count = await promisify<number>(db.transaction(META_STORE, 'readonly').objectStore(META_STORE).count(id));
+  return count > 0;
+}
+
+function isRoot(record: StoredImageRecord): boolean {
+  return !record.parentId;
+}
+
+function rootIdOf(record: StoredImageRecord): string {
+  return record.rootId ?? record.id;
+}
+
+/**
+ * One page of gallery entries matching `query`, each with its edit versions.
+ * Filtering runs over the metadata store only; blobs are read for the page alone.
+ */
+export async function loadImagePage(
+  query: GalleryQuery = DEFAULT_GALLERY_QUERY,
+  offset = 0,
+  limit = PAGE_SIZE
+): Promise<ImagePage> {
+  const all = await loadAllRecords();
+  const matching = queryLineages(all, query);
+  const page = matching.slice(offset, offset + limit);
+
+  const db = await openDatabase();
+  const blobs = db.transaction(BLOB_STORE, 'readonly').objectStore(BLOB_STORE);
+  const images: GeneratedImage[] = [];
+  for (const record of page.flatMap(({ root, versions }) => [root, ...versions])) {
+    const blob = await promisify<Blob | undefined>(blobs.get(record.id));
+    if (blob) images.push(fromRecord(record, blob));
+  }
+
+  return {
+    images,
+    hasMore: offset + limit < matching.length,
+    total: matching.length,
+    tags: collectTags(all),
+  };
+}
+
+async function loadAllRecords(): Promise<StoredImageRecord[]> {
+  const db = await openDatabase();
+  return promisify<StoredImageRecord[]>(db.transaction(META_STORE, 'readonly').objectStore(META_STORE).getAll());
+}
+
+/** The edit tree containing `id`, root first, or null when no such image is stored. */
+export async function loadImageTree(id: string): Promise<GeneratedImage[] | null> {
+  const records = await loadAllRecords();
+  const target = records.find(record => record.id === id);
+  if (!target) return null;
+
+  const tree = records
+    .filter(record => rootIdOf(record) === rootIdOf(target))
+    .sort((a, b) => Number(!isRoot(a)) - Number(!isRoot(b)) || a.timestamp - b.timestamp);
+
+  const db = await openDatabase();
+  const blobs = db.transaction(BLOB_STORE, 'readonly').objectStore(BLOB_STORE);
+  const images: GeneratedImage[] = [];
+  for (const record of tree) {
+    const blob = await promisify<Blob | undefined>(blobs.get(record.id));
+    if (blob) images.push(fromRecord(record, blob));
+  }
+  return images;
+}
+
+/** The listed images that are still stored, in no particular order. */
+export async function loadImages(ids: string[]): Promise<GeneratedImage[]> {
+  const db = await openDatabase();
+  const tx = db.transaction([META_STORE, BLOB_STORE], 'readonly');
+  const images: GeneratedImage[] = [];
+  for (const id of ids) {
+    const record = await promisify<StoredImageRecord | undefined>(tx.objectStore(META_STORE).get(id));
+    const blob = record && await promisify<Blob | undefined>(tx.objectStore(BLOB_STORE).get(id));
+    if (record && blob) images.push(fromRecord(record, blob));
+  }
+  return images;
+}
+
+/** Metadata and pixels of the listed gallery entries and their versions, or of everything. */
+export async function loadStoredImages(rootIds?: string[]): Promise<StoredImage[]> {
+  const roots = rootIds && new Set(rootIds);
+  const records = (await loadAllRecords()).filter(record => !roots || roots.has(rootIdOf(record)));
+
+  const db = await openDatabase();
+  const blobs = db.transaction(BLOB_STORE, 'readonly').objectStore(BLOB_STORE);
+  const entries: StoredImage[] = [];
+  for (const { mimeType, size, ...image } of records) {
+    const blob = await promisify<Blob | undefined>(blobs.get(image.id));
+    if (blob) entries.push({ image, blob });
+  }
+  return entries;
+}
+
+/** Number of gallery entries, i.e. root images; edit versions are not counted. */
+export async function countImages(): Promise<number> {
+  const records = await loadAllRecords();
+  return records.filter(isRoot).length;
+}
+
+export async function deleteImages(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction([META_STORE, BLOB_STORE], 'readwrite');
+  for (const id of ids) {
+    tx.objectStore(META_STORE).delete(id);
+    tx.objectStore(BLOB_STORE).delete(id);
+  }
+  await completion(tx);
+  ids.forEach(revokeObjectUrl);
+}
+
+/** Applies `update` to the metadata of each listed image in a single transaction. */
+export async function updateImagesMetadata(
+  ids: string[],
+  update: (image: Omit<GeneratedImage, 'url'>) => MetadataChanges
+): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  const store = tx.objectStore(META_STORE);
+  for (const id of ids) {
+    const current = await promisify<StoredImageRecord | undefined>(store.get(id));
+    if (current) store.put({ ...current, ...update(current) });
+  }
+  await completion(tx);
+}
+
+/** Deletes gallery entries together with every edit version in their trees. */
+export async function deleteLineages(rootIds: string[]): Promise<void> {
+  const roots = new Set(rootIds);
+  const records = await loadAllRecords();
+  await deleteImages(records.filter(record => roots.has(rootIdOf(record))).map(record => record.id));
+  await deleteSessionsOf(rootIds);
+}
+
+export async function listCollections(): Promise<Collection[]> {
+  const db = await openDatabase();
+  const collections = await promisify<Collection[]>(
+    db.transaction(COLLECTION_STORE, 'readonly').objectStore(COLLECTION_STORE).getAll()
+  );
+  return collections.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveCollection(collection: Collection): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(COLLECTION_STORE, 'readwrite');
+  tx.objectStore(COLLECTION_STORE).put(collection);
+  await completion(tx);
+}
+
+/** Removes the collection; its images stay in the gallery. */
+export async function deleteCollection(id: string): Promise<void> {
+  const records = await loadAllRecords();
+  const members = records.filter(record => record.collectionIds?.includes(id)).map(record => record.id);
+  await updateImagesMetadata(members, image => ({
+    collectionIds: image.collectionIds?.filter(collectionId => collectionId !== id),
+  }));
+
+  const db = await openDatabase();
+  const tx = db.transaction(COLLECTION_STORE, 'readwrite');
+  tx.objectStore(COLLECTION_STORE).delete(id);
+  await completion(tx);
+}
+
+export async function saveUsageRecord(record: UsageRecord): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(USAGE_STORE, 'readwrite');
+  tx.objectStore(USAGE_STORE).put(record);
+  await completion(tx);
+}
+
+/** Usage records at or after `since`, oldest first. */
+export async function loadUsageRecords(since = 0): Promise<UsageRecord[]> {
+  const db = await openDatabase();
+  const index = db.transaction(USAGE_STORE, 'readonly').objectStore(USAGE_STORE).index('timestamp');
+  return promisify<UsageRecord[]>(index.getAll(IDBKeyRange.lowerBound(since)));
+}
+
+export async function clearUsageRecords(): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(USAGE_STORE, 'readwrite');
+  tx.objectStore(USAGE_STORE).clear();
+  await completion(tx);
+}
+
+export async function saveEditSession(session: EditSession): Promise<void> {
+  const turns = await Promise.all(session.turns.map(async ({ image, ...turn }): Promise<StoredTurn> => (
+    image ? { ...turn, blob: await urlToBlob(image) } : turn
+  )));
+  const db = await openDatabase();
+  const tx = db.transaction(SESSION_STORE, 'readwrite');
+  tx.objectStore(SESSION_STORE).put({ ...session, turns });
+  await completion(tx);
+}
+
+/** Saved conversations about any version of the gallery entry `rootId`, most recent first. */
+export async function listEditSessions(rootId: string): Promise<EditSession[]> {
+  const db = await openDatabase();
+  const index = db.transaction(SESSION_STORE, 'readonly').objectStore(SESSION_STORE).index('rootId');
+  const records = await promisify<StoredSessionRecord[]>(index.getAll(rootId));
+  return records
+    .map(record => ({
+      ...record,
+      turns: record.turns.map(({ blob, ...turn }) => blob ? { ...turn, image: objectUrlFor(turn.id, blob) } : turn),
+    }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function deleteEditSession(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSION_STORE, 'readwrite');
+  const store = tx.objectStore(SESSION_STORE);
+  const record = await promisify<StoredSessionRecord | undefined>(store.get(id));
+  store.delete(id);
+  await completion(tx);
+  record?.turns.forEach(turn => revokeObjectUrl(turn.id));
+}
+
+async function deleteSessionsOf(rootIds: string[]): Promise<void> {
+  for (const rootId of rootIds) {
+    for (const session of await listEditSessions(rootId)) {
+      await deleteEditSession(session.id);
+    }
+  }
+}
+
+export async function clearImages(): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([META_STORE, BLOB_STORE, SESSION_STORE], 'readwrite');
+  tx.objectStore(META_STORE).clear();
+  tx.objectStore(BLOB_STORE).clear();
+  tx.objectStore(SESSION_STORE).clear();
+  await completion(tx);
+  Array.from(objectUrls.keys()).forEach(revokeObjectUrl);
+}
+
+/**
+ * Removes the `count` oldest gallery entries together with all of their edit
+ * versions, so no version is left without its root. Returns the deleted ids.
+ */
+export async function evictOldest(count: number): Promise<string[]> {
+  const records = await loadAllRecords();
+  const evictedRoots = new Set(
+    records
+      .filter(isRoot)
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .slice(0, count)
+      .map(record => record.id)
+  );
+  const ids = records.filter(record => evictedRoots.has(rootIdOf(record))).map(record => record.id);
+
+  await deleteImages(ids);
+  await deleteSessionsOf(Array.from(evictedRoots));
+  return ids;
+}
+
+export async function getStorageUsage(): Promise<StorageUsage> {
+  const records = await loadAllRecords();
+  const estimate = navigator.storage?.estimate ? await navigator.storage.estimate() : {};
+
+  return {
+    imageCount: records.filter(isRoot).length,
+    galleryBytes: records.reduce((total, record) => total + record.size, 0),
+    usedBytes: estimate.usage ?? null,
+    quotaBytes: estimate.quota ?? null,
+  };
+}
+
+/**
+ * One-time import of the gallery the app used to keep in localStorage.
+ * The legacy key is only removed once every image has been written.
+ */
+export async function migrateFromLocalStorage(): Promise<number> {
+  if (localStorage.getItem(MIGRATED_KEY)) return 0;
+
+  const saved = localStorage.getItem(LEGACY_KEY);
+  let migrated = 0;
+  if (saved) {
+    try {
+      const legacy: GeneratedImage[] = JSON.parse(saved);
+      for (const image of legacy) {
+        await saveImage(image);
+        migrated++;
+      }
+      localStorage.removeItem(LEGACY_KEY);
+    } catch (e) {
+      console.error("Failed to migrate saved images", e);
+      return migrated;
+    }
+  }
+
+  localStorage.setItem(MIGRATED_KEY, '1');
+  return migrated;
+}
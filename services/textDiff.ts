@@ -0,0 +1,54 @@
+export type DiffKind = 'same' | 'added' | 'removed';
+
+export interface DiffToken {
+  kind: DiffKind;
+  text: string;
+}
+
+// Words compare without case or surrounding punctuation, so "Cat," matches "cat"
+function comparable(word: string): string {
+  return word.toLowerCase().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '') || word;
+}
+
+/**
+ * Word-level diff of `before` against `after` (longest common subsequence).
+ * Tokens come back in reading order; runs of the same kind are merged.
+ */
+export function diffWords(before: string, after: string): DiffToken[] {
+  const a = before.match(/\S+/g) ?? [];
+  const b = after.match(/\S+/g) ?? [];
+  const keyA = a.map(comparable);
+  const keyB = b.map(comparable);
+
+  // lengths[i][j] = LCS length of a[i:] and b[j:]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = keyA[i] === keyB[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const tokens: DiffToken[] = [];
+  const push = (kind: DiffKind, word: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last?.kind === kind) last.text += ` ${word}`;
+    else tokens.push({ kind, text: word });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (keyA[i] === keyB[j]) {
+      push('same', b[j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  return tokens;
+}
@@ -0,0 +1,85 @@
+import { blobToDataUrl } from "./providers/utils";
+import { createCanvas, loadImage } from "./imageProcessing";
+
+export const MAX_UPLOAD_SIDE = 2048;
+export const MAX_REFERENCE_SIDE = 1024;
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp' | 'gif' | 'bmp';
+
+export interface PreparedImage {
+  dataUrl: string;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+const MIME_TYPES: Record<ImageFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+};
+
+// Formats every provider accepts as-is; anything else is re-encoded
+const PASSTHROUGH: ImageFormat[] = ['png', 'jpeg', 'webp'];
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+  return signature.every((byte, i) => bytes[offset + i] === byte);
+}
+
+/** Identifies an image by its magic bytes rather than trusting the file name or browser MIME type. */
+export function detectImageFormat(bytes: Uint8Array): ImageFormat | null {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png';
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'jpeg';
+  if (startsWith(bytes, [0x52, 0x49, 0x46, 0x46]) && startsWith(bytes, [0x57, 0x45, 0x42, 0x50], 8)) return 'webp';
+  if (startsWith(bytes, [0x47, 0x49, 0x46, 0x38])) return 'gif';
+  if (startsWith(bytes, [0x42, 0x4d])) return 'bmp';
+  return null;
+}
+
+function isHeic(bytes: Uint8Array): boolean {
+  const brand = String.fromCharCode(...bytes.slice(4, 12));
+  return /^ftyp(heic|heix|hevc|mif1)/.test(brand);
+}
+
+/**
+ * Validates an image file and downscales it so its longest side is at most
+ * `maxSide`. Files that are already small enough and in a common format keep
+ * their original bytes.
+ */
+export async function prepareImageFile(file: Blob, maxSide = MAX_UPLOAD_SIDE): Promise<PreparedImage> {
+  const header = new Uint8Array(await file.slice(0, 16).arrayBuffer());
+  const format = detectImageFormat(header);
+  if (!format) {
+    throw new Error(isHeic(header)
+      ? 'HEIC photos are not supported by the browser. Export the photo as JPEG or PNG first.'
+      : 'This file is not a supported image. Use PNG, JPEG, WebP, GIF or BMP.');
+  }
+
+  const typed = new Blob([file], { type: MIME_TYPES[format] });
+  const objectUrl = URL.createObjectURL(typed);
+  try {
+    const img = await loadImage(objectUrl);
+    const { naturalWidth: width, naturalHeight: height } = img;
+    const scale = Math.min(1, maxSide / Math.max(width, height));
+
+    if (scale === 1 && PASSTHROUGH.includes(format)) {
+      return { dataUrl: await blobToDataUrl(typed), mimeType: MIME_TYPES[format], width, height };
+    }
+
+    const target = { width: Math.round(width * scale), height: Math.round(height * scale) };
+    const [canvas, ctx] = createCanvas(target.width, target.height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, 0, 0, target.width, target.height);
+    // JPEG has no alpha channel, so only photos that started as JPEG are re-encoded as JPEG
+    const mimeType = format === 'jpeg' ? 'image/jpeg' : 'image/png';
+    return { dataUrl: canvas.toDataURL(mimeType, 0.92), mimeType, ...target };
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+}
+
+export function fileBaseName(file: File): string {
+  return file.name.replace(/\.[^.]+$/, '') || 'Uploaded image';
+}
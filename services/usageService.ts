@@ -0,0 +1,250 @@
+import { BudgetLimits, ModelPrice, PriceTable, TokenUsage, UsageRecord } from "../types";
+import { BudgetExceededError } from "./errors";
+import { clearUsageRecords, loadUsageRecords, saveUsageRecord } from "./storageService";
+
+const PRICES_KEY = 'text2image-prices';
+const BUDGETS_KEY = 'text2image-budgets';
+
+// List prices at the time of writing; edit them on the Usage page when they change.
+export const DEFAULT_PRICES: PriceTable = {
+  'gemini-2.5-flash-image': { inputPerMillion: 0.3, outputPerMillion: 30 },
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'gemini-2.5-flash-lite': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10 },
+  'gpt-image-1': { inputPerMillion: 10, outputPerMillion: 40 },
+  'dall-e-3': { perImage: 0.04 },
+  'dall-e-2': { perImage: 0.02 },
+};
+
+export const DEFAULT_BUDGETS: BudgetLimits = {
+  dailySoft: null,
+  dailyHard: null,
+  monthlySoft: null,
+  monthlyHard: null,
+};
+
+export type BudgetLevel = 'ok' | 'warning' | 'blocked';
+
+export interface BudgetStatus {
+  level: BudgetLevel;
+  // Why the level is not 'ok', written for a banner
+  message?: string;
+  today: number;
+  month: number;
+}
+
+export interface DailyUsage {
+  // Local date, YYYY-MM-DD
+  day: string;
+  cost: number;
+  requests: number;
+  byModel: Record<string, number>;
+}
+
+export interface ModelUsage {
+  model: string;
+  provider: string;
+  requests: number;
+  failures: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  averageLatencyMs: number;
+}
+
+export interface UsageSummary {
+  days: DailyUsage[];
+  models: ModelUsage[];
+  cost: number;
+  requests: number;
+  failures: number;
+  tokens: number;
+}
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+const emit = () => listeners.forEach(listener => listener());
+
+/** Calls `listener` whenever a request is logged or the prices or budgets change. */
+export function subscribeToUsage(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function readJson<T>(key: string, fallback: T): T {
+  const saved = localStorage.getItem(key);
+  if (!saved) return fallback;
+  try {
+    return { ...fallback, ...JSON.parse(saved) };
+  } catch (e) {
+    console.error("Failed to parse saved settings", e);
+    return fallback;
+  }
+}
+
+/** The default price table with the user's overrides applied. */
+export function loadPriceTable(): PriceTable {
+  return readJson(PRICES_KEY, DEFAULT_PRICES);
+}
+
+export function savePriceTable(prices: PriceTable): void {
+  localStorage.setItem(PRICES_KEY, JSON.stringify(prices));
+  emit();
+}
+
+export function loadBudgets(): BudgetLimits {
+  return readJson(BUDGETS_KEY, DEFAULT_BUDGETS);
+}
+
+export function saveBudgets(budgets: BudgetLimits): void {
+  localStorage.setItem(BUDGETS_KEY, JSON.stringify(budgets));
+  emit();
+}
+
+/** Estimated US dollar cost of one request. Models missing from the table cost nothing. */
+export function estimateCost(model: string, usage: TokenUsage, prices: PriceTable = loadPriceTable()): number {
+  const price: ModelPrice | undefined = prices[model];
+  if (!price) return 0;
+  return (price.perImage ?? 0)
+    + (usage.inputTokens ?? 0) / 1e6 * (price.inputPerMillion ?? 0)
+    + (usage.outputTokens ?? 0) / 1e6 * (price.outputPerMillion ?? 0);
+}
+
+/** Logs a finished request. Failed requests are kept for the counts but are not billed. */
+export async function recordUsage(entry: Omit<UsageRecord, 'id' | 'cost'>): Promise<void> {
+  const record: UsageRecord = {
+    ...entry,
+    id: Math.random().toString(36).substr(2, 9),
+    cost: entry.status === 'success' ? estimateCost(entry.model, entry) : 0,
+  };
+  await saveUsageRecord(record);
+  emit();
+}
+
+export async function clearUsageLog(): Promise<void> {
+  await clearUsageRecords();
+  emit();
+}
+
+export function startOfDay(time = Date.now()): number {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+export function startOfMonth(time = Date.now()): number {
+  const date = new Date(startOfDay(time));
+  date.setDate(1);
+  return date.getTime();
+}
+
+export function dayKey(time: number): string {
+  return new Date(time).toLocaleDateString('en-CA');
+}
+
+export function formatCost(dollars: number): string {
+  return `$${dollars.toFixed(dollars > 0 && dollars < 1 ? 3 : 2)}`;
+}
+
+/** Compares today's and this month's spend with the budget limits. */
+export async function checkBudget(limits: BudgetLimits = loadBudgets()): Promise<BudgetStatus> {
+  const records = await loadUsageRecords(startOfMonth());
+  const dayStart = startOfDay();
+  const month = records.reduce((total, record) => total + record.cost, 0);
+  const today = records.filter(record => record.timestamp >= dayStart).reduce((total, record) => total + record.cost, 0);
+
+  const over = (spent: number, limit: number | null) => limit !== null && spent >= limit;
+  const describe = (period: string, spent: number, limit: number, kind: string) =>
+    `${period} spend of ${formatCost(spent)} has reached the ${formatCost(limit)} ${kind} limit.`;
+
+  if (over(today, limits.dailyHard)) {
+    return { level: 'blocked', message: describe("Today's", today, limits.dailyHard!, 'daily'), today, month };
+  }
+  if (over(month, limits.monthlyHard)) {
+    return { level: 'blocked', message: describe("This month's", month, limits.monthlyHard!, 'monthly'), today, month };
+  }
+  if (over(today, limits.dailySoft)) {
+    return { level: 'warning', message: describe("Today's", today, limits.dailySoft!, 'daily'), today, month };
+  }
+  if (over(month, limits.monthlySoft)) {
+    return { level: 'warning', message: describe("This month's", month, limits.monthlySoft!, 'monthly'), today, month };
+  }
+  return { level: 'ok', today, month };
+}
+
+/** Throws BudgetExceededError when a hard limit has been reached. */
+export async function assertWithinBudget(): Promise<void> {
+  const status = await checkBudget();
+  if (status.level === 'blocked') {
+    throw new BudgetExceededError(status.message!);
+  }
+}
+
+/** Groups records into one entry per day from `from` to today, and one entry per model. */
+export function summarizeUsage(records: UsageRecord[], from: number): UsageSummary {
+  const days: DailyUsage[] = [];
+  for (let time = startOfDay(from); time <= Date.now(); time = startOfDay(time + 36 * 60 * 60 * 1000)) {
+    days.push({ day: dayKey(time), cost: 0, requests: 0, byModel: {} });
+  }
+  const dayIndex = new Map(days.map((day, i) => [day.day, i]));
+  const models = new Map<string, ModelUsage & { latencyTotal: number }>();
+
+  for (const record of records) {
+    if (record.timestamp < from) continue;
+    const day = days[dayIndex.get(dayKey(record.timestamp)) ?? -1];
+    if (day) {
+      day.cost += record.cost;
+      day.requests++;
+      day.byModel[record.model] = (day.byModel[record.model] ?? 0) + record.cost;
+    }
+
+    const model = models.get(record.model) ?? {
+      model: record.model,
+      provider: record.provider,
+      requests: 0,
+      failures: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      cost: 0,
+      averageLatencyMs: 0,
+      latencyTotal: 0,
+    };
+    model.requests++;
+    if (record.status === 'failed') model.failures++;
+    model.inputTokens += record.inputTokens ?? 0;
+    model.outputTokens += record.outputTokens ?? 0;
+    model.cost += record.cost;
+    model.latencyTotal += record.latencyMs;
+    model.averageLatencyMs = model.latencyTotal / model.requests;
+    models.set(record.model, model);
+  }
+
+  const modelList = Array.from(models.values())
+    .map(({ latencyTotal, ...model }) => model)
+    .sort((a, b) => b.cost - a.cost || b.requests - a.requests);
+  return {
+    days,
+    models: modelList,
+    cost: modelList.reduce((total, model) => total + model.cost, 0),
+    requests: modelList.reduce((total, model) => total + model.requests, 0),
+    failures: modelList.reduce((total, model) => total + model.failures, 0),
+    tokens: modelList.reduce((total, model) => total + model.inputTokens + model.outputTokens, 0),
+  };
+}
+
+const CSV_COLUMNS: (keyof UsageRecord)[] = [
+  'timestamp', 'kind', 'provider', 'model', 'status', 'inputTokens', 'outputTokens', 'totalTokens', 'latencyMs', 'cost',
+];
+
+/** The usage log as CSV, one row per request, for spreadsheets. */
+export function usageToCsv(records: UsageRecord[]): string {
+  const rows = records.map(record => CSV_COLUMNS.map(column =>
+    column === 'timestamp' ? new Date(record.timestamp).toISOString()
+      : column === 'cost' ? record.cost.toFixed(6)
+      : String(record[column] ?? '')
+  ).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
@@ -1,13 +1,311 @@
-
 export type AspectRatio = '1:1' | '16:9' | '9:16' | '4:3' | '3:4';
 
-export type Page = 'home' | 'about' | 'contact' | 'privacy' | 'terms' | 'disclaimer';
+export type Page = 'home' | 'about' | 'contact' | 'usage' | 'settings' | 'privacy' | 'terms' | 'disclaimer';
+
+export type Route =
+  | { page: Page }
+  | { page: 'image'; id: string }
+  | { page: 'collection'; id: string }
+  | { page: 'not-found'; path: string };
+
+// Providers register themselves by id, so third-party backends are plain strings.
+export type ProviderId = string;
+
+export type ImageOrigin = 'generated' | 'upload';
 
 export interface GeneratedImage {
   id: string;
   url: string;
   prompt: string;
   timestamp: number;
+  // Missing on images saved before uploads existed, which were all generated
+  origin?: ImageOrigin;
+  provider?: ProviderId;
+  model?: string;
+  // Edit lineage: every Magic Edit stores a child version instead of overwriting.
+  // Roots have no parentId and carry the version the gallery card shows by default.
+  parentId?: string;
+  rootId?: string;
+  editPrompt?: string;
+  masked?: boolean;
+  stylePresetId?: string;
+  negativePrompt?: string;
+  aspectRatio?: AspectRatio;
+  // Organisation fields live on the root image and apply to the whole version tree
+  favorite?: boolean;
+  tags?: string[];
+  collectionIds?: string[];
+  activeVersionId?: string;
+  // Set on versions saved from a conversational editing session
+  sessionId?: string;
+  // From describeImage, per version since each has its own pixels; all editable
+  altText?: string;
+  describedPrompt?: string;
+  suggestedTags?: string[];
+  // Everything the request was made with; absent on uploads
+  params?: GenerationParams;
+}
+
+/** A reference attached to a request. Files added from disk have no gallery id. */
+export interface GenerationReference {
+  imageId?: string;
+  role: ReferenceRole;
+  name: string;
+}
+
+/**
+ * The full record of how an image was made, enough to repeat the request.
+ * `version` is the schema version; storage upgrades older records on open.
+ */
+export interface GenerationParams {
+  version: number;
+  kind: JobKind;
+  // The prompt as typed for generations, the instruction for edits
+  prompt: string;
+  provider: ProviderId;
+  model: string;
+  aspectRatio?: AspectRatio;
+  stylePresetId?: string;
+  // Avoid text as typed, before the style's own avoid list was merged in
+  avoid?: string;
+  references: GenerationReference[];
+  // The request as handed to the provider, after styles and avoid text were applied
+  config: Record<string, unknown>;
+  // Set when rebuilt from an image stored before parameters were recorded
+  inferred?: boolean;
+}
+
+export interface ImageDescription {
+  // A prompt that should reproduce the image's content and style
+  prompt: string;
+  // One or two sentences for the alt attribute
+  altText: string;
+  tags: string[];
+}
+
+export type ReferenceRole = 'subject' | 'style' | 'composition' | 'reference';
+
+export interface ReferenceImage {
+  id: string;
+  // Data URL; object URLs are resolved before a request is built
+  url: string;
+  role: ReferenceRole;
+  name: string;
+  // The gallery image it was taken from, if any
+  imageId?: string;
+}
+
+// Token counts as reported by the backend; absent when it does not report them
+export interface TokenUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+}
+
+// Output a streaming backend has sent so far, before the image arrives
+export interface GenerationProgress {
+  text?: string;
+  // Thought summaries, when the model shares them
+  thoughts?: string;
+}
+
+export interface GenerateImageRequest {
+  prompt: string;
+  aspectRatio: AspectRatio;
+  model: string;
+  references?: ReferenceImage[];
+  // Things to keep out of the image; folded into the prompt unless the backend has a native field
+  negativePrompt?: string;
+  temperature?: number;
+  seed?: number;
+  signal?: AbortSignal;
+  onUsage?: (usage: TokenUsage) => void;
+  onProgress?: (progress: GenerationProgress) => void;
+}
+
+export interface EditImageRequest {
+  prompt: string;
+  image: string;
+  // PNG data URL, white where the image may change
+  mask?: string;
+  // Output shape, when it differs from the source (canvas extension)
+  aspectRatio?: AspectRatio;
+  model: string;
+  temperature?: number;
+  seed?: number;
+  signal?: AbortSignal;
+  onUsage?: (usage: TokenUsage) => void;
+  onProgress?: (progress: GenerationProgress) => void;
+}
+
+// Where the original sits on an extended canvas
+export type CanvasAnchor =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right';
+
+export interface CanvasExtension {
+  aspectRatio: AspectRatio;
+  anchor: CanvasAnchor;
+  // Optional description of what should fill the new area
+  prompt?: string;
+  // Put the original pixels back exactly over the result
+  preserveOriginal: boolean;
+}
+
+export type PresetKind = 'style' | 'template';
+
+export interface PromptPreset {
+  id: string;
+  name: string;
+  kind: PresetKind;
+  // Styles: modifiers appended to the prompt. Templates: text with {placeholders}.
+  text: string;
+  avoid?: string;
+  builtIn?: boolean;
+}
+
+export type TurnRole = 'user' | 'model';
+
+export interface ConversationTurn {
+  id: string;
+  role: TurnRole;
+  text?: string;
+  // The first user turn carries the image being edited; model turns carry their result
+  image?: string;
+  timestamp: number;
+  // Gallery id once a model turn's image has been saved
+  savedImageId?: string;
+}
+
+// A chat-style editing conversation about one gallery image
+export interface EditSession {
+  id: string;
+  sourceId: string;
+  rootId: string;
+  provider: ProviderId;
+  model: string;
+  turns: ConversationTurn[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ConversationRequest {
+  // Oldest first, ending with the user's new instruction. Images are data URLs.
+  turns: ConversationTurn[];
+  model: string;
+  signal?: AbortSignal;
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface ConversationReply {
+  text?: string;
+  image?: string;
+}
+
+export interface ImageProvider {
+  id: ProviderId;
+  label: string;
+  models: string[];
+  defaultModel: string;
+  // 0 when the backend cannot take reference images alongside a prompt
+  maxReferenceImages: number;
+  generate: (request: GenerateImageRequest) => Promise<string>;
+  edit: (request: EditImageRequest) => Promise<string>;
+  // Multi-turn editing; absent when the backend only takes one instruction at a time
+  converse?: (request: ConversationRequest) => Promise<ConversationReply>;
+}
+
+export interface Collection {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+export type GallerySort = 'newest' | 'oldest' | 'prompt' | 'favorites' | 'most-edited';
+
+export interface GalleryQuery {
+  text: string;
+  favoritesOnly: boolean;
+  tags: string[];
+  aspectRatios: AspectRatio[];
+  // A provider id, or 'upload' for images brought in from disk
+  provider: string | null;
+  from: number | null;
+  to: number | null;
+  collectionId: string | null;
+  sort: GallerySort;
+}
+
+export type JobKind = 'generate' | 'edit';
+
+export type JobStatus = 'queued' | 'running' | 'failed' | 'done';
+
+export interface GenerationJob {
+  id: string;
+  kind: JobKind;
+  prompt: string;
+  // Absent for edits that keep the source image's shape
+  aspectRatio?: AspectRatio;
+  provider: ProviderId;
+  model: string;
+  // For edits: the version being edited and the gallery entry it belongs to
+  sourceId?: string;
+  rootId?: string;
+  status: JobStatus;
+  error?: string;
+  progress?: GenerationProgress;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+// Image jobs plus the text requests made around them
+export type UsageKind = JobKind | 'enhance' | 'describe';
+
+export interface UsageRecord extends TokenUsage {
+  id: string;
+  timestamp: number;
+  kind: UsageKind;
+  provider: ProviderId;
+  model: string;
+  latencyMs: number;
+  // Estimated US dollars, priced when the request finished
+  cost: number;
+  status: 'success' | 'failed';
+}
+
+// Per-model prices in US dollars. Token prices are per million tokens.
+export interface ModelPrice {
+  inputPerMillion?: number;
+  outputPerMillion?: number;
+  perImage?: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+// Spend caps in US dollars; null means no cap. Soft caps warn, hard caps block new jobs.
+export interface BudgetLimits {
+  dailySoft: number | null;
+  dailyHard: number | null;
+  monthlySoft: number | null;
+  monthlyHard: number | null;
+}
+
+// Where a key entered on the Settings page is kept: this tab only, or encrypted on this device
+export type KeyStorage = 'session' | 'device';
+
+// Defaults from the Settings page; null means the built-in default
+export interface AppSettings {
+  provider: ProviderId | null;
+  model: string | null;
+  // Gemini text model for prompt enhancement and image descriptions
+  textModel: string | null;
+  aspectRatio: AspectRatio;
+  // Images queued per prompt
+  candidateCount: number;
+  temperature: number | null;
+  seed: number | null;
 }
 
 export interface AppState {
@@ -4,15 +4,31 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // In proxy mode the Gemini and OpenAI keys are left out of the bundle; server/index.js holds them.
+    // Fixture record/replay happens in that server, so it implies proxy mode.
+    const proxyMode = env.GEMINI_MODE === 'proxy' || !!env.GEMINI_FIXTURES;
+    const geminiKey = proxyMode ? '' : env.GEMINI_API_KEY;
+    const openAIKey = proxyMode ? '' : env.OPENAI_API_KEY;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': `http://localhost:${env.PROXY_PORT || 8787}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(geminiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(geminiKey),
+        'process.env.GEMINI_MODE': JSON.stringify(proxyMode ? 'proxy' : env.GEMINI_MODE),
+        'process.env.GEMINI_PROXY_URL': JSON.stringify(env.GEMINI_PROXY_URL),
+        'process.env.GEMINI_FIXTURES': JSON.stringify(env.GEMINI_FIXTURES),
+        'process.env.OPENAI_API_KEY': JSON.stringify(openAIKey),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL),
+        'process.env.SD_BASE_URL': JSON.stringify(env.SD_BASE_URL),
+        'process.env.SD_API_FLAVOR': JSON.stringify(env.SD_API_FLAVOR),
+        'process.env.SD_MODELS': JSON.stringify(env.SD_MODELS)
       },
       resolve: {
         alias: {